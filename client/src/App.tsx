@@ -11,11 +11,13 @@ import { AppSidebar } from "@/components/AppSidebar";
 import Dashboard from "@/pages/Dashboard";
 import BetTracker from "@/pages/BetTracker";
 import PromoConverter from "@/pages/PromoConverter";
+import NameAliases from "@/pages/NameAliases";
+import Backtest from "@/pages/Backtest";
 import NotFound from "@/pages/not-found";
 import SettingsDialog from "@/components/SettingsDialog";
 import ThemeToggle from "@/components/ThemeToggle";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, Target, Gift, Settings } from "lucide-react";
+import { TrendingUp, Target, Gift, Link2, History, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { BookmakerWithCount } from "@/components/FilterBar";
 import type { ArbitrageOpportunity } from "@/components/ArbitrageCard";
@@ -181,6 +183,8 @@ function Router() {
     { path: "/", label: "Scanner", icon: TrendingUp },
     { path: "/bets", label: "Bet Tracker", icon: Target },
     { path: "/promos", label: "Promos", icon: Gift },
+    { path: "/aliases", label: "Aliases", icon: Link2 },
+    { path: "/backtest", label: "Backtest", icon: History },
   ];
 
   return (
@@ -225,6 +229,8 @@ function Router() {
         <Route path="/" component={DashboardWrapper} />
         <Route path="/bets" component={BetTracker} />
         <Route path="/promos" component={PromoConverter} />
+        <Route path="/aliases" component={NameAliases} />
+        <Route path="/backtest" component={Backtest} />
         <Route component={NotFound} />
       </Switch>
       <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
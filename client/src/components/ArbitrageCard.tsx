@@ -16,12 +16,16 @@ import {
   Wifi,
   Database,
   TestTube,
-  LineChart as LineChartIcon
+  LineChart as LineChartIcon,
+  AlertTriangle
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import LineMovementChart from "./LineMovementChart";
 import GameStatusBadge from "./GameStatusBadge";
-import { isStartingSoon } from "@/lib/timeUtils";
+import { formatQuoteAge, isStartingSoon } from "@/lib/timeUtils";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
 
 export interface ArbitrageOpportunity {
   id: string;
@@ -29,11 +33,20 @@ export interface ArbitrageOpportunity {
   match: string;
   bookmakers: {
     name: string;
+    bookmakerKey?: string;
     outcome: string;
     odds: number;
+    point?: number;
+    commission?: number;
+    effectiveOdds?: number;
     stake: number;
     ev?: number;
     evDollars?: number;
+    devigMethod?: "multiplicative" | "additive" | "power" | "shin" | "worst_case";
+    lastUpdate?: string;
+    stale?: boolean;
+    currency?: string;
+    localStake?: number;
   }[];
   profit: number;
   timestamp: string;
@@ -50,6 +63,13 @@ export interface ArbitrageOpportunity {
   };
   isPositiveEV?: boolean;
   marketType?: "h2h" | "spreads" | "totals";
+  shapeMismatch?: boolean;
+  lifecycle?: {
+    firstSeen: string;
+    lastSeen: string;
+    peakProfit: number;
+    disappearedAt?: string;
+  };
 }
 
 interface ArbitrageCardProps {
@@ -59,6 +79,8 @@ interface ArbitrageCardProps {
 
 export default function ArbitrageCard({ opportunity, onClick }: ArbitrageCardProps) {
   const [lineMovementOpen, setLineMovementOpen] = useState(false);
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
   const profitLevel = opportunity.profit >= 3 ? "high" : opportunity.profit >= 1 ? "medium" : "low";
   const startingSoon = isStartingSoon(opportunity.commenceTime);
   
@@ -89,7 +111,8 @@ export default function ArbitrageCard({ opportunity, onClick }: ArbitrageCardPro
 
   const timeAgo = () => {
     const now = new Date();
-    const timestamp = new Date(opportunity.timestamp);
+    // Age since the opportunity was first found, not since this refresh
+    const timestamp = new Date(opportunity.lifecycle?.firstSeen ?? opportunity.timestamp);
     const seconds = Math.floor((now.getTime() - timestamp.getTime()) / 1000);
     
     if (seconds < 60) return `${seconds}s ago`;
@@ -202,6 +225,28 @@ export default function ArbitrageCard({ opportunity, onClick }: ArbitrageCardPro
                   Middle
                 </Badge>
               )}
+              {opportunity.shapeMismatch && (
+                <Badge
+                  variant="outline"
+                  className="gap-1 text-xs font-medium px-2 py-0.5 bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950/30 dark:text-amber-400 dark:border-amber-800"
+                  title="Bookmakers disagree on the outcomes in this market. Check every leg before betting."
+                  data-testid="badge-shape-mismatch"
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  Market Mismatch
+                </Badge>
+              )}
+              {opportunity.bookmakers.some(b => b.stale) && (
+                <Badge
+                  variant="outline"
+                  className="gap-1 text-xs font-medium px-2 py-0.5 bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950/30 dark:text-amber-400 dark:border-amber-800"
+                  title="One or more quotes are older than the max quote age. Confirm the price before betting."
+                  data-testid="badge-stale-quote"
+                >
+                  <Clock className="h-3 w-3" />
+                  Stale Quote
+                </Badge>
+              )}
               {opportunity.bookmakers.some(b => (b.ev || 0) > 5) && (
                 <Badge
                   variant="outline"
@@ -242,13 +287,13 @@ export default function ArbitrageCard({ opportunity, onClick }: ArbitrageCardPro
           <div className="text-right">
             <p className="text-xs text-muted-foreground mb-0.5">Profit</p>
             <p className={cn("text-xl font-bold tabular-nums", profitColor)} data-testid="text-profit-amount">
-              ${guaranteedProfit.toFixed(2)}
+              {formatMoney(guaranteedProfit)}
             </p>
           </div>
           <div className="text-right">
             <p className="text-xs text-muted-foreground mb-0.5">Stake</p>
             <p className="text-sm font-semibold tabular-nums text-muted-foreground">
-              ${totalStake.toFixed(2)}
+              {formatMoney(totalStake)}
             </p>
           </div>
         </div>
@@ -266,20 +311,35 @@ export default function ArbitrageCard({ opportunity, onClick }: ArbitrageCardPro
                   {bookmaker.name}
                 </Badge>
                 <span className="font-medium text-xs truncate" data-testid="text-outcome">
-                  {bookmaker.outcome}
+                  {formatOutcomeWithLine(bookmaker.outcome, bookmaker.point)}
                 </span>
+                {bookmaker.lastUpdate && (
+                  <span
+                    className={cn(
+                      "text-[10px] tabular-nums shrink-0",
+                      bookmaker.stale ? "font-semibold text-amber-600 dark:text-amber-400" : "text-muted-foreground"
+                    )}
+                    title={bookmaker.stale ? "Quote is older than the max quote age" : "Time since the bookmaker updated this price"}
+                    data-testid="text-quote-age"
+                  >
+                    {formatQuoteAge(bookmaker.lastUpdate)} old
+                  </span>
+                )}
               </div>
 
               <div className="flex items-center gap-3 shrink-0">
                 <div className="text-right">
                   <p className="text-[10px] text-muted-foreground">Odds</p>
                   <p className="text-xs font-semibold tabular-nums" data-testid="text-odds">
-                    {bookmaker.odds.toFixed(2)}
+                    {formatOdds(bookmaker.odds)}
                   </p>
                 </div>
                 
                 {bookmaker.ev !== undefined && bookmaker.ev > 0 && (
-                  <div className="text-right">
+                  <div
+                    className="text-right"
+                    title={bookmaker.devigMethod ? `Fair price de-vigged with ${bookmaker.devigMethod.replace("_", " ")} method` : undefined}
+                  >
                     <p className="text-[10px] text-muted-foreground">EV</p>
                     <p className={cn(
                       "text-xs font-semibold tabular-nums",
@@ -293,8 +353,13 @@ export default function ArbitrageCard({ opportunity, onClick }: ArbitrageCardPro
                 <div className="text-right">
                   <p className="text-[10px] text-muted-foreground">Stake</p>
                   <p className="text-xs font-semibold tabular-nums" data-testid="text-stake">
-                    ${bookmaker.stake.toFixed(2)}
+                    {formatMoney(bookmaker.stake)}
                   </p>
+                  {bookmaker.currency && bookmaker.localStake !== undefined && (
+                    <p className="text-[10px] text-muted-foreground tabular-nums" data-testid="text-local-stake">
+                      {formatMoney(bookmaker.localStake, bookmaker.currency)}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,305 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, TrendingUp } from "lucide-react";
+import type { BoostEvaluation, BoostRequest, MarketType, OddsApiEvent, Promo } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+
+interface EventsResponse {
+  events: OddsApiEvent[];
+  count: number;
+}
+
+interface BoostEvaluatorProps {
+  promo: Promo;
+}
+
+type BoostMode = "profit_boost" | "boosted_odds";
+
+const MARKET_LABELS: Record<MarketType, string> = {
+  h2h: "Moneyline",
+  spreads: "Spread",
+  totals: "Total",
+};
+
+/**
+ * Outcomes quoted for a market, one per outcome and line
+ */
+function getOutcomeOptions(event: OddsApiEvent | undefined, marketType: MarketType) {
+  const options = new Map<string, { outcome: string; point?: number }>();
+  for (const bookmaker of event?.bookmakers ?? []) {
+    const market = bookmaker.markets.find(m => m.key === marketType);
+    for (const outcome of market?.outcomes ?? []) {
+      options.set(`${outcome.name}|${outcome.point ?? ""}`, { outcome: outcome.name, point: outcome.point });
+    }
+  }
+  return Array.from(options, ([key, option]) => ({ key, ...option }));
+}
+
+export function BoostEvaluator({ promo }: BoostEvaluatorProps) {
+  const { toast } = useToast();
+  const { formatOdds, parseOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+  const [eventId, setEventId] = useState("");
+  const [marketType, setMarketType] = useState<MarketType>("h2h");
+  const [outcomeKey, setOutcomeKey] = useState("");
+  const [mode, setMode] = useState<BoostMode>("profit_boost");
+  const [boostValue, setBoostValue] = useState(promo.value.toString());
+  const [maxStake, setMaxStake] = useState("");
+  const [maxWinnings, setMaxWinnings] = useState("");
+
+  const { data: eventsData, isLoading: eventsLoading } = useQuery<EventsResponse>({
+    queryKey: ["/api/odds/events"],
+    enabled: isOpen,
+  });
+
+  const event = eventsData?.events.find(e => e.id === eventId);
+  const markets = useMemo(
+    () => (Object.keys(MARKET_LABELS) as MarketType[]).filter(key =>
+      event?.bookmakers.some(bookmaker => bookmaker.markets.some(m => m.key === key))
+    ),
+    [event]
+  );
+  const outcomes = useMemo(() => getOutcomeOptions(event, marketType), [event, marketType]);
+  const selectedOutcome = outcomes.find(o => o.key === outcomeKey);
+
+  const evaluateMutation = useMutation({
+    mutationFn: async (request: BoostRequest): Promise<BoostEvaluation> => {
+      const res = await apiRequest("POST", "/api/boosts/evaluate", request);
+      return await res.json();
+    },
+    onError: (err) => {
+      toast({
+        title: "Could not evaluate boost",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEvaluate = () => {
+    if (!event || !selectedOutcome) return;
+
+    const boost = mode === "boosted_odds" ? parseOdds(boostValue) : parseFloat(boostValue);
+    if (boost === null || isNaN(boost) || boost <= 0) {
+      toast({
+        title: "Invalid boost",
+        description: mode === "boosted_odds" ? "Enter the boosted odds" : "Enter the profit boost %",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    evaluateMutation.mutate({
+      promoId: promo.id,
+      sport: event.sport_key,
+      eventId: event.id,
+      marketType,
+      outcome: selectedOutcome.outcome,
+      point: selectedOutcome.point,
+      boostedOdds: mode === "boosted_odds" ? boost : undefined,
+      profitBoost: mode === "profit_boost" ? boost : undefined,
+      maxStake: parseFloat(maxStake) || undefined,
+      maxWinnings: parseFloat(maxWinnings) || undefined,
+    });
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setIsOpen(true)}
+        data-testid={`button-evaluate-boost-${promo.id}`}
+      >
+        <Calculator className="h-4 w-4 mr-2" />
+        Evaluate Boost
+      </Button>
+    );
+  }
+
+  const result = evaluateMutation.data;
+
+  return (
+    <div className="space-y-3" data-testid={`boost-evaluator-${promo.id}`}>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1.5 sm:col-span-3">
+          <Label>Event</Label>
+          <Select
+            value={eventId}
+            onValueChange={(value) => {
+              setEventId(value);
+              setMarketType("h2h");
+              setOutcomeKey("");
+            }}
+            disabled={eventsLoading}
+          >
+            <SelectTrigger data-testid={`select-boost-event-${promo.id}`}>
+              <SelectValue placeholder={eventsLoading ? "Loading events..." : "Select an event"} />
+            </SelectTrigger>
+            <SelectContent>
+              {eventsData?.events.map((e) => (
+                <SelectItem key={e.id} value={e.id}>
+                  {e.home_team} vs {e.away_team}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Market</Label>
+          <Select
+            value={marketType}
+            onValueChange={(value: MarketType) => {
+              setMarketType(value);
+              setOutcomeKey("");
+            }}
+            disabled={!event}
+          >
+            <SelectTrigger data-testid={`select-boost-market-${promo.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {markets.map((key) => (
+                <SelectItem key={key} value={key}>{MARKET_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label>Outcome</Label>
+          <Select value={outcomeKey} onValueChange={setOutcomeKey} disabled={!event}>
+            <SelectTrigger data-testid={`select-boost-outcome-${promo.id}`}>
+              <SelectValue placeholder="Select an outcome" />
+            </SelectTrigger>
+            <SelectContent>
+              {outcomes.map((o) => (
+                <SelectItem key={o.key} value={o.key}>
+                  {formatOutcomeWithLine(o.outcome, o.point)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Boost</Label>
+          <Select
+            value={mode}
+            onValueChange={(value: BoostMode) => {
+              setMode(value);
+              setBoostValue(value === "profit_boost" ? promo.value.toString() : "");
+            }}
+          >
+            <SelectTrigger data-testid={`select-boost-mode-${promo.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="profit_boost">Profit boost %</SelectItem>
+              <SelectItem value="boosted_odds">Boosted odds</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>{mode === "profit_boost" ? "Boost (%)" : "Boosted Odds"}</Label>
+          <Input
+            value={boostValue}
+            onChange={(e) => setBoostValue(e.target.value)}
+            data-testid={`input-boost-value-${promo.id}`}
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Max Stake</Label>
+          <Input
+            type="number"
+            placeholder="No limit"
+            value={maxStake}
+            onChange={(e) => setMaxStake(e.target.value)}
+            data-testid={`input-boost-max-stake-${promo.id}`}
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Max Extra Winnings</Label>
+          <Input
+            type="number"
+            placeholder="No limit"
+            value={maxWinnings}
+            onChange={(e) => setMaxWinnings(e.target.value)}
+            data-testid={`input-boost-max-winnings-${promo.id}`}
+          />
+        </div>
+      </div>
+
+      <Button
+        size="sm"
+        onClick={handleEvaluate}
+        disabled={!selectedOutcome || evaluateMutation.isPending}
+        data-testid={`button-run-boost-${promo.id}`}
+      >
+        <TrendingUp className="h-4 w-4 mr-2" />
+        {evaluateMutation.isPending ? "Evaluating..." : "Evaluate"}
+      </Button>
+
+      {result && (
+        <div className="p-3 rounded-lg border space-y-2" data-testid={`boost-result-${promo.id}`}>
+          <div className="flex items-center gap-2 flex-wrap">
+            {result.arbitrage ? (
+              <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                Arbitrage {result.profit.toFixed(2)}%
+              </Badge>
+            ) : result.ev !== null && result.ev > 0 ? (
+              <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                +EV {result.ev.toFixed(2)}%
+              </Badge>
+            ) : (
+              <Badge variant="outline">No edge</Badge>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {result.baseOdds !== undefined && `${formatOdds(result.baseOdds)} → `}
+              {formatOdds(result.boostedOdds)}
+              {result.stakeCap !== undefined && ` · stake cap ${formatMoney(result.stakeCap)}`}
+            </span>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            {result.legs.map((leg, index) => (
+              <div
+                key={index}
+                className={index === 0 ? "flex items-center justify-between gap-2" : "flex items-center justify-between gap-2 text-muted-foreground"}
+              >
+                <span className="min-w-0 truncate">
+                  {formatOutcomeWithLine(leg.outcome, leg.point)} @ {formatOdds(leg.odds)} · {leg.name}
+                </span>
+                <span className="font-mono shrink-0">
+                  {leg.stake > 0 ? formatMoney(leg.localStake ?? leg.stake, leg.currency) : "—"}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            {result.arbitrage
+              ? `Guaranteed profit ${formatMoney(result.guaranteedProfit)}`
+              : result.evDollars !== null
+                ? `Expected value ${formatMoney(result.evDollars)} (no arbitrage against the best opposing prices)`
+                : "Not enough bookmakers to price the fair odds"}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import type { Bet } from "@shared/schema";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface ClvTrendChartProps {
+  bets: Bet[];
+}
+
+const formatClv = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+export function ClvTrendChart({ bets }: ClvTrendChartProps) {
+  // Each bet's CLV in placement order, with the running average up to it
+  const chartData = useMemo(() => {
+    let total = 0;
+    return bets
+      .filter((bet): bet is Bet & { clv: number } => bet.clv !== undefined)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .map((bet, index) => {
+        total += bet.clv;
+        return {
+          timestamp: bet.timestamp,
+          match: bet.match,
+          clv: bet.clv,
+          average: Math.round((total / (index + 1)) * 100) / 100,
+        };
+      });
+  }, [bets]);
+
+  if (chartData.length === 0) return null;
+
+  const averageClv = chartData[chartData.length - 1].average;
+
+  return (
+    <Card data-testid="card-clv-trend">
+      <CardHeader className="p-4 sm:p-6 pb-2 sm:pb-2">
+        <CardDescription className="text-xs uppercase">Closing Line Value</CardDescription>
+        <CardTitle className={cn("text-2xl", averageClv >= 0 ? "text-success" : "text-destructive")}>
+          {formatClv(averageClv)}
+          <span className="text-sm font-normal text-muted-foreground ml-2">
+            average over {chartData.length} bet{chartData.length === 1 ? "" : "s"}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
+        <ResponsiveContainer width="100%" height={240} data-testid="chart-clv-trend">
+          <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis
+              dataKey="timestamp"
+              tickFormatter={(timestamp: string) => format(new Date(timestamp), "MMM d")}
+              className="text-xs"
+              tick={{ fill: "hsl(var(--muted-foreground))" }}
+            />
+            <YAxis
+              tickFormatter={(value: number) => `${value}%`}
+              className="text-xs"
+              tick={{ fill: "hsl(var(--muted-foreground))" }}
+            />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+            <Tooltip
+              labelFormatter={(_, payload) => payload?.[0]?.payload.match ?? ""}
+              contentStyle={{
+                backgroundColor: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "8px",
+                color: "hsl(var(--foreground))",
+              }}
+              formatter={(value: any) => formatClv(value)}
+            />
+            <Legend iconType="line" />
+            <Line
+              type="monotone"
+              dataKey="clv"
+              name="Bet CLV"
+              stroke="#3b82f6"
+              strokeOpacity={0.4}
+              dot={{ r: 3 }}
+            />
+            <Line
+              type="monotone"
+              dataKey="average"
+              name="Running average"
+              stroke="#10b981"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
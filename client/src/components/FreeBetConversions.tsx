@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Gift, RefreshCw, Search, BookmarkPlus } from "lucide-react";
+import type { FreeBetConversion, InsertBet, Promo } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+
+interface ConversionsResponse {
+  promo: Promo;
+  conversions: FreeBetConversion[];
+  count: number;
+}
+
+interface FreeBetConversionsProps {
+  promo: Promo;
+}
+
+const MAX_CONVERSIONS = 10;
+
+export function FreeBetConversions({ promo }: FreeBetConversionsProps) {
+  const { toast } = useToast();
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery<ConversionsResponse>({
+    queryKey: [`/api/promos/${promo.id}/conversions`],
+    enabled: isOpen,
+  });
+
+  const logBetMutation = useMutation({
+    mutationFn: async (conversion: FreeBetConversion) => {
+      const legs = [conversion.freeBet, ...conversion.hedges];
+      const bet: InsertBet = {
+        eventId: conversion.eventId,
+        sport: conversion.sport,
+        match: conversion.match,
+        bookmakers: legs.map((leg, index) => ({
+          name: leg.name,
+          bookmakerKey: leg.bookmakerKey,
+          outcome: leg.outcome,
+          odds: leg.odds,
+          point: leg.point,
+          stake: leg.stake ?? 0,
+          currency: leg.currency,
+          localStake: leg.localStake,
+          freeBet: index === 0 || undefined,
+        })),
+        promoId: promo.id,
+        status: "pending",
+        profit: conversion.guaranteedProfit,
+        timestamp: new Date().toISOString(),
+      };
+      return await apiRequest("POST", "/api/bets", bet);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bets"] });
+      toast({
+        title: "Bet logged",
+        description: "The free bet conversion has been added to your bet tracker",
+      });
+    },
+    onError: (err) => {
+      toast({
+        title: "Failed to log bet",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isOpen) {
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setIsOpen(true)}
+        data-testid={`button-find-conversions-${promo.id}`}
+      >
+        <Search className="h-4 w-4 mr-2" />
+        Find Conversions
+      </Button>
+    );
+  }
+
+  const conversions = data?.conversions.slice(0, MAX_CONVERSIONS) ?? [];
+
+  return (
+    <div className="space-y-3" data-testid={`conversions-${promo.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-medium">Best conversions by retention</div>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          data-testid={`button-refresh-conversions-${promo.id}`}
+        >
+          <RefreshCw className={isFetching ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-20" />
+          <Skeleton className="h-20" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">
+          {error instanceof Error ? error.message : "Failed to load conversions"}
+        </p>
+      ) : conversions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No events found where {promo.bookmaker} and another bookmaker cover every outcome
+        </p>
+      ) : (
+        conversions.map((conversion) => (
+          <div
+            key={conversion.id}
+            className="p-3 rounded-lg border space-y-2"
+            data-testid={`conversion-${conversion.id}`}
+          >
+            <div className="flex items-start justify-between gap-2 flex-wrap">
+              <div className="min-w-0">
+                <div className="font-medium text-sm truncate">{conversion.match}</div>
+                <div className="text-xs text-muted-foreground">
+                  {conversion.sport} · {conversion.marketType}
+                  {conversion.commenceTime && ` · ${new Date(conversion.commenceTime).toLocaleString()}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                  {conversion.retention.toFixed(1)}% retained
+                </Badge>
+                <Badge variant="outline">{formatMoney(conversion.guaranteedProfit)} profit</Badge>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 min-w-0 truncate">
+                  <Gift className="h-3.5 w-3.5 text-primary shrink-0" />
+                  {formatOutcomeWithLine(conversion.freeBet.outcome, conversion.freeBet.point)} @ {formatOdds(conversion.freeBet.odds)} · {conversion.freeBet.name}
+                </span>
+                <span className="font-mono shrink-0">
+                  {formatMoney(conversion.freeBet.localStake ?? conversion.freeBet.stake ?? 0, conversion.freeBet.currency)} free
+                </span>
+              </div>
+              {conversion.hedges.map((hedge, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 text-muted-foreground">
+                  <span className="min-w-0 truncate">
+                    {formatOutcomeWithLine(hedge.outcome, hedge.point)} @ {formatOdds(hedge.odds)} · {hedge.name}
+                  </span>
+                  <span className="font-mono shrink-0">
+                    {formatMoney(hedge.localStake ?? hedge.stake ?? 0, hedge.currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between pt-1">
+              <span className="text-xs text-muted-foreground">
+                Hedge total {formatMoney(conversion.hedgeStake)}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => logBetMutation.mutate(conversion)}
+                disabled={logBetMutation.isPending}
+                data-testid={`button-log-conversion-${conversion.id}`}
+              >
+                <BookmarkPlus className="h-4 w-4 mr-2" />
+                Log Bet
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,8 @@ import {
 } from "@/components/ui/dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
-import { AlertCircle, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, TrendingUp, Zap } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -17,11 +18,20 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceDot,
+  ReferenceLine,
   ResponsiveContainer,
 } from "recharts";
-import type { HistoricalOdds } from "@shared/schema";
+import type { HistoricalOdds, SteamMove } from "@shared/schema";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
 import { format } from "date-fns";
 
+interface SteamResponse {
+  moves: SteamMove[];
+  count: number;
+}
+
 interface LineMovementChartProps {
   eventId: string;
   matchName: string;
@@ -47,10 +57,16 @@ export default function LineMovementChart({
   open,
   onOpenChange,
 }: LineMovementChartProps) {
+  const { formatOdds } = useOddsFormat();
   const { data: historicalOdds, isLoading } = useQuery<HistoricalOdds[]>({
     queryKey: ["/api/historical-odds", eventId],
     enabled: open && !!eventId,
   });
+  const { data: steamData } = useQuery<SteamResponse>({
+    queryKey: ["/api/historical-odds", eventId, "steam"],
+    enabled: open && !!eventId,
+  });
+  const steamMoves = steamData?.moves ?? [];
 
   // Transform data for recharts
   const chartData = (() => {
@@ -156,6 +172,7 @@ export default function LineMovementChart({
                     tick={{ fill: "hsl(var(--muted-foreground))" }}
                   />
                   <YAxis
+                    tickFormatter={formatOdds}
                     className="text-xs"
                     tick={{ fill: "hsl(var(--muted-foreground))" }}
                     label={{
@@ -173,7 +190,7 @@ export default function LineMovementChart({
                       borderRadius: "8px",
                       color: "hsl(var(--foreground))",
                     }}
-                    formatter={(value: any) => [value.toFixed(2), ""]}
+                    formatter={(value: any) => [formatOdds(value), ""]}
                   />
                   <Legend
                     wrapperStyle={{
@@ -181,10 +198,32 @@ export default function LineMovementChart({
                     }}
                     iconType="line"
                   />
+                  {steamMoves.map((steam) => (
+                    <ReferenceLine
+                      key={steam.id}
+                      x={steam.detectedAt}
+                      stroke={steam.direction === "shortening" ? "#f59e0b" : "#8b5cf6"}
+                      strokeDasharray="4 4"
+                      label={{ value: "Steam", position: "top", fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                    />
+                  ))}
+                  {steamMoves.flatMap((steam) => steam.moves.map((move) => (
+                    <ReferenceDot
+                      key={`${steam.id}-${move.bookmaker}-${move.timestamp}`}
+                      x={move.timestamp}
+                      y={move.toOdds}
+                      r={6}
+                      fill="none"
+                      stroke={steam.direction === "shortening" ? "#f59e0b" : "#8b5cf6"}
+                      strokeWidth={2}
+                    />
+                  )))}
+                  {/* Only price changes are recorded, so each price holds until the next point */}
                   {lines.map((line) => (
                     <Line
                       key={line.dataKey}
-                      type="monotone"
+                      type="stepAfter"
+                      connectNulls
                       dataKey={line.dataKey}
                       stroke={line.color}
                       name={line.name}
@@ -196,6 +235,35 @@ export default function LineMovementChart({
                 </LineChart>
               </ResponsiveContainer>
 
+              {steamMoves.length > 0 && (
+                <Card data-testid="card-steam-moves">
+                  <CardContent className="p-4 space-y-3">
+                    <h4 className="font-semibold text-sm flex items-center gap-2">
+                      <Zap className="h-4 w-4 text-warning" />
+                      Steam Moves
+                    </h4>
+                    {steamMoves.map((steam) => (
+                      <div key={steam.id} className="text-sm space-y-1" data-testid={`steam-move-${steam.id}`}>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant="outline">{steam.direction === "shortening" ? "Shortening" : "Drifting"}</Badge>
+                          <span className="font-medium">{formatOutcomeWithLine(steam.outcome, steam.point)}</span>
+                          <span className="text-muted-foreground">
+                            {steam.moves.length} books · {steam.averageChange > 0 ? "+" : ""}{steam.averageChange.toFixed(2)}% implied · {formatTooltipLabel(steam.detectedAt)}
+                          </span>
+                        </div>
+                        {steam.staleBooks.length > 0 && (
+                          <div className="text-xs text-success">
+                            Not moved yet: {steam.staleBooks.map(book =>
+                              `${book.bookmaker} @ ${formatOdds(book.odds)} (+${book.ev.toFixed(2)}% EV)`
+                            ).join(", ")}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               <Card className="bg-muted/30">
                 <CardContent className="p-4 space-y-2">
                   <h4 className="font-semibold text-sm">About Line Movement</h4>
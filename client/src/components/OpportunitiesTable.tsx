@@ -10,6 +10,9 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ArrowRight } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
 import type { ArbitrageOpportunity } from "@/components/ArbitrageCard";
 
 interface OpportunitiesTableProps {
@@ -18,6 +21,9 @@ interface OpportunitiesTableProps {
 }
 
 export function OpportunitiesTable({ opportunities, onClick }: OpportunitiesTableProps) {
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
+
   const getProfitLevel = (profit: number) => {
     if (profit >= 3) return "high";
     if (profit >= 1) return "medium";
@@ -105,6 +111,14 @@ export function OpportunitiesTable({ opportunities, onClick }: OpportunitiesTabl
                           className="text-xs font-medium"
                         >
                           {bm.name}
+                          {bm.point !== undefined && (
+                            <span className="ml-1 text-muted-foreground tabular-nums" data-testid="cell-line">
+                              {formatOutcomeWithLine(bm.outcome, bm.point)}
+                            </span>
+                          )}
+                          <span className="ml-1 tabular-nums" data-testid="cell-odds">
+                            @ {formatOdds(bm.odds)}
+                          </span>
                         </Badge>
                       ))}
                     </div>
@@ -120,7 +134,7 @@ export function OpportunitiesTable({ opportunities, onClick }: OpportunitiesTabl
                   </TableCell>
                   <TableCell className="text-right">
                     <span className="font-medium tabular-nums text-sm" data-testid="cell-stake">
-                      ${totalStake.toFixed(2)}
+                      {formatMoney(totalStake)}
                     </span>
                   </TableCell>
                   <TableCell className="text-right">
@@ -128,7 +142,7 @@ export function OpportunitiesTable({ opportunities, onClick }: OpportunitiesTabl
                       "font-semibold tabular-nums text-sm",
                       getProfitColor(opp.profit)
                     )} data-testid="cell-returns">
-                      ${guaranteedProfit.toFixed(2)}
+                      {formatMoney(guaranteedProfit)}
                     </span>
                   </TableCell>
                   <TableCell className="text-right hidden sm:table-cell">
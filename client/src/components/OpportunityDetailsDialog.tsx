@@ -11,6 +11,21 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   TrendingUp,
   Trophy,
@@ -27,8 +42,14 @@ import {
   Calendar,
   Calculator,
   RotateCcw,
+  Maximize2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+import { formatQuoteAge } from "@/lib/timeUtils";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+import { allocateStakes, evaluateStakes, roundStakes, type StakeAllocation } from "@shared/stakes";
 import { useState, useEffect } from "react";
 import type { ArbitrageOpportunity } from "./ArbitrageCard";
 
@@ -46,12 +67,26 @@ export default function OpportunityDetailsDialog({
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [customStake, setCustomStake] = useState<string>("");
   const [useCustomStake, setUseCustomStake] = useState(false);
+  const [roundingIncrement, setRoundingIncrement] = useState<string>("0");
+  const [maxOutNote, setMaxOutNote] = useState<string | null>(null);
+  const [maxOutStakes, setMaxOutStakes] = useState<number[] | null>(null);
+  const [isMaxingOut, setIsMaxingOut] = useState(false);
+  const [allocationMode, setAllocationMode] = useState<string>("equal");
+  const [profitRatios, setProfitRatios] = useState<string[]>([]);
+  const [oddsInputs, setOddsInputs] = useState<string[]>([]);
+  const { formatOdds, parseOdds } = useOddsFormat();
+  const { formatMoney, toAccountCurrency } = useCurrency();
 
   useEffect(() => {
     if (open && opportunity) {
       const defaultTotal = opportunity.bookmakers.reduce((sum, b) => sum + b.stake, 0);
       setCustomStake(defaultTotal.toFixed(2));
       setUseCustomStake(false);
+      setMaxOutNote(null);
+      setMaxOutStakes(null);
+      setAllocationMode("equal");
+      setProfitRatios(opportunity.bookmakers.map(() => "1"));
+      setOddsInputs(opportunity.bookmakers.map(() => ""));
     }
   }, [open, opportunity]);
 
@@ -65,7 +100,45 @@ export default function OpportunityDetailsDialog({
     return useCustomStake ? originalStake * stakeMultiplier : originalStake;
   };
 
-  const guaranteedProfit = (activeTotalStake * opportunity.profit) / 100;
+  // Prices typed in the calculator replace the quoted odds, net of the same commission
+  const enteredOdds = opportunity.bookmakers.map((_, index) => parseOdds(oddsInputs[index] ?? ""));
+  const hasEnteredOdds = enteredOdds.some(odds => odds !== null);
+  const legOdds = opportunity.bookmakers.map((b, index) => {
+    const entered = enteredOdds[index];
+    if (entered === null) return b.effectiveOdds ?? b.odds;
+    return 1 + (entered - 1) * (1 - (b.commission ?? 0) / 100);
+  });
+
+  const allocation: StakeAllocation =
+    allocationMode === "ratio"
+      ? { mode: "ratio", ratios: profitRatios.map(r => parseFloat(r) || 0) }
+      : allocationMode.startsWith("favor-")
+        ? { mode: "favor", outcomeIndex: parseInt(allocationMode.slice("favor-".length), 10) }
+        : { mode: "equal" };
+  const isEqualProfit = allocation.mode === "equal";
+
+  // Maxed-out stakes are the solver's, already within every limit
+  const exactStakes = isEqualProfit && !hasEnteredOdds
+    ? maxOutStakes ?? opportunity.bookmakers.map(b => calculateStake(b.stake))
+    : allocateStakes(legOdds, activeTotalStake, allocation);
+
+  const increment = parseFloat(roundingIncrement);
+  const rounded = increment > 0 ? roundStakes(exactStakes, legOdds, increment, maxOutStakes ?? []) : null;
+  const outcomes = rounded ?? evaluateStakes(exactStakes, legOdds);
+
+  const displayStake = (index: number) => (rounded ? rounded.stakes[index] : exactStakes[index]);
+
+  // Stake to enter at the bookmaker, in its account currency
+  const accountStake = (index: number) => {
+    const currency = opportunity.bookmakers[index].currency;
+    return currency ? toAccountCurrency(displayStake(index), currency) : null;
+  };
+
+  // Unrounded equal-profit stakes keep the engine's exact figures
+  const useEngineProfit = isEqualProfit && !rounded && !hasEnteredOdds;
+  const displayTotalStake = rounded ? rounded.totalStake : activeTotalStake;
+  const displayProfitPercentage = useEngineProfit ? opportunity.profit : outcomes.worstCaseProfitPercentage;
+  const guaranteedProfit = useEngineProfit ? (activeTotalStake * opportunity.profit) / 100 : outcomes.worstCaseProfit;
   const profitLevel = opportunity.profit >= 3 ? "high" : opportunity.profit >= 1 ? "medium" : "low";
 
   const profitTextClass =
@@ -84,6 +157,8 @@ export default function OpportunityDetailsDialog({
 
   const handleCustomStakeChange = (value: string) => {
     setCustomStake(value);
+    setMaxOutNote(null);
+    setMaxOutStakes(null);
     setUseCustomStake(value.trim() !== "" && parseFloat(value) > 0);
   };
 
@@ -91,6 +166,50 @@ export default function OpportunityDetailsDialog({
     const defaultTotal = opportunity.bookmakers.reduce((sum, b) => sum + b.stake, 0);
     setCustomStake(defaultTotal.toFixed(2));
     setUseCustomStake(false);
+    setMaxOutNote(null);
+    setMaxOutStakes(null);
+  };
+
+  const handleMaxOut = async () => {
+    setIsMaxingOut(true);
+    try {
+      const response = await fetch("/api/stakes/max", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          legs: opportunity.bookmakers.map(b => ({
+            bookmaker: b.name,
+            bookmakerKey: b.bookmakerKey,
+            outcome: b.outcome,
+            odds: b.odds,
+            commission: b.commission,
+          })),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setMaxOutNote(result.message || "Could not calculate max stake");
+        return;
+      }
+
+      // A zero total (e.g. an empty balance) stays in place rather than falling back to the default stakes
+      const limitedBy = result.bottleneck
+        ? `${result.bottleneck.bookmaker} ${result.bottleneck.constraint === "balance" ? "balance" : "max stake"} (${formatMoney(result.bottleneck.limit)})`
+        : null;
+      setCustomStake(result.totalStake.toFixed(2));
+      setUseCustomStake(true);
+      setMaxOutStakes(result.stakes);
+      setMaxOutNote(
+        result.totalStake > 0
+          ? limitedBy && `Limited by ${limitedBy}`
+          : `No stake possible${limitedBy ? `: limited by ${limitedBy}` : ""}`
+      );
+    } catch (error) {
+      setMaxOutNote("Could not calculate max stake");
+    } finally {
+      setIsMaxingOut(false);
+    }
   };
 
   const getDataSourceBadge = () => {
@@ -140,7 +259,7 @@ export default function OpportunityDetailsDialog({
   };
 
   const formatTime = () => {
-    const timestamp = new Date(opportunity.timestamp);
+    const timestamp = new Date(opportunity.lifecycle?.firstSeen ?? opportunity.timestamp);
     return timestamp.toLocaleString();
   };
 
@@ -191,6 +310,17 @@ export default function OpportunityDetailsDialog({
                       />
                     </div>
                   </div>
+                  <Button
+                    variant="outline"
+                    onClick={handleMaxOut}
+                    disabled={isMaxingOut}
+                    className="h-12 shrink-0 gap-2"
+                    title="Largest stake your bookmaker limits and balances allow"
+                    data-testid="button-max-out"
+                  >
+                    <Maximize2 className="h-4 w-4" />
+                    Max Out
+                  </Button>
                   <Button
                     variant="outline"
                     size="icon"
@@ -202,8 +332,96 @@ export default function OpportunityDetailsDialog({
                     <RotateCcw className="h-4 w-4" />
                   </Button>
                 </div>
+                {maxOutNote && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400" data-testid="text-max-out-note">
+                    {maxOutNote}
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="stake-allocation" className="text-sm">
+                    Profit Allocation
+                  </Label>
+                  <Select value={allocationMode} onValueChange={setAllocationMode}>
+                    <SelectTrigger id="stake-allocation" className="w-56" data-testid="select-stake-allocation">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="equal">Equal profit</SelectItem>
+                      {opportunity.bookmakers.map((bookmaker, index) => (
+                        <SelectItem key={index} value={`favor-${index}`}>
+                          All profit on {formatOutcomeWithLine(bookmaker.outcome, bookmaker.point)}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="ratio">Custom ratio</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {allocationMode === "ratio" && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {opportunity.bookmakers.map((bookmaker, index) => (
+                      <div key={index} className="space-y-1">
+                        <Label htmlFor={`profit-ratio-${index}`} className="text-xs truncate block">
+                          {formatOutcomeWithLine(bookmaker.outcome, bookmaker.point)}
+                        </Label>
+                        <Input
+                          id={`profit-ratio-${index}`}
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={profitRatios[index] ?? "1"}
+                          onChange={(e) =>
+                            setProfitRatios(prev => prev.map((r, i) => (i === index ? e.target.value : r)))
+                          }
+                          data-testid={`input-profit-ratio-${index}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label className="text-sm">Current Odds</Label>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {opportunity.bookmakers.map((bookmaker, index) => {
+                      const invalid = (oddsInputs[index] ?? "").trim() !== "" && enteredOdds[index] === null;
+                      return (
+                        <div key={index} className="space-y-1">
+                          <Label htmlFor={`leg-odds-${index}`} className="text-xs truncate block">
+                            {bookmaker.name}: {formatOutcomeWithLine(bookmaker.outcome, bookmaker.point)}
+                          </Label>
+                          <Input
+                            id={`leg-odds-${index}`}
+                            value={oddsInputs[index] ?? ""}
+                            onChange={(e) =>
+                              setOddsInputs(prev => prev.map((v, i) => (i === index ? e.target.value : v)))
+                            }
+                            placeholder={formatOdds(bookmaker.odds)}
+                            aria-invalid={invalid}
+                            className={cn(invalid && "border-destructive")}
+                            data-testid={`input-leg-odds-${index}`}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="stake-rounding" className="text-sm">
+                    Round Stakes To
+                  </Label>
+                  <Select value={roundingIncrement} onValueChange={setRoundingIncrement}>
+                    <SelectTrigger id="stake-rounding" className="w-32" data-testid="select-stake-rounding">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Exact</SelectItem>
+                      <SelectItem value="1">$1</SelectItem>
+                      <SelectItem value="5">$5</SelectItem>
+                      <SelectItem value="10">$10</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <p className="text-xs text-muted-foreground">
-                  Adjust the total investment to see how stakes and profit change
+                  Adjust the total investment to see how stakes and profit change. If a price has moved, enter the new odds in any format to recalculate. Rounded stakes look less like automated betting; profit shown is the worst case after rounding.
                 </p>
               </div>
             </CardContent>
@@ -218,8 +436,8 @@ export default function OpportunityDetailsDialog({
                     <Percent className="h-4 w-4" />
                     <span>Profit Margin</span>
                   </div>
-                  <p className={cn("text-4xl font-black tabular-nums", profitTextClass)}>
-                    {opportunity.profit.toFixed(2)}%
+                  <p className={cn("text-4xl font-black tabular-nums", profitTextClass)} data-testid="text-profit-percentage">
+                    {displayProfitPercentage.toFixed(2)}%
                   </p>
                 </div>
 
@@ -228,8 +446,8 @@ export default function OpportunityDetailsDialog({
                     <DollarSign className="h-4 w-4" />
                     <span>Guaranteed Profit</span>
                   </div>
-                  <p className={cn("text-4xl font-black tabular-nums", profitTextClass)}>
-                    ${guaranteedProfit.toFixed(2)}
+                  <p className={cn("text-4xl font-black tabular-nums", profitTextClass)} data-testid="text-guaranteed-profit">
+                    {formatMoney(guaranteedProfit)}
                   </p>
                 </div>
 
@@ -239,11 +457,11 @@ export default function OpportunityDetailsDialog({
                     <span>Total Investment</span>
                   </div>
                   <p className="text-4xl font-black tabular-nums" data-testid="text-total-stake">
-                    ${activeTotalStake.toFixed(2)}
+                    {formatMoney(displayTotalStake)}
                   </p>
                   {useCustomStake && (
                     <p className="text-xs text-muted-foreground">
-                      (Default: ${defaultTotalStake.toFixed(2)})
+                      (Default: {formatMoney(defaultTotalStake)})
                     </p>
                   )}
                 </div>
@@ -268,10 +486,28 @@ export default function OpportunityDetailsDialog({
                             {bookmaker.name}
                           </Badge>
                           <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                          <span className="font-medium">{bookmaker.outcome}</span>
+                          <span className="font-medium">{formatOutcomeWithLine(bookmaker.outcome, bookmaker.point)}</span>
                         </div>
                         <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                          <span>Odds: <span className="font-semibold text-foreground">{bookmaker.odds.toFixed(2)}</span></span>
+                          <span>Odds: <span className="font-semibold text-foreground">{formatOdds(bookmaker.odds)}</span></span>
+                          {bookmaker.point !== undefined && (
+                            <span>Line: <span className="font-semibold text-foreground tabular-nums" data-testid={`text-line-${index}`}>{bookmaker.point}</span></span>
+                          )}
+                          {bookmaker.commission !== undefined && bookmaker.effectiveOdds !== undefined && (
+                            <span data-testid={`text-net-odds-${index}`}>
+                              Net: <span className="font-semibold text-foreground tabular-nums">{formatOdds(bookmaker.effectiveOdds)}</span>
+                              {" "}({bookmaker.commission}% commission)
+                            </span>
+                          )}
+                          {bookmaker.lastUpdate && (
+                            <span
+                              className={cn(bookmaker.stale && "font-semibold text-amber-600 dark:text-amber-400")}
+                              data-testid={`text-quote-age-${index}`}
+                            >
+                              Updated: <span className="tabular-nums">{formatQuoteAge(bookmaker.lastUpdate)} ago</span>
+                              {bookmaker.stale && " (stale)"}
+                            </span>
+                          )}
                         </div>
                       </div>
 
@@ -279,18 +515,25 @@ export default function OpportunityDetailsDialog({
                         <div className="text-right">
                           <p className="text-sm text-muted-foreground">Stake Required</p>
                           <p className="text-2xl font-bold text-primary" data-testid={`text-stake-${index}`}>
-                            ${calculateStake(bookmaker.stake).toFixed(2)}
+                            {formatMoney(displayStake(index))}
                           </p>
-                          {useCustomStake && (
+                          {(useCustomStake || rounded) && (
                             <p className="text-xs text-muted-foreground">
-                              (Default: ${bookmaker.stake.toFixed(2)})
+                              {rounded
+                                ? `(Exact: ${formatMoney(exactStakes[index])})`
+                                : `(Default: ${formatMoney(bookmaker.stake)})`}
+                            </p>
+                          )}
+                          {bookmaker.currency && accountStake(index) !== null && (
+                            <p className="text-sm font-semibold tabular-nums" data-testid={`text-account-stake-${index}`}>
+                              {formatMoney(accountStake(index)!, bookmaker.currency)} in {bookmaker.currency}
                             </p>
                           )}
                         </div>
                         <Button
                           variant="outline"
                           size="icon"
-                          onClick={() => handleCopyStake(calculateStake(bookmaker.stake), index)}
+                          onClick={() => handleCopyStake(accountStake(index) ?? displayStake(index), index)}
                           data-testid={`button-copy-stake-${index}`}
                           className="shrink-0"
                         >
@@ -308,6 +551,46 @@ export default function OpportunityDetailsDialog({
             </div>
           </div>
 
+          {/* Payout by Outcome */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <DollarSign className="h-5 w-5 text-primary" />
+              Payout by Outcome
+            </h3>
+            <Table data-testid="table-payouts">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>If This Wins</TableHead>
+                  <TableHead className="text-right">Stake</TableHead>
+                  <TableHead className="text-right">Payout</TableHead>
+                  <TableHead className="text-right">Profit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {opportunity.bookmakers.map((bookmaker, index) => (
+                  <TableRow key={index} data-testid={`row-payout-${index}`}>
+                    <TableCell className="font-medium">
+                      {formatOutcomeWithLine(bookmaker.outcome, bookmaker.point)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMoney(displayStake(index))}</TableCell>
+                    <TableCell className="text-right tabular-nums" data-testid={`text-payout-${index}`}>
+                      {formatMoney(outcomes.payouts[index])}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right font-semibold tabular-nums",
+                        outcomes.profits[index] >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-destructive"
+                      )}
+                      data-testid={`text-outcome-profit-${index}`}
+                    >
+                      {formatMoney(outcomes.profits[index])}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
           <Separator />
 
           {/* Metadata */}
@@ -318,8 +601,20 @@ export default function OpportunityDetailsDialog({
             </div>
             <div className="flex items-center gap-2 text-muted-foreground">
               <Calendar className="h-4 w-4" />
-              <span>ID: <span className="font-mono text-xs text-foreground">{opportunity.id}</span></span>
+              <span>ID: <span className="font-mono text-xs text-foreground break-all">{opportunity.id}</span></span>
             </div>
+            {opportunity.lifecycle && (
+              <>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Last seen: <span className="font-medium text-foreground" data-testid="text-last-seen">{new Date(opportunity.lifecycle.lastSeen).toLocaleString()}</span></span>
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <TrendingUp className="h-4 w-4" />
+                  <span>Peak: <span className="font-medium text-foreground tabular-nums" data-testid="text-peak-profit">{opportunity.lifecycle.peakProfit.toFixed(2)}%</span></span>
+                </div>
+              </>
+            )}
           </div>
 
           {/* How it Works */}
@@ -327,7 +622,7 @@ export default function OpportunityDetailsDialog({
             <CardContent className="p-4 space-y-2">
               <h4 className="font-semibold text-sm">How This Works</h4>
               <p className="text-sm text-muted-foreground">
-                By placing the stakes shown above on each outcome at their respective bookmakers, you're guaranteed a profit of <span className="font-semibold text-foreground">${guaranteedProfit.toFixed(2)}</span> ({opportunity.profit.toFixed(2)}%) regardless of the match result.
+                By placing the stakes shown above on each outcome at their respective bookmakers, you're guaranteed a profit (after any commission) of at least <span className="font-semibold text-foreground">{formatMoney(guaranteedProfit)}</span> ({displayProfitPercentage.toFixed(2)}%) regardless of the match result.
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle2, RefreshCw, Search, Shield, XCircle } from "lucide-react";
+import type { Promo, RiskFreeConversion } from "@shared/schema";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+import { cn } from "@/lib/utils";
+
+interface RiskFreeResponse {
+  promo: Promo;
+  conversionRate: number;
+  conversions: RiskFreeConversion[];
+  count: number;
+}
+
+interface RiskFreeConversionsProps {
+  promo: Promo;
+}
+
+const MAX_CONVERSIONS = 5;
+const DEFAULT_CONVERSION_RATE = 70;
+
+export function RiskFreeConversions({ promo }: RiskFreeConversionsProps) {
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+  const [rateInput, setRateInput] = useState(DEFAULT_CONVERSION_RATE.toString());
+  const [conversionRate, setConversionRate] = useState(DEFAULT_CONVERSION_RATE);
+
+  const { data, isLoading, isFetching, error } = useQuery<RiskFreeResponse>({
+    queryKey: [`/api/promos/${promo.id}/risk-free?conversionRate=${conversionRate}`],
+    enabled: isOpen,
+  });
+
+  const applyRate = () => {
+    const rate = parseFloat(rateInput);
+    if (rate >= 0 && rate <= 100) setConversionRate(rate);
+  };
+
+  const signed = (amount: number) => `${amount >= 0 ? "+" : ""}${formatMoney(amount)}`;
+
+  if (!isOpen) {
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setIsOpen(true)}
+        data-testid={`button-find-risk-free-${promo.id}`}
+      >
+        <Search className="h-4 w-4 mr-2" />
+        Find Hedges
+      </Button>
+    );
+  }
+
+  const conversions = data?.conversions.slice(0, MAX_CONVERSIONS) ?? [];
+
+  return (
+    <div className="space-y-3" data-testid={`risk-free-${promo.id}`}>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1.5">
+          <Label htmlFor={`conversion-rate-${promo.id}`}>Refund conversion rate (%)</Label>
+          <Input
+            id={`conversion-rate-${promo.id}`}
+            type="number"
+            min={0}
+            max={100}
+            className="w-32"
+            value={rateInput}
+            onChange={(e) => setRateInput(e.target.value)}
+            onBlur={applyRate}
+            onKeyDown={(e) => e.key === "Enter" && applyRate()}
+            data-testid={`input-conversion-rate-${promo.id}`}
+          />
+        </div>
+        <Button size="sm" variant="ghost" onClick={applyRate} disabled={isFetching}>
+          <RefreshCw className={isFetching ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32" />
+      ) : error ? (
+        <p className="text-sm text-destructive">
+          {error instanceof Error ? error.message : "Failed to load hedges"}
+        </p>
+      ) : conversions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No events found where {promo.bookmaker} and another bookmaker cover every outcome
+        </p>
+      ) : (
+        conversions.map((conversion) => {
+          const { qualifyingBet } = conversion;
+          const outcome = formatOutcomeWithLine(qualifyingBet.outcome, qualifyingBet.point);
+
+          return (
+            <div
+              key={conversion.id}
+              className="p-3 rounded-lg border space-y-2"
+              data-testid={`risk-free-conversion-${conversion.id}`}
+            >
+              <div className="flex items-start justify-between gap-2 flex-wrap">
+                <div className="min-w-0">
+                  <div className="font-medium text-sm truncate">{conversion.match}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {conversion.sport} · {conversion.marketType}
+                    {conversion.commenceTime && ` · ${new Date(conversion.commenceTime).toLocaleString()}`}
+                  </div>
+                </div>
+                <Badge
+                  variant="outline"
+                  className={cn(conversion.guaranteedProfit > 0 && "bg-success/10 text-success border-success/20")}
+                >
+                  {signed(conversion.guaranteedProfit)} locked in
+                </Badge>
+              </div>
+
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5 min-w-0 truncate">
+                    <Shield className="h-3.5 w-3.5 text-primary shrink-0" />
+                    {outcome} @ {formatOdds(qualifyingBet.odds)} · {qualifyingBet.name}
+                  </span>
+                  <span className="font-mono shrink-0">
+                    {formatMoney(qualifyingBet.localStake ?? qualifyingBet.stake, qualifyingBet.currency)}
+                  </span>
+                </div>
+                {conversion.hedges.map((hedge, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 text-muted-foreground">
+                    <span className="min-w-0 truncate">
+                      {formatOutcomeWithLine(hedge.outcome, hedge.point)} @ {formatOdds(hedge.odds)} · {hedge.name}
+                    </span>
+                    <span className="font-mono shrink-0">
+                      {formatMoney(hedge.localStake ?? hedge.stake, hedge.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="pl-2 border-l-2 space-y-1.5 text-xs" data-testid={`decision-tree-${conversion.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5">
+                    <CheckCircle2 className="h-3.5 w-3.5 text-success" />
+                    {outcome} wins
+                  </span>
+                  <span className="font-mono">{signed(conversion.winProfit)}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5">
+                    <XCircle className="h-3.5 w-3.5 text-destructive" />
+                    {outcome} loses
+                  </span>
+                  <span className="font-mono">{signed(conversion.loseCash)}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2 pl-5 text-muted-foreground">
+                  <span>
+                    + {formatMoney(conversion.refund)} free bet refund × {conversion.conversionRate}% conversion
+                  </span>
+                  <span className="font-mono">{signed(conversion.refundValue)}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2 pl-5">
+                  <span>Refund branch total</span>
+                  <span className="font-mono">{signed(conversion.loseCash + conversion.refundValue)}</span>
+                </div>
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                Hedge total {formatMoney(conversion.hedgeStake)} · {conversion.retention.toFixed(1)}% of the refund retained
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
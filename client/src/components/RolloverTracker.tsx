@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookmarkPlus } from "lucide-react";
+import type { InsertBet, Promo, RolloverStatus } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+
+interface RolloverTrackerProps {
+  promo: Promo;
+}
+
+export function RolloverTracker({ promo }: RolloverTrackerProps) {
+  const { toast } = useToast();
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
+  const [wager, setWager] = useState("");
+
+  const rolloverKey = [`/api/promos/${promo.id}/rollover`];
+  const { data: status, isLoading, error } = useQuery<RolloverStatus>({
+    queryKey: rolloverKey,
+  });
+
+  const logWagerMutation = useMutation({
+    mutationFn: async (stake: number) => {
+      const market = status!.market!;
+      // Market legs are sized for 100 wagered at the promo bookmaker
+      const scale = stake / market.legs[0].stake;
+      const bet: InsertBet = {
+        eventId: market.eventId,
+        sport: market.sport,
+        match: market.match,
+        bookmakers: market.legs.map(leg => ({
+          name: leg.name,
+          bookmakerKey: leg.bookmakerKey,
+          outcome: leg.outcome,
+          odds: leg.odds,
+          point: leg.point,
+          stake: Math.round(leg.stake * scale * 100) / 100,
+        })),
+        promoId: promo.id,
+        status: "pending",
+        profit: -Math.round(stake * market.costPerUnit * 100) / 100,
+        timestamp: new Date().toISOString(),
+      };
+      return await apiRequest("POST", "/api/bets", bet);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bets"] });
+      queryClient.invalidateQueries({ queryKey: rolloverKey });
+      setWager("");
+      toast({
+        title: "Wager logged",
+        description: "The hedged wager now counts toward the rollover",
+      });
+    },
+    onError: (err) => {
+      toast({
+        title: "Failed to log wager",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24" />;
+  }
+
+  if (error || !status) {
+    return (
+      <p className="text-sm text-destructive">
+        {error instanceof Error ? error.message : "Failed to load rollover"}
+      </p>
+    );
+  }
+
+  const { market } = status;
+  const suggestedWager = Math.min(status.remaining, 100);
+
+  return (
+    <div className="space-y-3" data-testid={`rollover-${promo.id}`}>
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            {formatMoney(status.wagered)} of {formatMoney(status.requirement)} wagered
+          </span>
+          <span className="font-mono">{status.progress.toFixed(0)}%</span>
+        </div>
+        <Progress value={status.progress} data-testid={`progress-rollover-${promo.id}`} />
+        <div className="text-xs text-muted-foreground">
+          {formatMoney(status.bonus)} bonus · {status.qualifyingBets} qualifying bet{status.qualifyingBets === 1 ? "" : "s"}
+          {promo.minOdds !== undefined && ` · min odds ${formatOdds(promo.minOdds)}`}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap text-sm">
+        {status.expired ? (
+          <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">Expired</Badge>
+        ) : status.positiveEV ? (
+          <Badge variant="outline" className="bg-success/10 text-success border-success/20">+EV</Badge>
+        ) : (
+          <Badge variant="outline">{status.expectedValue === null ? "No market found" : "Not +EV"}</Badge>
+        )}
+        {status.expectedCost !== null && status.remaining > 0 && (
+          <span className="text-muted-foreground">
+            Clearing {formatMoney(status.remaining)} costs ~{formatMoney(status.expectedCost)}
+            {status.expectedValue !== null && ` · expected value ${formatMoney(status.expectedValue)}`}
+          </span>
+        )}
+      </div>
+
+      {market && status.remaining > 0 && (
+        <div className="p-3 rounded-lg border space-y-2">
+          <div className="flex items-start justify-between gap-2 flex-wrap">
+            <div className="min-w-0">
+              <div className="font-medium text-sm truncate">{market.match}</div>
+              <div className="text-xs text-muted-foreground">
+                {market.sport} · {market.marketType} · {market.hold.toFixed(2)}% hold
+              </div>
+            </div>
+          </div>
+          <div className="space-y-1 text-sm">
+            {market.legs.map((leg, index) => (
+              <div key={index} className="flex items-center justify-between gap-2 text-muted-foreground">
+                <span className="min-w-0 truncate">
+                  {formatOutcomeWithLine(leg.outcome, leg.point)} @ {formatOdds(leg.odds)} · {leg.name}
+                </span>
+                <span className="font-mono shrink-0">
+                  {formatMoney((leg.stake / market.legs[0].stake) * (parseFloat(wager) || suggestedWager))}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              className="w-32"
+              placeholder={suggestedWager.toFixed(2)}
+              value={wager}
+              onChange={(e) => setWager(e.target.value)}
+              data-testid={`input-rollover-wager-${promo.id}`}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => logWagerMutation.mutate(parseFloat(wager) || suggestedWager)}
+              disabled={logWagerMutation.isPending}
+              data-testid={`button-log-wager-${promo.id}`}
+            >
+              <BookmarkPlus className="h-4 w-4 mr-2" />
+              Log Wager
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,7 +12,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Upload } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
+import { parseFxRates } from "@shared/currency";
+import {
+  defaultBookmakerProfiles,
+  defaultMaxQuoteAge,
+  type BookmakerProfile,
+  type DevigMethod,
+  type MaxQuoteAge,
+  type OddsFormat,
+  type StaleQuoteMode,
+} from "@shared/schema";
 
 interface SettingsDialogProps {
   open: boolean;
@@ -28,6 +40,17 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
   const [notificationProfitThreshold, setNotificationProfitThreshold] = useState(2);
   const [notificationSoundEnabled, setNotificationSoundEnabled] = useState(false);
   const [minEVPercentage, setMinEVPercentage] = useState(2);
+  const [scanSpreads, setScanSpreads] = useState(false);
+  const [scanTotals, setScanTotals] = useState(false);
+  const [maxQuoteAge, setMaxQuoteAge] = useState<MaxQuoteAge>(defaultMaxQuoteAge);
+  const [staleQuoteMode, setStaleQuoteMode] = useState<StaleQuoteMode>("flag");
+  const [oddsFormat, setOddsFormat] = useState<OddsFormat>("decimal");
+  const [baseCurrency, setBaseCurrency] = useState("USD");
+  const [fxRateRows, setFxRateRows] = useState<{ currency: string; rate: number }[]>([]);
+  const [fxImportError, setFxImportError] = useState<string | null>(null);
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>("multiplicative");
+  const [bookmakerProfiles, setBookmakerProfiles] = useState<BookmakerProfile[]>(defaultBookmakerProfiles);
+  const [sharpOnly, setSharpOnly] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [isLoadingSettings, setIsLoadingSettings] = useState(true);
@@ -54,6 +77,17 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
         setNotificationProfitThreshold(settings.notificationProfitThreshold || 2);
         setNotificationSoundEnabled(settings.notificationSoundEnabled || false);
         setMinEVPercentage(settings.minEVPercentage || 2);
+        setScanSpreads(settings.markets?.includes("spreads") ?? false);
+        setScanTotals(settings.markets?.includes("totals") ?? false);
+        setMaxQuoteAge({ ...defaultMaxQuoteAge, ...settings.maxQuoteAge });
+        setStaleQuoteMode(settings.staleQuoteMode || "flag");
+        setOddsFormat(settings.oddsFormat || "decimal");
+        setBaseCurrency(settings.baseCurrency || "USD");
+        setFxRateRows(Object.entries(settings.fxRates || {}).map(([currency, rate]) => ({ currency, rate: rate as number })));
+        setFxImportError(null);
+        setDevigMethod(settings.devigMethod || "multiplicative");
+        setBookmakerProfiles(settings.bookmakerProfiles || defaultBookmakerProfiles);
+        setSharpOnly(settings.sharpOnly ?? false);
       }
     } catch (error) {
       console.error("Failed to load settings:", error);
@@ -79,7 +113,26 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
           notificationsEnabled,
           notificationProfitThreshold,
           notificationSoundEnabled,
-          minEVPercentage
+          minEVPercentage,
+          markets: [
+            "h2h",
+            ...(scanSpreads ? ["spreads"] : []),
+            ...(scanTotals ? ["totals"] : []),
+          ],
+          maxQuoteAge,
+          staleQuoteMode,
+          oddsFormat,
+          baseCurrency,
+          fxRates: Object.fromEntries(
+            fxRateRows
+              .filter(row => /^[A-Z]{3}$/.test(row.currency) && row.rate > 0 && row.currency !== baseCurrency)
+              .map(row => [row.currency, row.rate])
+          ),
+          devigMethod,
+          bookmakerProfiles: bookmakerProfiles
+            .filter(p => p.bookmaker.trim() !== "")
+            .map(p => (p.currency && !/^[A-Z]{3}$/.test(p.currency) ? { ...p, currency: undefined } : p)),
+          sharpOnly,
         }),
       });
       
@@ -90,6 +143,8 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
       localStorage.setItem("mockMode", mockMode.toString());
       localStorage.setItem("oddsApiKey", apiKey);
       
+      await queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+
       // Invalidate all odds queries to force immediate refetch with new settings
       // Use predicate to match any query key that starts with /api/odds
       await queryClient.invalidateQueries({ 
@@ -108,6 +163,30 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
     }
   };
 
+  const parseLimit = (value: string) => {
+    const parsed = parseFloat(value);
+    return value.trim() === "" || isNaN(parsed) ? undefined : Math.max(0, parsed);
+  };
+
+  const handleImportFxRates = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { base, rates } = parseFxRates(await file.text());
+      if (base) setBaseCurrency(base);
+      setFxRateRows(prev => [
+        ...prev.filter(row => !(row.currency in rates)),
+        ...Object.entries(rates).map(([currency, rate]) => ({ currency, rate })),
+      ]);
+      setFxImportError(null);
+    } catch (error) {
+      setFxImportError(error instanceof Error ? error.message : "Could not read the FX rate file");
+    }
+  };
+
+  const updateBookmakerProfile = (index: number, updates: Partial<BookmakerProfile>) => {
+    setBookmakerProfiles(prev => prev.map((p, i) => (i === index ? { ...p, ...updates } : p)));
+  };
+
   const handleCancel = () => {
     setMockMode(localStorage.getItem("mockMode") === "true");
     setSaveError(null);
@@ -193,6 +272,26 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
             </p>
           </div>
 
+          <div className="space-y-3">
+            <Label htmlFor="odds-format">Odds Format</Label>
+            <Select value={oddsFormat} onValueChange={(value) => setOddsFormat(value as OddsFormat)}>
+              <SelectTrigger id="odds-format" data-testid="select-odds-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="decimal">Decimal (2.50)</SelectItem>
+                <SelectItem value="american">American (+150)</SelectItem>
+                <SelectItem value="fractional">Fractional (3/2)</SelectItem>
+                <SelectItem value="hongkong">Hong Kong (1.50)</SelectItem>
+                <SelectItem value="malay">Malay (-0.67)</SelectItem>
+                <SelectItem value="indonesian">Indonesian (1.50)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              How odds are shown and entered across the app
+            </p>
+          </div>
+
           <div className="space-y-4 pt-2 border-t">
             <Label className="text-base">Data Sources</Label>
             
@@ -229,6 +328,85 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
             </div>
           </div>
 
+          <div className="space-y-4 pt-2 border-t">
+            <Label className="text-base">Markets</Label>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5 flex-1">
+                <Label htmlFor="scan-spreads">Scan Spreads</Label>
+                <p className="text-xs text-muted-foreground">
+                  Find arbitrage on point spreads at matching lines
+                </p>
+              </div>
+              <Switch
+                id="scan-spreads"
+                checked={scanSpreads}
+                onCheckedChange={setScanSpreads}
+                data-testid="switch-scan-spreads"
+                aria-label="Toggle spreads market scanning"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5 flex-1">
+                <Label htmlFor="scan-totals">Scan Totals</Label>
+                <p className="text-xs text-muted-foreground">
+                  Find arbitrage on over/under totals at matching lines
+                </p>
+              </div>
+              <Switch
+                id="scan-totals"
+                checked={scanTotals}
+                onCheckedChange={setScanTotals}
+                data-testid="switch-scan-totals"
+                aria-label="Toggle totals market scanning"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4 pt-2 border-t">
+            <div className="space-y-0.5">
+              <Label className="text-base">Quote Freshness</Label>
+              <p className="text-xs text-muted-foreground">
+                Max minutes since a bookmaker updated a price before it counts as stale (0 to disable)
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              {(["h2h", "spreads", "totals"] as const).map((market) => (
+                <div key={market} className="space-y-1.5">
+                  <Label htmlFor={`max-quote-age-${market}`} className="text-xs capitalize">
+                    {market === "h2h" ? "Moneyline" : market}
+                  </Label>
+                  <Input
+                    id={`max-quote-age-${market}`}
+                    type="number"
+                    min={0}
+                    value={maxQuoteAge[market]}
+                    onChange={(e) => setMaxQuoteAge(prev => ({ ...prev, [market]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                    data-testid={`input-max-quote-age-${market}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="stale-quote-mode">Stale Quotes</Label>
+              <Select value={staleQuoteMode} onValueChange={(value) => setStaleQuoteMode(value as StaleQuoteMode)}>
+                <SelectTrigger id="stale-quote-mode" data-testid="select-stale-quote-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flag">Flag on opportunity</SelectItem>
+                  <SelectItem value="drop">Drop from scan</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Dropped quotes are skipped so the best fresh price is used instead
+              </p>
+            </div>
+          </div>
+
           {/* Task 11: Notification Settings */}
           <div className="space-y-4 pt-2 border-t">
             <Label className="text-base">Notifications</Label>
@@ -313,6 +491,246 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
                 Only show +EV bets above this threshold
               </p>
             </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="devig-method">De-vig Method</Label>
+              <Select value={devigMethod} onValueChange={(value) => setDevigMethod(value as DevigMethod)}>
+                <SelectTrigger id="devig-method" data-testid="select-devig-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="multiplicative">Multiplicative</SelectItem>
+                  <SelectItem value="additive">Additive</SelectItem>
+                  <SelectItem value="power">Power</SelectItem>
+                  <SelectItem value="shin">Shin</SelectItem>
+                  <SelectItem value="worst_case">Worst Case</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How bookmaker margin is removed before calculating fair prices
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5 flex-1">
+                <Label htmlFor="sharp-only">Sharp-Only Mode</Label>
+                <p className="text-xs text-muted-foreground">
+                  Only flag bets that beat the de-vigged sharp book price
+                </p>
+              </div>
+              <Switch
+                id="sharp-only"
+                checked={sharpOnly}
+                onCheckedChange={setSharpOnly}
+                data-testid="switch-sharp-only"
+                aria-label="Toggle sharp-only mode"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Bookmaker Settings</Label>
+              <p className="text-xs text-muted-foreground">
+                Consensus weight (unlisted books count as 1), commission % on net winnings, account limits (blank for none) and account currency
+              </p>
+              {bookmakerProfiles.map((profile, index) => (
+                <div key={index} className="space-y-1.5" data-testid={`row-bookmaker-profile-${index}`}>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={profile.bookmaker}
+                      onChange={(e) => updateBookmakerProfile(index, { bookmaker: e.target.value })}
+                      placeholder="Bookmaker key"
+                      className="flex-1"
+                      aria-label="Bookmaker key"
+                      data-testid={`input-profile-bookmaker-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={profile.weight}
+                      onChange={(e) => updateBookmakerProfile(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-16"
+                      aria-label="Consensus weight"
+                      data-testid={`input-profile-weight-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={profile.commission}
+                      onChange={(e) => updateBookmakerProfile(index, { commission: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                      className="w-16"
+                      aria-label="Commission percentage"
+                      data-testid={`input-profile-commission-${index}`}
+                    />
+                    <div className="flex items-center gap-1.5">
+                      <Switch
+                        id={`profile-sharp-${index}`}
+                        checked={profile.sharp}
+                        onCheckedChange={(checked) => updateBookmakerProfile(index, { sharp: checked })}
+                        data-testid={`switch-profile-sharp-${index}`}
+                      />
+                      <Label htmlFor={`profile-sharp-${index}`} className="text-xs">Sharp</Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setBookmakerProfiles(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove bookmaker"
+                      data-testid={`button-remove-profile-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={profile.maxStake ?? ""}
+                      onChange={(e) => updateBookmakerProfile(index, { maxStake: parseLimit(e.target.value) })}
+                      placeholder="Max stake"
+                      className="flex-1"
+                      aria-label="Max stake per bet"
+                      data-testid={`input-profile-max-stake-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={profile.balance ?? ""}
+                      onChange={(e) => updateBookmakerProfile(index, { balance: parseLimit(e.target.value) })}
+                      placeholder="Balance"
+                      className="flex-1"
+                      aria-label="Account balance"
+                      data-testid={`input-profile-balance-${index}`}
+                    />
+                    <Input
+                      value={profile.currency ?? ""}
+                      onChange={(e) => {
+                        const currency = e.target.value.toUpperCase().slice(0, 3);
+                        updateBookmakerProfile(index, { currency: currency === "" ? undefined : currency });
+                      }}
+                      placeholder={baseCurrency}
+                      className="w-20"
+                      aria-label="Account currency"
+                      data-testid={`input-profile-currency-${index}`}
+                    />
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => setBookmakerProfiles(prev => [...prev, { bookmaker: "", weight: 1, sharp: false, commission: 0 }])}
+                data-testid="button-add-profile"
+              >
+                <Plus className="h-4 w-4" />
+                Add Bookmaker
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-4 pt-2 border-t">
+            <div className="space-y-0.5">
+              <Label className="text-base">Currencies</Label>
+              <p className="text-xs text-muted-foreground">
+                Stakes and profit are calculated in the base currency and converted for accounts held in other currencies
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="base-currency">Base Currency</Label>
+              <Input
+                id="base-currency"
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value.toUpperCase().slice(0, 3))}
+                className="w-24"
+                data-testid="input-base-currency"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>FX Rates</Label>
+              <p className="text-xs text-muted-foreground">
+                Units of each currency per 1 {baseCurrency}
+              </p>
+              {fxRateRows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2" data-testid={`row-fx-rate-${index}`}>
+                  <Input
+                    value={row.currency}
+                    onChange={(e) => {
+                      const currency = e.target.value.toUpperCase().slice(0, 3);
+                      setFxRateRows(prev => prev.map((r, i) => (i === index ? { ...r, currency } : r)));
+                    }}
+                    placeholder="GBP"
+                    className="w-24"
+                    aria-label="Currency code"
+                    data-testid={`input-fx-currency-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={row.rate}
+                    onChange={(e) => {
+                      const rate = Math.max(0, parseFloat(e.target.value) || 0);
+                      setFxRateRows(prev => prev.map((r, i) => (i === index ? { ...r, rate } : r)));
+                    }}
+                    className="flex-1"
+                    aria-label="Exchange rate"
+                    data-testid={`input-fx-rate-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFxRateRows(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove rate"
+                    data-testid={`button-remove-fx-rate-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1.5"
+                  onClick={() => setFxRateRows(prev => [...prev, { currency: "", rate: 1 }])}
+                  data-testid="button-add-fx-rate"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Rate
+                </Button>
+                <Button variant="outline" size="sm" className="gap-1.5" asChild>
+                  <label htmlFor="fx-rate-file" className="cursor-pointer" data-testid="button-import-fx-rates">
+                    <Upload className="h-4 w-4" />
+                    Import File
+                  </label>
+                </Button>
+                <input
+                  id="fx-rate-file"
+                  type="file"
+                  accept=".csv,.json,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleImportFxRates(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                CSV lines of "currency,rate", or JSON with a "rates" object
+              </p>
+              {fxImportError && (
+                <p className="text-xs text-destructive" role="alert" data-testid="text-fx-import-error">
+                  {fxImportError}
+                </p>
+              )}
+            </div>
           </div>
 
           {saveError && (
@@ -0,0 +1,30 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatMoney, fromBaseCurrency, type FxTable } from "@shared/currency";
+import type { Settings } from "@shared/schema";
+
+/**
+ * The base currency and FX rates from settings, with money formatters bound to them
+ */
+export function useCurrency() {
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+    staleTime: 60000,
+  });
+  const baseCurrency = settings?.baseCurrency ?? "USD";
+  const fxRates = settings?.fxRates;
+
+  const format = useCallback(
+    (amount: number, currency: string = baseCurrency) => formatMoney(amount, currency),
+    [baseCurrency]
+  );
+  const toAccountCurrency = useCallback(
+    (amount: number, currency?: string) => {
+      const fx: FxTable = { baseCurrency, fxRates: fxRates ?? {} };
+      return fromBaseCurrency(amount, currency, fx);
+    },
+    [baseCurrency, fxRates]
+  );
+
+  return { baseCurrency, formatMoney: format, toAccountCurrency };
+}
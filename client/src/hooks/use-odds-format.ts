@@ -0,0 +1,21 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatOdds, parseOdds } from "@shared/odds-format";
+import type { OddsFormat, Settings } from "@shared/schema";
+
+/**
+ * The user's chosen odds format, with formatters bound to it
+ * Odds stay decimal in data; only display and input go through this hook
+ */
+export function useOddsFormat() {
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+    staleTime: 60000,
+  });
+  const oddsFormat: OddsFormat = settings?.oddsFormat ?? "decimal";
+
+  const format = useCallback((decimal: number) => formatOdds(decimal, oddsFormat), [oddsFormat]);
+  const parse = useCallback((input: string) => parseOdds(input, oddsFormat), [oddsFormat]);
+
+  return { oddsFormat, formatOdds: format, parseOdds: parse };
+}
@@ -0,0 +1,22 @@
+/**
+ * Formats a spread or total line for display
+ * @param outcome - Outcome name (team, "Over" or "Under")
+ * @param point - Line the odds were quoted at, if any
+ * @returns Signed line for spreads ("+3.5", "-3.5"), unsigned for totals ("45.5")
+ */
+export function formatLine(outcome: string, point: number): string {
+  const isTotal = outcome === "Over" || outcome === "Under";
+  if (isTotal || point <= 0) return `${point}`;
+  return `+${point}`;
+}
+
+/**
+ * Formats an outcome together with its line
+ * @param outcome - Outcome name
+ * @param point - Line the odds were quoted at, if any
+ * @returns e.g. "Over 45.5", "Kansas City Chiefs -3.5", or just the outcome for h2h
+ */
+export function formatOutcomeWithLine(outcome: string, point?: number): string {
+  if (point === undefined || point === null) return outcome;
+  return `${outcome} ${formatLine(outcome, point)}`;
+}
@@ -109,6 +109,23 @@ export function getTimeUntilStart(commenceTime?: string): string {
   return `${daysUntilStart} days`;
 }
 
+/**
+ * Gets how long ago a bookmaker last updated a quote
+ * @param lastUpdate - ISO 8601 datetime string
+ * @returns Formatted string like "45s", "12m" or "1h 5m"
+ */
+export function formatQuoteAge(lastUpdate?: string): string {
+  if (!lastUpdate) return "Unknown";
+
+  const seconds = Math.max(0, Math.floor((Date.now() - parseISO(lastUpdate).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 /**
  * Filters opportunities by time range
  * @param opportunities - Array of arbitrage opportunities
@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, Play } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
+import type { BacktestRequest, BacktestResult, BacktestStrategy, DevigMethod } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+
+const STRATEGY_LABELS: Record<BacktestStrategy, string> = {
+  arbitrage: "Arbitrage",
+  middles: "Middles",
+  positive_ev: "+EV",
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+export default function Backtest() {
+  const { toast } = useToast();
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
+  const [formData, setFormData] = useState({
+    from: "",
+    to: "",
+    strategies: ["arbitrage", "middles", "positive_ev"] as BacktestStrategy[],
+    minProfit: "0",
+    minEV: "",
+    devigMethod: "settings" as DevigMethod | "settings",
+    bookmakers: "",
+    stake: "100",
+  });
+
+  const backtestMutation = useMutation({
+    mutationFn: async (data: Partial<BacktestRequest>): Promise<BacktestResult> => {
+      const res = await apiRequest("POST", "/api/backtest", data);
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Backtest failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleStrategy = (strategy: BacktestStrategy, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      strategies: checked
+        ? [...prev.strategies, strategy]
+        : prev.strategies.filter(s => s !== strategy),
+    }));
+  };
+
+  const handleRun = () => {
+    if (formData.strategies.length === 0) {
+      toast({
+        title: "No strategies selected",
+        description: "Pick at least one strategy to replay",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const bookmakers = formData.bookmakers.split(",").map(b => b.trim()).filter(Boolean);
+
+    backtestMutation.mutate({
+      from: formData.from ? new Date(formData.from).toISOString() : undefined,
+      to: formData.to ? new Date(formData.to).toISOString() : undefined,
+      strategies: formData.strategies,
+      minProfit: parseFloat(formData.minProfit) || 0,
+      minEV: formData.minEV !== "" ? parseFloat(formData.minEV) || 0 : undefined,
+      devigMethod: formData.devigMethod === "settings" ? undefined : formData.devigMethod,
+      bookmakers: bookmakers.length > 0 ? bookmakers : undefined,
+      stake: parseFloat(formData.stake) || 100,
+    });
+  };
+
+  const result = backtestMutation.data;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight" data-testid="heading-backtest">
+          Backtest
+        </h1>
+        <p className="text-muted-foreground mt-1">Replay recorded odds to see how each strategy would have performed</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Strategy</CardTitle>
+          <CardDescription>Leave a field blank to use your scanner settings</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-from">From</Label>
+              <Input
+                id="backtest-from"
+                type="datetime-local"
+                value={formData.from}
+                onChange={(e) => setFormData({ ...formData, from: e.target.value })}
+                data-testid="input-backtest-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-to">To</Label>
+              <Input
+                id="backtest-to"
+                type="datetime-local"
+                value={formData.to}
+                onChange={(e) => setFormData({ ...formData, to: e.target.value })}
+                data-testid="input-backtest-to"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Strategies</Label>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(STRATEGY_LABELS) as BacktestStrategy[]).map(strategy => (
+                <div key={strategy} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`strategy-${strategy}`}
+                    checked={formData.strategies.includes(strategy)}
+                    onCheckedChange={(checked) => toggleStrategy(strategy, checked === true)}
+                    data-testid={`checkbox-strategy-${strategy}`}
+                  />
+                  <Label htmlFor={`strategy-${strategy}`} className="font-normal">
+                    {STRATEGY_LABELS[strategy]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-min-profit">Min Profit %</Label>
+              <Input
+                id="backtest-min-profit"
+                type="number"
+                value={formData.minProfit}
+                onChange={(e) => setFormData({ ...formData, minProfit: e.target.value })}
+                data-testid="input-backtest-min-profit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-min-ev">Min EV %</Label>
+              <Input
+                id="backtest-min-ev"
+                type="number"
+                placeholder="Settings"
+                value={formData.minEV}
+                onChange={(e) => setFormData({ ...formData, minEV: e.target.value })}
+                data-testid="input-backtest-min-ev"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-devig-method">De-vig Method</Label>
+              <Select
+                value={formData.devigMethod}
+                onValueChange={(value) => setFormData({ ...formData, devigMethod: value as DevigMethod | "settings" })}
+              >
+                <SelectTrigger id="backtest-devig-method" data-testid="select-backtest-devig-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="settings">Settings</SelectItem>
+                  <SelectItem value="multiplicative">Multiplicative</SelectItem>
+                  <SelectItem value="additive">Additive</SelectItem>
+                  <SelectItem value="power">Power</SelectItem>
+                  <SelectItem value="shin">Shin</SelectItem>
+                  <SelectItem value="worst_case">Worst Case</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-stake">Stake per Bet</Label>
+              <Input
+                id="backtest-stake"
+                type="number"
+                min={0}
+                value={formData.stake}
+                onChange={(e) => setFormData({ ...formData, stake: e.target.value })}
+                data-testid="input-backtest-stake"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="backtest-bookmakers">Bookmakers</Label>
+            <Input
+              id="backtest-bookmakers"
+              placeholder="All (comma separated)"
+              value={formData.bookmakers}
+              onChange={(e) => setFormData({ ...formData, bookmakers: e.target.value })}
+              data-testid="input-backtest-bookmakers"
+            />
+          </div>
+
+          <Button onClick={handleRun} disabled={backtestMutation.isPending} data-testid="button-run-backtest">
+            <Play className="h-4 w-4 mr-2" />
+            {backtestMutation.isPending ? "Running..." : "Run Backtest"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {result && result.scans === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <History className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">No recorded odds in this range</p>
+            <p className="text-sm text-muted-foreground">Odds are recorded every time the scanner fetches them</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && result.scans > 0 && (
+        <>
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="text-xs uppercase">P&L</CardDescription>
+                <CardTitle
+                  className={cn("text-2xl", result.summary.pnl >= 0 ? "text-success" : "text-destructive")}
+                  data-testid="text-backtest-pnl"
+                >
+                  {result.summary.pnl >= 0 ? "+" : "-"}{formatMoney(Math.abs(result.summary.pnl))}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {formatPercent(result.summary.roi)} ROI on {formatMoney(result.summary.totalStaked)}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="text-xs uppercase">Bets</CardDescription>
+                <CardTitle className="text-2xl" data-testid="text-backtest-bets">{result.summary.bets}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {result.summary.settledBets} settled from recorded results
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="text-xs uppercase">Max Drawdown</CardDescription>
+                <CardTitle className="text-2xl" data-testid="text-backtest-drawdown">
+                  {formatMoney(result.summary.maxDrawdown)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                Largest fall from a P&L peak
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="text-xs uppercase">Opportunities / Day</CardDescription>
+                <CardTitle className="text-2xl" data-testid="text-backtest-frequency">
+                  {result.opportunitiesPerDay.toFixed(1)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {result.scansWithOpportunities} of {result.scans} scans · lasted {result.averageLifetimeMinutes.toFixed(1)} min on average
+              </CardContent>
+            </Card>
+          </div>
+
+          {result.equityCurve.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Equity Curve</CardTitle>
+                <CardDescription>
+                  Cumulative P&L from {result.from && format(new Date(result.from), "MMM d, HH:mm")} to{" "}
+                  {result.to && format(new Date(result.to), "MMM d, HH:mm")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={280} data-testid="chart-backtest-equity">
+                  <LineChart data={result.equityCurve} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis
+                      dataKey="timestamp"
+                      tickFormatter={(timestamp: string) => format(new Date(timestamp), "MMM d")}
+                      className="text-xs"
+                      tick={{ fill: "hsl(var(--muted-foreground))" }}
+                    />
+                    <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+                    <Tooltip
+                      labelFormatter={(timestamp: string) => format(new Date(timestamp), "MMM d, HH:mm")}
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "8px",
+                        color: "hsl(var(--foreground))",
+                      }}
+                      formatter={(value: any) => formatMoney(value)}
+                    />
+                    <Line type="stepAfter" dataKey="pnl" name="P&L" stroke="#10b981" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Strategy</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Strategy</TableHead>
+                    <TableHead className="text-right">Bets</TableHead>
+                    <TableHead className="text-right">P&L</TableHead>
+                    <TableHead className="text-right">ROI</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.byStrategy.map(row => (
+                    <TableRow key={row.strategy} data-testid={`row-strategy-${row.strategy}`}>
+                      <TableCell>{STRATEGY_LABELS[row.strategy]}</TableCell>
+                      <TableCell className="text-right">{row.bets}</TableCell>
+                      <TableCell className={cn("text-right", row.pnl >= 0 ? "text-success" : "text-destructive")}>
+                        {formatMoney(row.pnl)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercent(row.roi)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {result.bets.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Simulated Bets</CardTitle>
+                <CardDescription>Placed when each opportunity first appeared</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {[...result.bets].reverse().slice(0, 50).map(bet => (
+                  <div
+                    key={bet.id}
+                    className="flex items-start justify-between gap-4 border-b pb-3 last:border-0 last:pb-0"
+                    data-testid={`backtest-bet-${bet.id}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{bet.match}</span>
+                        <Badge variant="outline">{STRATEGY_LABELS[bet.strategy]}</Badge>
+                        {bet.settled && <Badge variant="secondary">Settled</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(bet.placedAt), "MMM d, HH:mm")} ·{" "}
+                        {bet.legs.map(leg =>
+                          `${leg.name} ${formatOutcomeWithLine(leg.outcome, leg.point)} @ ${formatOdds(leg.odds)}`
+                        ).join(" / ")}
+                      </div>
+                    </div>
+                    <div className={cn("font-mono font-medium shrink-0", bet.profit >= 0 ? "text-success" : "text-destructive")}>
+                      {formatMoney(bet.profit)}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,12 +9,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { TrendingUp, TrendingDown, Clock, CheckCircle2, XCircle, DollarSign, Target } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatOutcomeWithLine } from "@/lib/oddsUtils";
 import type { Bet } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useOddsFormat } from "@/hooks/use-odds-format";
+import { useCurrency } from "@/hooks/use-currency";
+import { ClvTrendChart } from "@/components/ClvTrendChart";
 
 export default function BetTracker() {
   const { toast } = useToast();
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useCurrency();
 
   const { data: bets, isLoading } = useQuery<Bet[]>({
     queryKey: ["/api/bets"],
@@ -126,12 +132,14 @@ export default function BetTracker() {
             </CardDescription>
             <CardTitle className={cn("text-2xl flex items-center gap-2", stats.totalProfit >= 0 ? "text-success" : "text-destructive")}>
               {stats.totalProfit >= 0 ? <TrendingUp className="h-5 w-5" /> : <TrendingDown className="h-5 w-5" />}
-              ${Math.abs(stats.totalProfit).toFixed(2)}
+              {formatMoney(Math.abs(stats.totalProfit))}
             </CardTitle>
           </CardHeader>
         </Card>
       </div>
 
+      <ClvTrendChart bets={filteredBets} />
+
       <div className="flex items-center gap-4">
         <Select value={statusFilter} onValueChange={setStatusFilter}>
           <SelectTrigger className="w-40" data-testid="select-status-filter">
@@ -178,16 +186,39 @@ export default function BetTracker() {
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {bet.bookmakers.map((bm, idx) => (
-                    <div key={idx} className="p-3 rounded-lg bg-muted/50">
-                      <div className="font-medium text-sm">{bm.name}</div>
-                      <div className="text-xs text-muted-foreground mt-1">{bm.outcome}</div>
-                      <div className="flex items-center justify-between mt-2">
-                        <span className="text-xs">Odds: {bm.odds}</span>
-                        <span className="font-mono text-sm font-medium">${bm.stake}</span>
+                  {bet.bookmakers.map((bm, idx) => {
+                    const close = bet.closingOdds?.find(c =>
+                      c.bookmaker === bm.name && c.outcome === bm.outcome && c.point === bm.point
+                    );
+
+                    return (
+                      <div key={idx} className="p-3 rounded-lg bg-muted/50">
+                        <div className="font-medium text-sm">{bm.name}</div>
+                        <div className="text-xs text-muted-foreground mt-1">{formatOutcomeWithLine(bm.outcome, bm.point)}</div>
+                        <div className="flex items-center justify-between mt-2">
+                          <span className="text-xs">Odds: {formatOdds(bm.odds)}</span>
+                          <span className="font-mono text-sm font-medium">
+                            {bm.currency && bm.currency !== bet.currency && bm.localStake !== undefined
+                              ? formatMoney(bm.localStake, bm.currency)
+                              : formatMoney(bm.stake, bet.currency)}
+                          </span>
+                        </div>
+                        {close && (
+                          <div className="flex items-center justify-between mt-1 text-xs text-muted-foreground" data-testid={`closing-odds-${bet.id}-${idx}`}>
+                            <span>
+                              Close: {formatOdds(close.odds)}
+                              {close.consensusOdds !== undefined && ` · consensus ${formatOdds(close.consensusOdds)}`}
+                            </span>
+                            {close.clv !== undefined && (
+                              <span className={cn("font-mono", close.clv >= 0 ? "text-success" : "text-destructive")}>
+                                {close.clv >= 0 ? "+" : ""}{close.clv.toFixed(2)}%
+                              </span>
+                            )}
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
 
                 {bet.clv !== undefined && (
@@ -200,7 +231,7 @@ export default function BetTracker() {
                   <div className="text-sm">
                     <span className="text-muted-foreground">Profit: </span>
                     <span className={cn("font-medium", bet.status === "won" ? "text-success" : bet.status === "lost" ? "text-destructive" : "")}>
-                      ${bet.profit.toFixed(2)}
+                      {formatMoney(bet.profit, bet.currency)}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect, useRef } from "react";
+import { useState, useMemo, useEffect, useRef, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { StatsOverview } from "@/components/StatsOverview";
 import { OpportunitiesTable } from "@/components/OpportunitiesTable";
@@ -19,6 +19,7 @@ import { RefreshCw, LayoutGrid, TableIcon, TrendingUp, Percent, Trophy, Bell } f
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import type { BookmakerWithCount } from "@/components/FilterBar";
+import type { SteamMove } from "@shared/schema";
 
 interface GetOddsResponse {
   opportunities: ArbitrageOpportunity[];
@@ -28,6 +29,38 @@ interface GetOddsResponse {
   cacheAge?: number;
 }
 
+interface GetSteamResponse {
+  moves: SteamMove[];
+  count: number;
+}
+
+const NOTIFICATION_SOUND = "data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBSuBzvLZiTYIGWm98OScTgwOUKzn77RgGwU7k9n0ynosBSF0yPLaizsKEmS76+yjUhQJOpnd9MR0KwUuhM/z2Ik3CBhqvvLlm04LDU6r5O+yYBoEOpXa9Ml6LgUefMny3Io3CBZpu/Domk8NDUyo4u6wXxsEOpXb9cp6LgUffcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoE";
+
+/**
+ * Fetches a scan endpoint, sending the user's Odds API key when one is saved
+ */
+async function fetchWithApiKey<T>(url: string): Promise<T> {
+  const apiKey = localStorage.getItem("oddsApiKey");
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+  };
+
+  if (apiKey) {
+    headers["x-api-key"] = apiKey;
+  }
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    try {
+      const errorData = await response.json();
+      throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+    } catch {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+  return response.json();
+}
+
 interface DashboardProps {
   selectedSport: string;
   selectedBookmakers: string[];
@@ -63,6 +96,7 @@ export default function Dashboard({
   const [showLowHoldOnly, setShowLowHoldOnly] = useState(false);
   const [notificationCount, setNotificationCount] = useState(0);
   const previousOpportunitiesRef = useRef<ArbitrageOpportunity[]>([]);
+  const seenSteamRef = useRef<Set<string>>(new Set());
   const { toast } = useToast();
 
   const { data: settings } = useQuery({
@@ -111,36 +145,28 @@ export default function Dashboard({
     isFetching 
   } = useQuery<GetOddsResponse>({
     queryKey: [buildQueryUrl()],
-    queryFn: async () => {
-      const apiKey = localStorage.getItem("oddsApiKey");
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-      if (apiKey) {
-        headers["x-api-key"] = apiKey;
-      }
-      
-      const response = await fetch(buildQueryUrl(), { headers });
-      if (!response.ok) {
-        try {
-          const errorData = await response.json();
-          throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-        } catch {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-      return response.json();
-    },
+    queryFn: () => fetchWithApiKey<GetOddsResponse>(buildQueryUrl()),
+    refetchInterval: (settings?.autoRefreshInterval || 30) * 1000,
+    staleTime: (settings?.autoRefreshInterval || 30) * 1000,
+  });
+
+  // Steam moves are only polled when they can raise notifications
+  const steamUrl = `/api/steam?sports=${encodeURIComponent(selectedSport)}`;
+  const { data: steamData } = useQuery<GetSteamResponse>({
+    queryKey: [steamUrl],
+    queryFn: () => fetchWithApiKey<GetSteamResponse>(steamUrl),
+    enabled: !!settings?.notificationsEnabled,
     refetchInterval: (settings?.autoRefreshInterval || 30) * 1000,
     staleTime: (settings?.autoRefreshInterval || 30) * 1000,
   });
 
   const opportunities = data?.opportunities || [];
 
-  // Task 6: Calculate hold % for each opportunity
+  // Task 6: Hold % for each opportunity (the server's, net of commission, when it sends one)
   const opportunitiesWithHold = useMemo(() => {
     return opportunities.map(opp => {
+      if (opp.hold !== undefined) return opp;
+
       // Calculate market hold as sum of implied probabilities - 100
       const impliedProbs = opp.bookmakers.map(b => (1 / b.odds) * 100);
       const totalImplied = impliedProbs.reduce((sum, p) => sum + p, 0);
@@ -155,6 +181,36 @@ export default function Dashboard({
     return opportunitiesWithHold.filter(opp => (opp.hold || 0) < 2);
   }, [opportunitiesWithHold, showLowHoldOnly]);
 
+  // Task 11: Badge count, browser notification, sound and toast for new finds
+  const notify = useCallback((alert: {
+    count: number;
+    title: string;
+    body: string;
+    toastTitle: string;
+    description: string;
+  }) => {
+    setNotificationCount(prev => prev + alert.count);
+
+    // Show browser notification
+    if (Notification.permission === "granted") {
+      new Notification(alert.title, {
+        body: alert.body,
+        icon: "/favicon.ico",
+      });
+    }
+
+    // Play notification sound if enabled
+    if (settings?.notificationSoundEnabled) {
+      const audio = new Audio(NOTIFICATION_SOUND);
+    }
+
+    // Show toast notification
+    toast({
+      title: alert.toastTitle,
+      description: alert.description,
+    });
+  }, [settings, toast]);
+
   // Task 11: Check for new opportunities and trigger notifications
   useEffect(() => {
     if (!settings?.notificationsEnabled || !data?.opportunities) return;
@@ -172,30 +228,40 @@ export default function Dashboard({
     const notifiableOpps = newOpps.filter(opp => opp.profit >= minProfitThreshold);
 
     if (notifiableOpps.length > 0) {
-      setNotificationCount(prev => prev + notifiableOpps.length);
-
-      // Show browser notification
-      if (Notification.permission === "granted") {
-        new Notification("New Arbitrage Opportunities!", {
-          body: `${notifiableOpps.length} new opportunities with ${notifiableOpps[0].profit.toFixed(2)}% profit`,
-          icon: "/favicon.ico",
-        });
-      }
-
-      // Play notification sound if enabled
-      if (settings.notificationSoundEnabled) {
-        const audio = new Audio("data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBSuBzvLZiTYIGWm98OScTgwOUKzn77RgGwU7k9n0ynosBSF0yPLaizsKEmS76+yjUhQJOpnd9MR0KwUuhM/z2Ik3CBhqvvLlm04LDU6r5O+yYBoEOpXa9Ml6LgUefMny3Io3CBZpu/Domk8NDUyo4u6wXxsEOpXb9cp6LgUffcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoEOpXb9cp6LgUefcv03Is4CBZpuvDnmk4MDEyn4u6vXhoE");
-      }
-
-      // Show toast notification
-      toast({
-        title: "New Opportunities!",
+      notify({
+        count: notifiableOpps.length,
+        title: "New Arbitrage Opportunities!",
+        body: `${notifiableOpps.length} new opportunities with ${notifiableOpps[0].profit.toFixed(2)}% profit`,
+        toastTitle: "New Opportunities!",
         description: `${notifiableOpps.length} new arbitrage opportunities found`,
       });
     }
 
     previousOpportunitiesRef.current = currentOpps;
-  }, [data?.opportunities, settings, toast]);
+  }, [data?.opportunities, settings, notify]);
+
+  // Notify on steam moves not seen before, leading with any stale +EV book
+  useEffect(() => {
+    if (!settings?.notificationsEnabled || !steamData?.moves) return;
+
+    const newMoves = steamData.moves.filter(move => !seenSteamRef.current.has(move.id));
+    newMoves.forEach(move => seenSteamRef.current.add(move.id));
+    if (newMoves.length === 0) return;
+
+    const [latest] = newMoves;
+    const stale = newMoves.flatMap(move => move.staleBooks.map(book => ({ move, book })))
+      .sort((a, b) => b.book.ev - a.book.ev)[0];
+
+    notify({
+      count: newMoves.length,
+      title: "Steam Move!",
+      body: stale
+        ? `${stale.move.outcome} moved at ${stale.move.moves.length} books - ${stale.book.bookmaker} is +${stale.book.ev.toFixed(2)}% EV`
+        : `${latest.outcome} ${latest.direction} at ${latest.moves.length} books`,
+      toastTitle: "Steam Move!",
+      description: `${newMoves.length} new steam move${newMoves.length === 1 ? "" : "s"}${stale ? `, ${stale.book.bookmaker} still on ${stale.move.outcome}` : ""}`,
+    });
+  }, [steamData?.moves, settings, notify]);
 
   const handleRefresh = () => {
     refetch();
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowRight, Check, Link2, Plus, Trash2, X } from "lucide-react";
+import type { InsertNameAlias, NameAlias, NameAliasSuggestion } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export default function NameAliases() {
+  const { toast } = useToast();
+  const [alias, setAlias] = useState("");
+  const [canonical, setCanonical] = useState("");
+
+  const { data: aliases, isLoading } = useQuery<NameAlias[]>({
+    queryKey: ["/api/aliases"],
+  });
+
+  const { data: suggestions } = useQuery<NameAliasSuggestion[]>({
+    queryKey: ["/api/aliases/suggestions"],
+    refetchInterval: 30000,
+  });
+
+  const invalidateAliases = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/aliases"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/aliases/suggestions"] });
+  };
+
+  const saveAliasMutation = useMutation({
+    mutationFn: async (data: InsertNameAlias) => {
+      return await apiRequest("POST", "/api/aliases", data);
+    },
+    onSuccess: (_, data) => {
+      invalidateAliases();
+      toast({
+        title: "Alias saved",
+        description: `"${data.alias}" now matches ${data.canonical}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save alias", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteAliasMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/aliases/${id}`);
+    },
+    onSuccess: invalidateAliases,
+  });
+
+  const dismissSuggestionMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await apiRequest("DELETE", `/api/aliases/suggestions?alias=${encodeURIComponent(name)}`);
+    },
+    onSuccess: invalidateAliases,
+  });
+
+  const handleAddAlias = () => {
+    if (!alias.trim() || !canonical.trim()) return;
+    saveAliasMutation.mutate(
+      { alias: alias.trim(), canonical: canonical.trim() },
+      {
+        onSuccess: () => {
+          setAlias("");
+          setCanonical("");
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-48" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight" data-testid="heading-name-aliases">
+          Name Aliases
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Merge bookmaker spellings of the same team so their odds are compared against each other
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Suggested Merges</CardTitle>
+          <CardDescription>Names from recent scans that look like one of the event's teams</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {!suggestions || suggestions.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-suggestions">
+              No unmatched names found in recent scans
+            </p>
+          ) : (
+            suggestions.map((suggestion) => (
+              <div
+                key={suggestion.alias}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50 flex-wrap"
+                data-testid={`row-suggestion-${suggestion.alias}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 font-medium text-sm">
+                    <span>{suggestion.alias}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <span>{suggestion.canonical}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {Math.round(suggestion.score * 100)}% match
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {suggestion.bookmaker} • {suggestion.match}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={() => saveAliasMutation.mutate({ alias: suggestion.alias, canonical: suggestion.canonical })}
+                    data-testid={`button-confirm-${suggestion.alias}`}
+                  >
+                    <Check className="h-4 w-4" />
+                    Merge
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1.5"
+                    onClick={() => dismissSuggestionMutation.mutate(suggestion.alias)}
+                    data-testid={`button-dismiss-${suggestion.alias}`}
+                  >
+                    <X className="h-4 w-4" />
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Confirmed Aliases</CardTitle>
+          <CardDescription>Applied to every provider's events before scanning</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Input
+              value={alias}
+              onChange={(e) => setAlias(e.target.value)}
+              placeholder="Bookmaker spelling (e.g. Man City)"
+              className="flex-1 min-w-[12rem]"
+              data-testid="input-alias"
+            />
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <Input
+              value={canonical}
+              onChange={(e) => setCanonical(e.target.value)}
+              placeholder="Canonical name (e.g. Manchester City)"
+              className="flex-1 min-w-[12rem]"
+              data-testid="input-canonical"
+            />
+            <Button
+              onClick={handleAddAlias}
+              disabled={!alias.trim() || !canonical.trim() || saveAliasMutation.isPending}
+              className="gap-1.5"
+              data-testid="button-add-alias"
+            >
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+
+          {!aliases || aliases.length === 0 ? (
+            <div className="p-8 text-center">
+              <Link2 className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">No aliases yet</p>
+            </div>
+          ) : (
+            aliases.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50"
+                data-testid={`row-alias-${entry.id}`}
+              >
+                <div className="flex items-center gap-2 text-sm font-medium min-w-0">
+                  <span className="truncate">{entry.alias}</span>
+                  <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{entry.canonical}</span>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteAliasMutation.mutate(entry.id)}
+                  aria-label="Delete alias"
+                  data-testid={`button-delete-alias-${entry.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
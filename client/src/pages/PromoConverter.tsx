@@ -13,9 +13,15 @@ import { Gift, Plus, Trash2, DollarSign, Percent, Calendar } from "lucide-react"
 import { cn } from "@/lib/utils";
 import type { Promo, PromoType } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { FreeBetConversions } from "@/components/FreeBetConversions";
+import { BoostEvaluator } from "@/components/BoostEvaluator";
+import { RiskFreeConversions } from "@/components/RiskFreeConversions";
+import { RolloverTracker } from "@/components/RolloverTracker";
+import { useOddsFormat } from "@/hooks/use-odds-format";
 
 export default function PromoConverter() {
   const { toast } = useToast();
+  const { formatOdds, parseOdds } = useOddsFormat();
   const [isAdding, setIsAdding] = useState(false);
   const [formData, setFormData] = useState({
     bookmaker: "",
@@ -23,6 +29,9 @@ export default function PromoConverter() {
     value: "",
     expiryDate: "",
     notes: "",
+    depositAmount: "",
+    rolloverMultiplier: "",
+    minOdds: "",
   });
 
   const { data: promos, isLoading } = useQuery<Promo[]>({
@@ -45,6 +54,9 @@ export default function PromoConverter() {
         value: "",
         expiryDate: "",
         notes: "",
+        depositAmount: "",
+        rolloverMultiplier: "",
+        minOdds: "",
       });
       toast({
         title: "Promo added",
@@ -94,6 +106,9 @@ export default function PromoConverter() {
     return labels[type];
   };
 
+  const isExpired = (promo: Promo): boolean =>
+    !!promo.expiryDate && new Date(promo.expiryDate).getTime() < Date.now();
+
   const handleSubmit = () => {
     if (!formData.bookmaker || !formData.value) {
       toast({
@@ -104,9 +119,21 @@ export default function PromoConverter() {
       return;
     }
 
+    const isDepositBonus = formData.type === "deposit_bonus";
+    // Blank fields are unset; 0 is a real value (e.g. no wagering required)
+    const parseAmount = (value: string) => {
+      const parsed = parseFloat(value);
+      return value.trim() === "" || isNaN(parsed) ? undefined : parsed;
+    };
     addPromoMutation.mutate({
-      ...formData,
+      bookmaker: formData.bookmaker,
+      type: formData.type,
       value: parseFloat(formData.value),
+      expiryDate: formData.expiryDate || undefined,
+      notes: formData.notes || undefined,
+      depositAmount: isDepositBonus ? parseAmount(formData.depositAmount) : undefined,
+      rolloverMultiplier: isDepositBonus ? parseAmount(formData.rolloverMultiplier) : undefined,
+      minOdds: isDepositBonus ? parseOdds(formData.minOdds) ?? undefined : undefined,
     });
   };
 
@@ -198,6 +225,43 @@ export default function PromoConverter() {
               </div>
             </div>
 
+            {formData.type === "deposit_bonus" && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="deposit">Deposit Amount</Label>
+                  <Input
+                    id="deposit"
+                    type="number"
+                    placeholder="200"
+                    value={formData.depositAmount}
+                    onChange={(e) => setFormData({ ...formData, depositAmount: e.target.value })}
+                    data-testid="input-deposit-amount"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rollover">Rollover (x Bonus)</Label>
+                  <Input
+                    id="rollover"
+                    type="number"
+                    placeholder="10"
+                    value={formData.rolloverMultiplier}
+                    onChange={(e) => setFormData({ ...formData, rolloverMultiplier: e.target.value })}
+                    data-testid="input-rollover-multiplier"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="min-odds">Minimum Odds (Optional)</Label>
+                  <Input
+                    id="min-odds"
+                    placeholder={formatOdds(1.8)}
+                    value={formData.minOdds}
+                    onChange={(e) => setFormData({ ...formData, minOdds: e.target.value })}
+                    data-testid="input-min-odds"
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="notes">Notes (Optional)</Label>
               <Textarea
@@ -270,6 +334,22 @@ export default function PromoConverter() {
                   </div>
                 )}
 
+                {promo.type === "deposit_bonus" && promo.depositAmount !== undefined && (
+                  <RolloverTracker promo={promo} />
+                )}
+
+                {promo.type === "free_bet" && !isExpired(promo) && (
+                  <FreeBetConversions promo={promo} />
+                )}
+
+                {promo.type === "odds_boost" && !isExpired(promo) && (
+                  <BoostEvaluator promo={promo} />
+                )}
+
+                {promo.type === "risk_free" && !isExpired(promo) && (
+                  <RiskFreeConversions promo={promo} />
+                )}
+
                 <div className="flex items-center justify-between pt-2 border-t">
                   <div className="text-xs text-muted-foreground">
                     Added {new Date(promo.timestamp).toLocaleDateString()}
@@ -9,8 +9,24 @@ import {
   findAllArbitrageOpportunities,
   findPositiveEVOpportunities,
   validateArbitrage,
+  getMarketLines,
+  findMiddles,
+  devigProbabilities,
+  calculateDevigFairPrices,
+  calculateEffectiveOdds,
+  calculateRoundedArbitrage,
+  roundStakes,
+  solveConstrainedStakes,
+  getStakeLimits,
+  isStaleQuote,
+  localizeStakes,
+  getMarketShape,
+  buildOpportunityId,
+  calculateLayStake,
+  findBackLayOpportunities,
+  findLowHoldMarkets,
 } from './arbitrage-engine';
-import type { OddsApiEvent } from '@shared/schema';
+import type { ArbitrageOpportunity, OddsApiEvent } from '@shared/schema';
 
 // ============================================================================
 // ARBITRAGE ENGINE TESTS
@@ -937,4 +953,1098 @@ describe('Arbitrage Engine', () => {
       expect(fanDuelTeamABet!.ev).toBeCloseTo(7.74, 0);
     });
   });
+
+  describe('spreads and totals arbitrage', () => {
+    const lineEvent: OddsApiEvent = {
+      id: 'line_event_1',
+      sport_key: 'americanfootball_nfl',
+      sport_title: 'Football - NFL',
+      commence_time: new Date().toISOString(),
+      home_team: 'Chiefs',
+      away_team: 'Bills',
+      bookmakers: [
+        {
+          key: 'bet365',
+          title: 'Bet365',
+          last_update: new Date().toISOString(),
+          markets: [
+            {
+              key: 'totals',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Over', price: 2.10, point: 45.5 },
+                { name: 'Under', price: 1.80, point: 45.5 },
+              ]
+            },
+            {
+              key: 'spreads',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Chiefs', price: 2.08, point: -3.5 },
+                { name: 'Bills', price: 1.80, point: 3.5 },
+              ]
+            },
+          ]
+        },
+        {
+          key: 'draftkings',
+          title: 'DraftKings',
+          last_update: new Date().toISOString(),
+          markets: [
+            {
+              key: 'totals',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Over', price: 1.80, point: 45.5 },
+                { name: 'Under', price: 2.05, point: 45.5 },
+                // Under on a different line must never pair with Over 45.5
+                { name: 'Under', price: 3.00, point: 41.5 },
+              ]
+            },
+            {
+              key: 'spreads',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Chiefs', price: 1.80, point: -3.5 },
+                { name: 'Bills', price: 2.06, point: 3.5 },
+              ]
+            },
+          ]
+        },
+      ]
+    };
+
+    it('should list distinct lines, with spreads from the home team perspective', () => {
+      expect(getMarketLines(lineEvent, 'totals')).toEqual([41.5, 45.5]);
+      expect(getMarketLines(lineEvent, 'spreads')).toEqual([-3.5]);
+    });
+
+    it('should only pair totals outcomes sharing the same point', () => {
+      const opportunity = findBestArbitrage(lineEvent, 'totals', 45.5);
+
+      expect(opportunity).not.toBeNull();
+      expect(opportunity!.marketType).toBe('totals');
+      expect(opportunity!.bookmakers.map(b => b.outcome)).toEqual(['Over', 'Under']);
+      expect(opportunity!.bookmakers.map(b => b.point)).toEqual([45.5, 45.5]);
+      expect(opportunity!.bookmakers.map(b => b.odds)).toEqual([2.10, 2.05]);
+    });
+
+    it('should pair opposite spread points as one line', () => {
+      const opportunity = findBestArbitrage(lineEvent, 'spreads', -3.5);
+
+      expect(opportunity).not.toBeNull();
+      expect(opportunity!.marketType).toBe('spreads');
+      expect(opportunity!.bookmakers.map(b => b.outcome)).toEqual(['Chiefs', 'Bills']);
+      expect(opportunity!.bookmakers.map(b => b.point)).toEqual([-3.5, 3.5]);
+    });
+
+    it('should scan only the requested markets and tag every opportunity', () => {
+      const h2hOnly = findAllArbitrageOpportunities([lineEvent], 0);
+      const allMarkets = findAllArbitrageOpportunities([lineEvent], 0, ['h2h', 'spreads', 'totals']);
+
+      expect(h2hOnly).toHaveLength(0);
+      expect(allMarkets).toHaveLength(2);
+      expect(allMarkets.map(o => o.marketType).sort()).toEqual(['spreads', 'totals']);
+      allMarkets.forEach(opp => expect(opp.profit).toBeGreaterThan(0));
+    });
+  });
+
+  describe('findMiddles', () => {
+    it('should read typed points and carry the line on each leg', () => {
+      const events: OddsApiEvent[] = [
+        {
+          id: 'middle_event_1',
+          sport_key: 'americanfootball_nfl',
+          sport_title: 'Football - NFL',
+          commence_time: new Date().toISOString(),
+          home_team: 'Chiefs',
+          away_team: 'Bills',
+          bookmakers: [
+            {
+              key: 'bet365',
+              title: 'Bet365',
+              last_update: new Date().toISOString(),
+              markets: [{
+                key: 'totals',
+                last_update: new Date().toISOString(),
+                outcomes: [
+                  { name: 'Over', price: 1.95, point: 44.5 },
+                  { name: 'Under', price: 1.85, point: 44.5 },
+                ]
+              }]
+            },
+            {
+              key: 'fanduel',
+              title: 'FanDuel',
+              last_update: new Date().toISOString(),
+              markets: [{
+                key: 'totals',
+                last_update: new Date().toISOString(),
+                outcomes: [
+                  { name: 'Over', price: 1.85, point: 47.5 },
+                  { name: 'Under', price: 1.95, point: 47.5 },
+                ]
+              }]
+            },
+          ]
+        },
+      ];
+
+      const middles = findMiddles(events);
+
+      expect(middles).toHaveLength(1);
+      expect(middles[0].bookmakers.map(b => [b.outcome, b.point])).toEqual([['Over', 44.5], ['Under', 47.5]]);
+      expect(middles[0].middleInfo?.winScenarios).toEqual(['Win both if total is: 45, 46, 47']);
+    });
+  });
+
+  describe('devigProbabilities', () => {
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    it('should remove the margin proportionally with the multiplicative method', () => {
+      const fair = devigProbabilities([1.90, 1.90], 'multiplicative');
+
+      expect(fair[0]).toBeCloseTo(50, 6);
+      expect(sum(fair)).toBeCloseTo(100, 6);
+    });
+
+    it('should produce fair probabilities summing to 100% for each exact method', () => {
+      const odds = [1.40, 3.10, 9.00];
+
+      (['multiplicative', 'additive', 'power', 'shin'] as const).forEach(method => {
+        expect(sum(devigProbabilities(odds, method))).toBeCloseTo(100, 4);
+      });
+    });
+
+    it('should take more margin from longshots with power and shin than multiplicative', () => {
+      const odds = [1.40, 3.10, 9.00];
+      const multiplicative = devigProbabilities(odds, 'multiplicative');
+
+      expect(devigProbabilities(odds, 'power')[2]).toBeLessThan(multiplicative[2]);
+      expect(devigProbabilities(odds, 'shin')[2]).toBeLessThan(multiplicative[2]);
+    });
+
+    it('should return the most conservative probability per outcome for worst case', () => {
+      const odds = [1.40, 3.10, 9.00];
+      const worst = devigProbabilities(odds, 'worst_case');
+
+      (['multiplicative', 'additive', 'power', 'shin'] as const).forEach(method => {
+        devigProbabilities(odds, method).forEach((p, i) => {
+          expect(worst[i]).toBeLessThanOrEqual(p + 1e-9);
+        });
+      });
+    });
+  });
+
+  describe('calculateDevigFairPrices', () => {
+    const event: OddsApiEvent = {
+      id: 'devig_event_1',
+      sport_key: 'basketball_nba',
+      sport_title: 'Basketball - NBA',
+      commence_time: new Date().toISOString(),
+      home_team: 'Lakers',
+      away_team: 'Warriors',
+      bookmakers: [
+        {
+          key: 'bet365',
+          title: 'Bet365',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Lakers', price: 1.90 },
+              { name: 'Warriors', price: 1.90 },
+            ]
+          }]
+        },
+        {
+          key: 'draftkings',
+          title: 'DraftKings',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Lakers', price: 1.85 },
+              { name: 'Warriors', price: 1.95 },
+            ]
+          }]
+        },
+        {
+          key: 'fanduel',
+          title: 'FanDuel',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Lakers', price: 1.95 },
+              { name: 'Warriors', price: 1.85 },
+            ]
+          }]
+        },
+      ]
+    };
+
+    it('should de-vig each bookmaker before averaging', () => {
+      const fair = calculateDevigFairPrices(event, 'h2h', ['Lakers', 'Warriors']);
+
+      expect(fair[0]).toBeCloseTo(50, 1);
+      expect(fair[1]).toBeCloseTo(50, 1);
+    });
+
+    it('should return null prices when too few bookmakers quote the full market', () => {
+      const fair = calculateDevigFairPrices(event, 'h2h', ['Lakers', 'Warriors'], { minBookmakers: 4 });
+
+      expect(fair).toEqual([null, null]);
+    });
+
+    it('should report the de-vig method alongside each EV figure', () => {
+      const opportunities = findPositiveEVOpportunities([event], -100, { devigMethod: 'shin' });
+
+      expect(opportunities).toHaveLength(1);
+      opportunities[0].bookmakers.forEach(bm => {
+        expect(bm.devigMethod).toBe('shin');
+      });
+    });
+  });
+
+  describe('sharp-weighted consensus', () => {
+    const event: OddsApiEvent = {
+      id: 'sharp_event_1',
+      sport_key: 'soccer_epl',
+      sport_title: 'Soccer - EPL',
+      commence_time: new Date().toISOString(),
+      home_team: 'Arsenal',
+      away_team: 'Chelsea',
+      bookmakers: [
+        {
+          key: 'pinnacle',
+          title: 'Pinnacle',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Arsenal', price: 1.80 },
+              { name: 'Chelsea', price: 2.10 },
+            ]
+          }]
+        },
+        {
+          key: 'bet365',
+          title: 'Bet365',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Arsenal', price: 2.10 },
+              { name: 'Chelsea', price: 1.75 },
+            ]
+          }]
+        },
+        {
+          key: 'draftkings',
+          title: 'DraftKings',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Arsenal', price: 2.05 },
+              { name: 'Chelsea', price: 1.78 },
+            ]
+          }]
+        },
+      ]
+    };
+    const profiles = [{ bookmaker: 'pinnacle', weight: 10, sharp: true, commission: 0 }];
+
+    it('should pull the consensus toward heavily weighted sharp books', () => {
+      const equal = calculateDevigFairPrices(event, 'h2h', ['Arsenal', 'Chelsea']);
+      const weighted = calculateDevigFairPrices(event, 'h2h', ['Arsenal', 'Chelsea'], { bookmakerProfiles: profiles });
+      const sharp = calculateDevigFairPrices(event, 'h2h', ['Arsenal', 'Chelsea'], { bookmakerProfiles: profiles, sharpOnly: true });
+
+      expect(Math.abs(weighted[0]! - sharp[0]!)).toBeLessThan(Math.abs(equal[0]! - sharp[0]!));
+    });
+
+    it('should price sharp-only mode from the sharp book alone', () => {
+      const fair = calculateDevigFairPrices(event, 'h2h', ['Arsenal', 'Chelsea'], { bookmakerProfiles: profiles, sharpOnly: true });
+      const pinnacle = devigProbabilities([1.80, 2.10]);
+
+      expect(fair[0]).toBeCloseTo(pinnacle[0], 1);
+    });
+
+    it('should return no fair price in sharp-only mode without a sharp book', () => {
+      const fair = calculateDevigFairPrices(event, 'h2h', ['Arsenal', 'Chelsea'], { sharpOnly: true });
+
+      expect(fair).toEqual([null, null]);
+    });
+
+    it('should only mark bets +EV when they beat the sharp price', () => {
+      const opportunities = findPositiveEVOpportunities([event], 0, { bookmakerProfiles: profiles, sharpOnly: true });
+
+      expect(opportunities).toHaveLength(1);
+      const flagged = opportunities[0].bookmakers.map(bm => `${bm.name}:${bm.outcome}`);
+      expect(flagged).toEqual(expect.arrayContaining(['Bet365:Arsenal', 'DraftKings:Arsenal']));
+      expect(flagged).not.toContain('Pinnacle:Arsenal');
+      expect(flagged.some(f => f.endsWith('Chelsea'))).toBe(false);
+    });
+  });
+
+  describe('commission', () => {
+    it('should apply commission to net winnings only', () => {
+      expect(calculateEffectiveOdds(2.0, 0)).toBe(2.0);
+      expect(calculateEffectiveOdds(2.0, 5)).toBeCloseTo(1.95, 10);
+      expect(calculateEffectiveOdds(3.0, 2)).toBeCloseTo(2.96, 10);
+    });
+
+    it('should balance stakes on net-of-commission payouts', () => {
+      const bets = [
+        { bookmaker: 'Betfair', outcome: 'Team A', odds: 2.10, commission: 5 },
+        { bookmaker: 'DraftKings', outcome: 'Team B', odds: 2.05 },
+      ];
+
+      const result = calculateArbitrage(bets, 1000);
+      const payouts = result.stakes.map((stake, i) => stake * result.effectiveOdds[i]);
+
+      expect(result.effectiveOdds[0]).toBeCloseTo(2.045, 4);
+      expect(payouts[0]).toBeCloseTo(payouts[1], 0);
+    });
+
+    it('should drop arbitrage that is not profitable after fees', () => {
+      const event: OddsApiEvent = {
+        id: 'commission_event_1',
+        sport_key: 'tennis_atp',
+        sport_title: 'Tennis - ATP',
+        commence_time: new Date().toISOString(),
+        home_team: 'Player A',
+        away_team: 'Player B',
+        bookmakers: [
+          {
+            key: 'betfair_ex_eu',
+            title: 'Betfair',
+            last_update: new Date().toISOString(),
+            markets: [{
+              key: 'h2h',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Player A', price: 2.04 },
+                { name: 'Player B', price: 1.80 },
+              ]
+            }]
+          },
+          {
+            key: 'bet365',
+            title: 'Bet365',
+            last_update: new Date().toISOString(),
+            markets: [{
+              key: 'h2h',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Player A', price: 1.80 },
+                { name: 'Player B', price: 2.00 },
+              ]
+            }]
+          },
+        ]
+      };
+
+      const gross = findBestArbitrage(event, 'h2h');
+      const net = findBestArbitrage(event, 'h2h', undefined, {
+        bookmakerProfiles: [{ bookmaker: 'betfair_ex_eu', weight: 1, sharp: false, commission: 5 }],
+      });
+
+      expect(gross).not.toBeNull();
+      expect(net).toBeNull();
+    });
+
+    it('should record commission and effective odds on the leg and validate net payouts', () => {
+      const event: OddsApiEvent = {
+        id: 'commission_event_2',
+        sport_key: 'tennis_atp',
+        sport_title: 'Tennis - ATP',
+        commence_time: new Date().toISOString(),
+        home_team: 'Player A',
+        away_team: 'Player B',
+        bookmakers: [
+          {
+            key: 'betfair_ex_eu',
+            title: 'Betfair',
+            last_update: new Date().toISOString(),
+            markets: [{
+              key: 'h2h',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Player A', price: 2.30 },
+                { name: 'Player B', price: 1.70 },
+              ]
+            }]
+          },
+          {
+            key: 'bet365',
+            title: 'Bet365',
+            last_update: new Date().toISOString(),
+            markets: [{
+              key: 'h2h',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Player A', price: 1.80 },
+                { name: 'Player B', price: 2.00 },
+              ]
+            }]
+          },
+        ]
+      };
+
+      const opportunity = findBestArbitrage(event, 'h2h', undefined, {
+        bookmakerProfiles: [{ bookmaker: 'Betfair', weight: 1, sharp: false, commission: 5 }],
+      });
+
+      expect(opportunity).not.toBeNull();
+      expect(opportunity!.bookmakers[0].commission).toBe(5);
+      expect(opportunity!.bookmakers[0].effectiveOdds).toBeCloseTo(2.235, 4);
+      expect(opportunity!.bookmakers[1].commission).toBeUndefined();
+
+      const totalStake = opportunity!.bookmakers.reduce((sum, b) => sum + b.stake, 0);
+      const netProfit = opportunity!.bookmakers[0].stake * 2.235 - totalStake;
+      expect(netProfit / totalStake * 100).toBeCloseTo(opportunity!.profit, 1);
+    });
+  });
+
+  describe('stake rounding', () => {
+    const bets = [
+      { bookmaker: 'Bet365', outcome: 'Team A', odds: 2.10 },
+      { bookmaker: 'DraftKings', outcome: 'Team B', odds: 2.05 },
+    ];
+
+    it('should round every leg to the chosen increment', () => {
+      const result = calculateRoundedArbitrage(bets, 1000, 5);
+
+      result.rounded.stakes.forEach(stake => {
+        expect(stake % 5).toBe(0);
+      });
+      expect(Math.abs(result.rounded.totalStake - 1000)).toBeLessThanOrEqual(10);
+    });
+
+    it('should recompute payouts and profits from the rounded stakes', () => {
+      const { rounded } = calculateRoundedArbitrage(bets, 1000, 10);
+
+      rounded.stakes.forEach((stake, i) => {
+        expect(rounded.payouts[i]).toBeCloseTo(stake * bets[i].odds, 2);
+        expect(rounded.profits[i]).toBeCloseTo(rounded.payouts[i] - rounded.totalStake, 2);
+      });
+      expect(rounded.worstCaseProfit).toBe(Math.min(...rounded.profits));
+      expect(rounded.worstCaseProfit).toBeGreaterThan(0);
+    });
+
+    it('should beat naive rounding on worst-case profit', () => {
+      const odds = [2.10, 2.05];
+      const exact = calculateRoundedArbitrage(bets, 1000, 10).stakes;
+      const naive = exact.map(stake => Math.round(stake / 10) * 10);
+      const naiveTotal = naive.reduce((sum, stake) => sum + stake, 0);
+      const naiveWorst = Math.min(...naive.map((stake, i) => stake * odds[i] - naiveTotal)) / naiveTotal;
+
+      const rounded = roundStakes(exact, odds, 10);
+
+      expect(rounded.worstCaseProfitPercentage / 100).toBeGreaterThanOrEqual(naiveWorst - 0.0001);
+    });
+
+    it('should never round a leg above its max stake', () => {
+      // Uncapped, the best rounding takes the first leg up to 110
+      expect(roundStakes([109.61, 140.39], [2.28, 1.78], 10).stakes).toEqual([110, 140]);
+
+      const rounded = roundStakes([109.61, 140.39], [2.28, 1.78], 10, [109.61, undefined]);
+
+      expect(rounded.stakes[0]).toBeLessThanOrEqual(109.61);
+      rounded.stakes.forEach(stake => expect(stake % 10).toBe(0));
+      expect(roundStakes([3.5, 4.5], [2.28, 1.78], 10, [3.5]).stakes[0]).toBe(3.5);
+    });
+
+    it('should leave stakes untouched without an increment', () => {
+      const rounded = roundStakes([437.83, 562.17], [2.28, 1.78], 0);
+
+      expect(rounded.stakes).toEqual([437.83, 562.17]);
+      expect(rounded.totalStake).toBe(1000);
+    });
+  });
+
+  describe('solveConstrainedStakes', () => {
+    const bets = [
+      { bookmaker: 'Bet365', outcome: 'Team A', odds: 2.10 },
+      { bookmaker: 'DraftKings', outcome: 'Team B', odds: 2.05 },
+    ];
+
+    it('should max out at the tightest max stake', () => {
+      const result = solveConstrainedStakes(bets, [{ maxStake: 200 }, { maxStake: 500 }]);
+
+      expect(result).not.toBeNull();
+      expect(result!.capped).toBe(true);
+      expect(result!.bottleneck).toMatchObject({ legIndex: 0, bookmaker: 'Bet365', constraint: 'maxStake' });
+      expect(result!.stakes[0]).toBeLessThanOrEqual(200);
+      expect(result!.stakes[0]).toBeGreaterThan(199.9);
+      expect(result!.guaranteedProfit).toBeGreaterThan(0);
+    });
+
+    it('should keep the stakes balanced', () => {
+      const result = solveConstrainedStakes(bets, [{ balance: 300 }, undefined]);
+      const payouts = result!.stakes.map((stake, i) => stake * bets[i].odds);
+
+      expect(result!.bottleneck?.constraint).toBe('balance');
+      expect(payouts[0]).toBeCloseTo(payouts[1], 0);
+    });
+
+    it('should share one balance across legs at the same bookmaker', () => {
+      const sameBook = [
+        { bookmaker: 'Bet365', outcome: 'Home', odds: 3.2 },
+        { bookmaker: 'Bet365', outcome: 'Draw', odds: 3.6 },
+        { bookmaker: 'Pinnacle', outcome: 'Away', odds: 3.4 },
+      ];
+      const result = solveConstrainedStakes(sameBook, [{ balance: 400 }, { balance: 400 }, undefined]);
+
+      expect(result!.stakes[0] + result!.stakes[1]).toBeLessThanOrEqual(400);
+      expect(result!.bottleneck?.bookmaker).toBe('Bet365');
+    });
+
+    it('should return the requested total when it fits within limits', () => {
+      const result = solveConstrainedStakes(bets, [{ maxStake: 5000 }, undefined], 1000);
+
+      expect(result!.capped).toBe(false);
+      expect(result!.bottleneck).toBeNull();
+      expect(result!.totalStake).toBeCloseTo(1000, 0);
+    });
+
+    it('should return null when nothing bounds an open-ended request', () => {
+      expect(solveConstrainedStakes(bets, [undefined, undefined])).toBeNull();
+    });
+
+    it('should read limits from bookmaker profiles', () => {
+      const limits = getStakeLimits(bets, [
+        { bookmaker: 'bet365', weight: 1, sharp: false, commission: 0, maxStake: 250 },
+      ]);
+
+      expect(limits).toEqual([{ maxStake: 250, balance: undefined }, undefined]);
+    });
+
+    it('should convert limits from the account currency to the base currency', () => {
+      const profiles = [
+        { bookmaker: 'bet365', weight: 1, sharp: false, commission: 0, balance: 80, currency: 'GBP' },
+      ];
+
+      const limits = getStakeLimits(bets, profiles, { baseCurrency: 'USD', fxRates: { GBP: 0.8 } });
+
+      expect(limits[0]!.balance).toBeCloseTo(100, 10);
+      expect(() => getStakeLimits(bets, profiles, { baseCurrency: 'USD', fxRates: {} })).toThrow('GBP');
+    });
+
+    it('should match profiles configured by bookmaker key', () => {
+      const limits = getStakeLimits(
+        [{ bookmaker: 'Betfair', bookmakerKey: 'betfair_ex_eu' }, { bookmaker: 'Betfair' }],
+        [{ bookmaker: 'betfair_ex_eu', weight: 1, sharp: false, commission: 0, maxStake: 500 }]
+      );
+
+      expect(limits).toEqual([{ maxStake: 500, balance: undefined }, undefined]);
+    });
+  });
+
+  describe('stake allocation modes', () => {
+    const bets = [
+      { bookmaker: 'Bet365', outcome: 'Home', odds: 3.2 },
+      { bookmaker: 'William Hill', outcome: 'Draw', odds: 3.6 },
+      { bookmaker: 'Pinnacle', outcome: 'Away', odds: 3.4 },
+    ];
+
+    it('should give equal profit on every outcome by default', () => {
+      const result = calculateArbitrage(bets, 1000);
+
+      expect(result.profits[0]).toBeCloseTo(result.profits[1], 0);
+      expect(result.profits[1]).toBeCloseTo(result.profits[2], 0);
+      expect(result.profits[0]).toBeCloseTo(1000 * result.profitPercentage / 100, 0);
+    });
+
+    it('should break even on all but the favored outcome', () => {
+      const result = calculateArbitrage(bets, 1000, { mode: 'favor', outcomeIndex: 1 });
+      const equal = calculateArbitrage(bets, 1000);
+
+      expect(result.profits[0]).toBeCloseTo(0, 1);
+      expect(result.profits[2]).toBeCloseTo(0, 1);
+      expect(result.profits[1]).toBeGreaterThan(equal.profits[1]);
+      expect(result.stakes.reduce((sum, s) => sum + s, 0)).toBeCloseTo(1000, 1);
+    });
+
+    it('should split profit by a custom ratio', () => {
+      const result = calculateArbitrage(bets, 1000, { mode: 'ratio', ratios: [2, 1, 0] });
+
+      expect(result.profits[0]).toBeCloseTo(result.profits[1] * 2, 0);
+      expect(result.profits[2]).toBeCloseTo(0, 1);
+    });
+
+    it('should fall back to equal profit when every ratio is zero', () => {
+      const result = calculateArbitrage(bets, 1000, { mode: 'ratio', ratios: [0, 0, 0] });
+
+      expect(result.stakes).toEqual(calculateArbitrage(bets, 1000).stakes);
+    });
+  });
+
+  describe('canonical outcome sets', () => {
+    const market = (outcomes: { name: string; price: number }[]) => [{
+      key: 'h2h',
+      last_update: new Date().toISOString(),
+      outcomes,
+    }];
+    const book = (key: string, title: string, outcomes: { name: string; price: number }[]) => ({
+      key,
+      title,
+      last_update: new Date().toISOString(),
+      markets: market(outcomes),
+    });
+
+    it('should not report a two-way arb when the first book omits the draw', () => {
+      const event: OddsApiEvent = {
+        id: 'shape_event_1',
+        sport_key: 'soccer_epl',
+        sport_title: 'Soccer - EPL',
+        commence_time: new Date().toISOString(),
+        home_team: 'Arsenal',
+        away_team: 'Chelsea',
+        bookmakers: [
+          book('dnb_book', 'DNB Book', [
+            { name: 'Arsenal', price: 2.20 },
+            { name: 'Chelsea', price: 2.10 },
+          ]),
+          book('bet365', 'Bet365', [
+            { name: 'Arsenal', price: 2.40 },
+            { name: 'Chelsea', price: 3.00 },
+            { name: 'Draw', price: 3.30 },
+          ]),
+        ]
+      };
+
+      const shape = getMarketShape(event, 'h2h');
+      expect(shape.outcomes).toEqual(['Arsenal', 'Chelsea', 'Draw']);
+      expect(shape.shapeMismatch).toBe(true);
+      expect(findBestArbitrage(event, 'h2h')).toBeNull();
+    });
+
+    it('should refuse soccer moneylines with no draw quoted anywhere', () => {
+      const event: OddsApiEvent = {
+        id: 'shape_event_2',
+        sport_key: 'soccer_epl',
+        sport_title: 'Soccer - EPL',
+        commence_time: new Date().toISOString(),
+        home_team: 'Arsenal',
+        away_team: 'Chelsea',
+        bookmakers: [
+          book('book_a', 'Book A', [{ name: 'Arsenal', price: 2.20 }, { name: 'Chelsea', price: 1.90 }]),
+          book('book_b', 'Book B', [{ name: 'Arsenal', price: 1.90 }, { name: 'Chelsea', price: 2.20 }]),
+        ]
+      };
+
+      expect(getMarketShape(event, 'h2h').complete).toBe(false);
+      expect(findBestArbitrage(event, 'h2h')).toBeNull();
+    });
+
+    it('should refuse markets with unrecognised team names', () => {
+      const event: OddsApiEvent = {
+        id: 'shape_event_3',
+        sport_key: 'basketball_nba',
+        sport_title: 'NBA',
+        commence_time: new Date().toISOString(),
+        home_team: 'Los Angeles Lakers',
+        away_team: 'Boston Celtics',
+        bookmakers: [
+          book('book_a', 'Book A', [{ name: 'Los Angeles Lakers', price: 2.20 }, { name: 'Boston Celtics', price: 1.70 }]),
+          book('book_b', 'Book B', [{ name: 'LA Lakers', price: 1.70 }, { name: 'Boston Celtics', price: 2.20 }]),
+        ]
+      };
+
+      const shape = getMarketShape(event, 'h2h');
+      expect(shape.complete).toBe(false);
+      expect(shape.shapeMismatch).toBe(true);
+      expect(findBestArbitrage(event, 'h2h')).toBeNull();
+    });
+
+    it('should flag a real arb whose books disagree on market shape', () => {
+      const event: OddsApiEvent = {
+        id: 'shape_event_4',
+        sport_key: 'soccer_epl',
+        sport_title: 'Soccer - EPL',
+        commence_time: new Date().toISOString(),
+        home_team: 'Arsenal',
+        away_team: 'Chelsea',
+        bookmakers: [
+          book('partial', 'Partial Book', [{ name: 'Arsenal', price: 3.20 }, { name: 'Draw', price: 3.60 }]),
+          book('full', 'Full Book', [
+            { name: 'Arsenal', price: 2.80 },
+            { name: 'Chelsea', price: 3.40 },
+            { name: 'Draw', price: 3.20 },
+          ]),
+        ]
+      };
+
+      const opportunity = findBestArbitrage(event, 'h2h');
+      expect(opportunity).not.toBeNull();
+      expect(opportunity!.bookmakers).toHaveLength(3);
+      expect(opportunity!.shapeMismatch).toBe(true);
+    });
+  });
+
+  describe('deterministic opportunity IDs', () => {
+    const event: OddsApiEvent = {
+      id: 'stable_event_1',
+      sport_key: 'basketball_nba',
+      sport_title: 'NBA',
+      commence_time: new Date().toISOString(),
+      home_team: 'Los Angeles Lakers',
+      away_team: 'Boston Celtics',
+      bookmakers: [
+        {
+          key: 'draftkings',
+          title: 'DraftKings',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Los Angeles Lakers', price: 2.20 },
+              { name: 'Boston Celtics', price: 1.70 },
+            ]
+          }]
+        },
+        {
+          key: 'fanduel',
+          title: 'FanDuel',
+          last_update: new Date().toISOString(),
+          markets: [{
+            key: 'h2h',
+            last_update: new Date().toISOString(),
+            outcomes: [
+              { name: 'Los Angeles Lakers', price: 1.70 },
+              { name: 'Boston Celtics', price: 2.20 },
+            ]
+          }]
+        },
+      ]
+    };
+
+    it('should give the same arb the same ID on every refresh', () => {
+      const first = findBestArbitrage(event, 'h2h');
+      const second = findBestArbitrage(event, 'h2h');
+
+      expect(first!.id).toBe('stable_event_1-h2h-boston_celtics_fanduel+los_angeles_lakers_draftkings');
+      expect(second!.id).toBe(first!.id);
+    });
+
+    it('should change the ID when a leg moves to another bookmaker', () => {
+      const moved: OddsApiEvent = {
+        ...event,
+        bookmakers: [
+          ...event.bookmakers,
+          {
+            key: 'betmgm',
+            title: 'BetMGM',
+            last_update: new Date().toISOString(),
+            markets: [{
+              key: 'h2h',
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: 'Los Angeles Lakers', price: 1.65 },
+                { name: 'Boston Celtics', price: 2.30 },
+              ]
+            }]
+          },
+        ]
+      };
+
+      expect(findBestArbitrage(moved, 'h2h')!.id).toBe('stable_event_1-h2h-boston_celtics_betmgm+los_angeles_lakers_draftkings');
+    });
+
+    it('should keep the ID when books list the outcomes in another order', () => {
+      const reordered: OddsApiEvent = {
+        ...event,
+        bookmakers: event.bookmakers.map(bookmaker => ({
+          ...bookmaker,
+          markets: bookmaker.markets.map(market => ({ ...market, outcomes: [...market.outcomes].reverse() })),
+        })),
+      };
+
+      expect(findBestArbitrage(reordered, 'h2h')!.id).toBe(findBestArbitrage(event, 'h2h')!.id);
+    });
+
+    it('should tell apart arbs with the bookmakers on swapped outcomes', () => {
+      const swapped: OddsApiEvent = {
+        ...event,
+        bookmakers: event.bookmakers.map(bookmaker => ({
+          ...bookmaker,
+          title: bookmaker.title === 'DraftKings' ? 'FanDuel' : 'DraftKings',
+          markets: bookmaker.markets.map(market => ({ ...market, outcomes: [...market.outcomes].reverse() })),
+        })),
+      };
+
+      expect(findBestArbitrage(swapped, 'h2h')!.id).not.toBe(findBestArbitrage(event, 'h2h')!.id);
+    });
+
+    it('should include the line and kind', () => {
+      expect(buildOpportunityId('e1', 'totals', [{ bookmaker: 'Bet365' }, { bookmaker: 'William Hill' }], { line: 45.5 }))
+        .toBe('e1-totals-45.5-bet365+william_hill');
+      expect(buildOpportunityId('e1', 'spreads', [{ bookmaker: 'A', point: 3.5 }, { bookmaker: 'B', point: -2.5 }], { kind: 'middle' }))
+        .toBe('e1-spreads-middle-a@3.5+b@-2.5');
+    });
+  });
+
+  describe('stale quote detection', () => {
+    const now = new Date('2025-01-15T18:00:00Z');
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+    const createEvent = (staleMinutes: number): OddsApiEvent => ({
+      id: 'stale_event_1',
+      sport_key: 'basketball_nba',
+      sport_title: 'NBA',
+      commence_time: '2025-01-15T20:00:00Z',
+      home_team: 'Los Angeles Lakers',
+      away_team: 'Boston Celtics',
+      bookmakers: [
+        {
+          key: 'draftkings',
+          title: 'DraftKings',
+          last_update: minutesAgo(staleMinutes),
+          markets: [{
+            key: 'h2h',
+            last_update: minutesAgo(staleMinutes),
+            outcomes: [
+              { name: 'Los Angeles Lakers', price: 2.30 },
+              { name: 'Boston Celtics', price: 1.65 },
+            ]
+          }]
+        },
+        {
+          key: 'betmgm',
+          title: 'BetMGM',
+          last_update: minutesAgo(1),
+          markets: [{
+            key: 'h2h',
+            last_update: minutesAgo(1),
+            outcomes: [
+              { name: 'Los Angeles Lakers', price: 2.15 },
+              { name: 'Boston Celtics', price: 1.70 },
+            ]
+          }]
+        },
+        {
+          key: 'fanduel',
+          title: 'FanDuel',
+          last_update: minutesAgo(1),
+          markets: [{
+            key: 'h2h',
+            last_update: minutesAgo(1),
+            outcomes: [
+              { name: 'Los Angeles Lakers', price: 1.70 },
+              { name: 'Boston Celtics', price: 2.20 },
+            ]
+          }]
+        },
+      ]
+    });
+
+    it('should flag legs older than the max quote age', () => {
+      const opportunity = findBestArbitrage(createEvent(30), 'h2h', undefined, { maxQuoteAge: { h2h: 20 }, now });
+
+      const lakers = opportunity!.bookmakers.find(b => b.outcome === 'Los Angeles Lakers')!;
+      const celtics = opportunity!.bookmakers.find(b => b.outcome === 'Boston Celtics')!;
+      expect(lakers.name).toBe('DraftKings');
+      expect(lakers.stale).toBe(true);
+      expect(lakers.lastUpdate).toBe(minutesAgo(30));
+      expect(celtics.stale).toBeUndefined();
+    });
+
+    it('should fall back to the best fresh price when dropping stale quotes', () => {
+      const opportunity = findBestArbitrage(createEvent(30), 'h2h', undefined, {
+        maxQuoteAge: { h2h: 20 },
+        staleQuoteMode: 'drop',
+        now,
+      });
+
+      const lakers = opportunity!.bookmakers.find(b => b.outcome === 'Los Angeles Lakers')!;
+      expect(lakers.name).toBe('BetMGM');
+      expect(opportunity!.bookmakers.every(b => !b.stale)).toBe(true);
+    });
+
+    it('should keep fresh quotes and ignore a max age of 0', () => {
+      expect(findBestArbitrage(createEvent(5), 'h2h', undefined, { maxQuoteAge: { h2h: 20 }, now })!
+        .bookmakers.some(b => b.stale)).toBe(false);
+      expect(isStaleQuote(minutesAgo(600), 'h2h', { maxQuoteAge: { h2h: 0 }, now })).toBe(false);
+      expect(isStaleQuote(minutesAgo(11), 'totals', { maxQuoteAge: { totals: 10 }, now })).toBe(true);
+    });
+  });
+
+  describe('account currencies', () => {
+    const opportunity: Pick<ArbitrageOpportunity, 'bookmakers'> = {
+      bookmakers: [
+        { name: 'Bet365', outcome: 'Home', odds: 2.1, stake: 50 },
+        { name: 'Pinnacle', outcome: 'Away', odds: 2.1, stake: 50 },
+      ],
+    };
+
+    it('should show stakes in each account currency', () => {
+      const localized = localizeStakes(opportunity, {
+        bookmakerProfiles: [
+          { bookmaker: 'bet365', weight: 1, sharp: false, commission: 0, currency: 'GBP' },
+          { bookmaker: 'pinnacle', weight: 5, sharp: true, commission: 0, currency: 'USD' },
+        ],
+        baseCurrency: 'USD',
+        fxRates: { GBP: 0.79 },
+      });
+
+      expect(localized.bookmakers[0]).toMatchObject({ stake: 50, currency: 'GBP', localStake: 39.5 });
+      expect(localized.bookmakers[1].currency).toBeUndefined();
+    });
+
+    it('should leave legs alone when the rate is unknown', () => {
+      const localized = localizeStakes(opportunity, {
+        bookmakerProfiles: [{ bookmaker: 'bet365', weight: 1, sharp: false, commission: 0, currency: 'EUR' }],
+      });
+
+      expect(localized.bookmakers[0].localStake).toBeUndefined();
+    });
+
+    it('should find the account currency of legs at key-configured profiles', () => {
+      const localized = localizeStakes({
+        bookmakers: [{ name: 'Betfair', bookmakerKey: 'betfair_ex_eu', outcome: 'Home', odds: 2.1, stake: 50 }],
+      }, {
+        bookmakerProfiles: [{ bookmaker: 'betfair_ex_eu', weight: 1, sharp: false, commission: 0, currency: 'GBP' }],
+        baseCurrency: 'USD',
+        fxRates: { GBP: 0.8 },
+      });
+
+      expect(localized.bookmakers[0]).toMatchObject({ currency: 'GBP', localStake: 40 });
+    });
+  });
+
+  describe('back/lay matched betting', () => {
+    it('should size a normal lay for the same result either way, net of commission', () => {
+      const result = calculateLayStake(100, 3.0, 3.1, 5);
+
+      expect(result.layStake).toBe(98.36);
+      expect(result.liability).toBe(206.56);
+      expect(result.backWinProfit).toBe(-6.56);
+      expect(result.layWinProfit).toBe(-6.56);
+      expect(result.liquidityCapped).toBe(false);
+    });
+
+    it('should underlay to break even on a back win and overlay to break even on a lay win', () => {
+      const underlay = calculateLayStake(100, 3.0, 3.1, 5, 'underlay');
+      expect(underlay.layStake).toBe(95.24);
+      expect(underlay.backWinProfit).toBeCloseTo(0, 2);
+      expect(underlay.layWinProfit).toBe(-9.52);
+
+      const overlay = calculateLayStake(100, 3.0, 3.1, 5, 'overlay');
+      expect(overlay.layStake).toBe(105.26);
+      expect(overlay.backWinProfit).toBe(-21.05);
+      expect(overlay.layWinProfit).toBeCloseTo(0, 2);
+    });
+
+    it('should cut both stakes down to the liquidity at the lay price', () => {
+      const result = calculateLayStake(100, 3.0, 3.1, 5, 'normal', 50);
+
+      expect(result.liquidityCapped).toBe(true);
+      expect(result.layStake).toBe(50);
+      expect(result.backStake).toBe(50.83);
+      expect(result.backWinProfit).toBe(-3.33);
+    });
+
+    it('should pair sportsbook backs with exchange lays and rank them by rating', () => {
+      const now = new Date().toISOString();
+      const event: OddsApiEvent = {
+        id: 'back_lay_event',
+        sport_key: 'basketball_nba',
+        sport_title: 'Basketball - NBA',
+        commence_time: now,
+        home_team: 'Lakers',
+        away_team: 'Warriors',
+        bookmakers: [
+          {
+            key: 'draftkings', title: 'DraftKings', last_update: now,
+            markets: [{ key: 'h2h', last_update: now, outcomes: [{ name: 'Lakers', price: 3.0 }, { name: 'Warriors', price: 1.4 }] }],
+          },
+          {
+            key: 'fanduel', title: 'FanDuel', last_update: now,
+            markets: [{ key: 'h2h', last_update: now, outcomes: [{ name: 'Lakers', price: 2.9 }, { name: 'Warriors', price: 1.5 }] }],
+          },
+          {
+            key: 'betfair_ex_eu', title: 'Betfair', last_update: now,
+            markets: [{
+              key: 'h2h',
+              last_update: now,
+              outcomes: [
+                { name: 'Lakers', price: 2.95, lay_price: 3.1, lay_liquidity: 60 },
+                { name: 'Warriors', price: 1.45, lay_price: 1.5 },
+              ],
+            }],
+          },
+        ],
+      };
+
+      const opportunities = findBackLayOpportunities([event], 100, ['h2h'], {
+        bookmakerProfiles: [{ bookmaker: 'betfair_ex_eu', weight: 3, sharp: true, commission: 5 }],
+      });
+
+      expect(opportunities.map(o => o.outcome)).toEqual(['Warriors', 'Lakers']);
+      expect(opportunities[0].back).toMatchObject({ name: 'FanDuel', odds: 1.5, stake: 100 });
+      expect(opportunities[0].lay).toMatchObject({ name: 'Betfair', odds: 1.5, commission: 5, stake: 103.45 });
+      expect(opportunities[0].rating).toBe(98.28);
+
+      const lakers = opportunities[1];
+      expect(lakers.back.name).toBe('DraftKings');
+      expect(lakers.rating).toBe(93.44);
+      expect(lakers.liquidityCapped).toBe(true);
+      expect(lakers.lay.stake).toBe(60);
+      expect(lakers.back.stake).toBe(61);
+    });
+  });
+
+  describe('findLowHoldMarkets', () => {
+    const createEvent = (id: string, prices: Record<string, [number, number]>): OddsApiEvent => ({
+      id,
+      sport_key: 'basketball_nba',
+      sport_title: 'Basketball - NBA',
+      commence_time: new Date().toISOString(),
+      home_team: 'Lakers',
+      away_team: 'Warriors',
+      bookmakers: Object.entries(prices).map(([title, [lakers, warriors]]) => ({
+        key: title.toLowerCase(),
+        title,
+        last_update: new Date().toISOString(),
+        markets: [{
+          key: 'h2h',
+          last_update: new Date().toISOString(),
+          outcomes: [{ name: 'Lakers', price: lakers }, { name: 'Warriors', price: warriors }],
+        }],
+      })),
+    });
+
+    const events = [
+      createEvent('wide', { DraftKings: [1.9, 1.9], FanDuel: [1.85, 1.85] }),
+      createEvent('tight', { DraftKings: [2.0, 1.9], FanDuel: [1.95, 1.95] }),
+    ];
+
+    it('should report the composite hold and each bookmaker\'s own hold', () => {
+      const [tight] = findLowHoldMarkets(events);
+
+      expect(tight.eventId).toBe('tight');
+      expect(tight.hold).toBe(1.28);
+      expect(tight.legs.map(leg => leg.name)).toEqual(['DraftKings', 'FanDuel']);
+      expect(tight.legs.reduce((sum, leg) => sum + leg.stake, 0)).toBeCloseTo(100, 1);
+      expect(tight.bookmakerHolds).toEqual([
+        { bookmaker: 'FanDuel', hold: 2.56 },
+        { bookmaker: 'DraftKings', hold: 2.63 },
+      ]);
+    });
+
+    it('should rank by hold and drop markets above the threshold', () => {
+      expect(findLowHoldMarkets(events).map(m => m.eventId)).toEqual(['tight', 'wide']);
+      expect(findLowHoldMarkets(events, 3).map(m => m.eventId)).toEqual(['tight']);
+    });
+  });
 });
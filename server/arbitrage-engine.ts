@@ -1,4 +1,28 @@
-import type { ArbitrageOpportunity, OddsApiEvent } from "@shared/schema";
+import type {
+  ArbitrageOpportunity,
+  BackLayOpportunity,
+  BookmakerProfile,
+  DevigMethod,
+  LayMode,
+  LowHoldMarket,
+  MarketType,
+  MaxQuoteAge,
+  OddsApiBookmaker,
+  OddsApiEvent,
+  OddsApiMarket,
+  OddsApiOutcome,
+  StaleQuoteMode,
+} from "@shared/schema";
+import { allocateStakes, roundStakes, type RoundedStakes, type StakeAllocation } from "@shared/stakes";
+import { getFxRate, toBaseCurrency, type FxRates, type FxTable } from "@shared/currency";
+
+export {
+  allocateStakes,
+  roundStakes,
+  evaluateStakes,
+  type RoundedStakes,
+  type StakeAllocation,
+} from "@shared/stakes";
 
 // ============================================================================
 // ADVANCED ARBITRAGE CALCULATION ENGINE
@@ -10,12 +34,61 @@ interface ArbitrageCalculation {
   stakes: number[];
   impliedProbabilities: number[];
   totalImpliedProbability: number;
+  effectiveOdds: number[];
+  payouts: number[]; // Return per outcome if that leg wins
+  profits: number[]; // Profit per outcome if that leg wins
 }
 
 interface BookmakerBet {
   bookmaker: string;
+  bookmakerKey?: string; // API key, for matching profiles configured by key
   outcome: string;
   odds: number;
+  point?: number;
+  commission?: number; // % charged on net winnings
+}
+
+/**
+ * Options shared by the opportunity scanners
+ */
+export interface ScanOptions {
+  devigMethod?: DevigMethod; // How bookmaker margin is removed before EV (default: multiplicative)
+  bookmakerProfiles?: BookmakerProfile[]; // Consensus weights and sharp designations
+  sharpOnly?: boolean; // Price EV against sharp bookmakers only
+  maxQuoteAge?: Partial<MaxQuoteAge>; // Minutes before a quote is stale, per market (0 = no limit)
+  staleQuoteMode?: StaleQuoteMode; // Flag stale legs (default) or drop them for the best fresh price
+  now?: Date; // Reference time for quote ages (default: current time)
+  baseCurrency?: string; // Currency stakes are calculated in (default: USD)
+  fxRates?: FxRates; // Units of each account currency per base unit
+}
+
+/**
+ * Options for building a de-vigged fair price consensus
+ */
+export interface FairPriceOptions extends ScanOptions {
+  minBookmakers?: number; // Minimum complete bookmakers in weighted mode (default: 3)
+  line?: number; // For spreads/totals, only use outcomes on this line
+}
+
+/**
+ * When a bookmaker last updated a market (falls back to the bookmaker's own timestamp)
+ */
+export function getQuoteUpdatedAt(bookmaker: OddsApiBookmaker, market: OddsApiMarket): string {
+  return market.last_update || bookmaker.last_update;
+}
+
+/**
+ * Whether a quote is older than the max age configured for its market
+ */
+export function isStaleQuote(updatedAt: string | undefined, marketKey: string, options: ScanOptions = {}): boolean {
+  const maxAgeMinutes = options.maxQuoteAge?.[marketKey as MarketType];
+  if (!maxAgeMinutes || !updatedAt) return false;
+
+  const updated = Date.parse(updatedAt);
+  if (isNaN(updated)) return false;
+
+  const now = (options.now ?? new Date()).getTime();
+  return now - updated > maxAgeMinutes * 60 * 1000;
 }
 
 /**
@@ -26,19 +99,35 @@ export function calculateImpliedProbability(odds: number): number {
   return (1 / odds) * 100;
 }
 
+/**
+ * Calculate effective decimal odds after commission on net winnings
+ * Formula: 1 + (odds - 1) * (1 - commission / 100)
+ * 
+ * @param odds - Decimal odds offered
+ * @param commission - Commission percentage charged on net winnings (default: 0)
+ */
+export function calculateEffectiveOdds(odds: number, commission: number = 0): number {
+  return 1 + (odds - 1) * (1 - commission / 100);
+}
+
 /**
  * Calculate arbitrage for any number of outcomes (2-way or 3-way markets)
+ * Stakes and profit are based on odds net of each bet's commission
  * 
  * @param bets - Array of bookmaker bets with odds
  * @param totalStake - Total amount to invest (default: 1000)
+ * @param allocation - How profit is split across outcomes (default: equal profit)
  * @returns Arbitrage calculation result
  */
 export function calculateArbitrage(
   bets: BookmakerBet[],
-  totalStake: number = 1000
+  totalStake: number = 1000,
+  allocation: StakeAllocation = { mode: "equal" }
 ): ArbitrageCalculation {
+  const effectiveOdds = bets.map(bet => calculateEffectiveOdds(bet.odds, bet.commission));
+
   // Calculate implied probabilities
-  const impliedProbabilities = bets.map(bet => calculateImpliedProbability(bet.odds));
+  const impliedProbabilities = effectiveOdds.map(odds => calculateImpliedProbability(odds));
   
   // Calculate total implied probability (arbitrage exists if < 100%)
   const totalImpliedProbability = impliedProbabilities.reduce((sum, prob) => sum + prob, 0);
@@ -51,11 +140,10 @@ export function calculateArbitrage(
     ? ((1 / (totalImpliedProbability / 100)) - 1) * 100
     : 0;
   
-  // Calculate optimal stakes for equal profit across all outcomes
-  // Formula: stake_i = (total_stake * implied_prob_i) / total_implied_prob
-  const stakes = impliedProbabilities.map(prob => 
-    (totalStake * (prob / 100)) / (totalImpliedProbability / 100)
-  );
+  // Calculate stakes for the chosen allocation
+  // Equal profit: stake_i = (total_stake * implied_prob_i) / total_implied_prob
+  const stakes = allocateStakes(effectiveOdds, totalStake, allocation);
+  const payouts = stakes.map((stake, i) => stake * effectiveOdds[i]);
   
   return {
     hasArbitrage,
@@ -63,6 +151,162 @@ export function calculateArbitrage(
     stakes: stakes.map(s => Math.round(s * 100) / 100),
     impliedProbabilities: impliedProbabilities.map(p => Math.round(p * 100) / 100),
     totalImpliedProbability: Math.round(totalImpliedProbability * 100) / 100,
+    effectiveOdds: effectiveOdds.map(o => Math.round(o * 10000) / 10000),
+    payouts: payouts.map(p => Math.round(p * 100) / 100),
+    profits: payouts.map(p => Math.round((p - totalStake) * 100) / 100),
+  };
+}
+
+/**
+ * Calculate arbitrage stakes rounded to a human-friendly increment
+ * Exact cent-level stakes are easy for bookmakers to flag; the rounded stakes
+ * keep the best achievable worst-case profit for the chosen increment
+ * @param increment - Rounding increment, e.g. 1, 5 or 10
+ */
+export function calculateRoundedArbitrage(
+  bets: BookmakerBet[],
+  totalStake: number = 1000,
+  increment: number = 5
+): ArbitrageCalculation & { rounded: RoundedStakes } {
+  const calculation = calculateArbitrage(bets, totalStake);
+  const effectiveOdds = bets.map(bet => calculateEffectiveOdds(bet.odds, bet.commission));
+
+  return {
+    ...calculation,
+    rounded: roundStakes(calculation.stakes, effectiveOdds, increment),
+  };
+}
+
+export interface StakeLimit {
+  maxStake?: number; // Per-wager limit at the bookmaker (base currency)
+  balance?: number; // Account funds, shared by every leg at that bookmaker (base currency)
+}
+
+export interface ConstrainedStakes {
+  totalStake: number;
+  stakes: number[];
+  profitPercentage: number;
+  guaranteedProfit: number;
+  capped: boolean; // True when the limits forced a smaller total than requested
+  bottleneck: {
+    legIndex: number;
+    bookmaker: string;
+    constraint: "maxStake" | "balance";
+    limit: number;
+  } | null;
+}
+
+/**
+ * Solve for the largest balanced arbitrage stake within bookmaker limits
+ * Stakes keep the equal-profit split from calculateArbitrage, so the total can
+ * only grow until the first leg hits its max stake or its account balance.
+ * Legs at the same bookmaker draw on one balance.
+ * @param limits - Limits per leg (same order as bets)
+ * @param targetTotal - Requested total; omit to max out
+ * @returns The feasible stakes, or null when nothing bounds an open-ended request
+ */
+export function solveConstrainedStakes(
+  bets: BookmakerBet[],
+  limits: (StakeLimit | undefined)[],
+  targetTotal: number = Infinity
+): ConstrainedStakes | null {
+  const calculation = calculateArbitrage(bets, 1);
+  const effectiveOdds = bets.map(bet => calculateEffectiveOdds(bet.odds, bet.commission));
+  const impliedProbabilities = effectiveOdds.map(odds => calculateImpliedProbability(odds));
+  const totalImplied = impliedProbabilities.reduce((sum, prob) => sum + prob, 0);
+  const shares = impliedProbabilities.map(prob => prob / totalImplied);
+
+  let maxTotal = Infinity;
+  let bottleneck: ConstrainedStakes["bottleneck"] = null;
+
+  bets.forEach((bet, i) => {
+    const maxStake = limits[i]?.maxStake;
+    if (maxStake !== undefined && maxStake / shares[i] < maxTotal) {
+      maxTotal = maxStake / shares[i];
+      bottleneck = { legIndex: i, bookmaker: bet.bookmaker, constraint: "maxStake", limit: maxStake };
+    }
+  });
+
+  const balances = new Map<string, { legIndex: number; balance: number; share: number }>();
+  bets.forEach((bet, i) => {
+    const balance = limits[i]?.balance;
+    if (balance === undefined) return;
+    const entry = balances.get(bet.bookmaker);
+    if (entry) {
+      entry.share += shares[i];
+    } else {
+      balances.set(bet.bookmaker, { legIndex: i, balance, share: shares[i] });
+    }
+  });
+
+  balances.forEach((entry, bookmaker) => {
+    if (entry.balance / entry.share < maxTotal) {
+      maxTotal = entry.balance / entry.share;
+      bottleneck = { legIndex: entry.legIndex, bookmaker, constraint: "balance", limit: entry.balance };
+    }
+  });
+
+  const capped = maxTotal < targetTotal;
+  const total = Math.min(maxTotal, targetTotal);
+  if (!Number.isFinite(total)) return null;
+
+  // Floor to the cent so rounding never pushes a leg over its limit
+  const stakes = shares.map(share => Math.floor(total * share * 100) / 100);
+  const totalStake = Math.round(stakes.reduce((sum, stake) => sum + stake, 0) * 100) / 100;
+  const guaranteedProfit = Math.min(...stakes.map((stake, i) => stake * effectiveOdds[i])) - totalStake;
+
+  return {
+    totalStake,
+    stakes,
+    profitPercentage: calculation.profitPercentage,
+    guaranteedProfit: Math.round(guaranteedProfit * 100) / 100,
+    capped,
+    bottleneck: capped ? bottleneck : null,
+  };
+}
+
+/**
+ * Look up stake limits for each leg from the bookmaker profiles
+ * Limits are entered in each account's currency and converted to the base currency
+ * @throws Error when an account currency has no FX rate
+ */
+export function getStakeLimits(
+  bets: Pick<BookmakerBet, "bookmaker" | "bookmakerKey">[],
+  profiles: BookmakerProfile[] | undefined,
+  fx: FxTable = { baseCurrency: "USD", fxRates: {} }
+): (StakeLimit | undefined)[] {
+  return bets.map(bet => {
+    const profile = findBookmakerProfile(profiles, { key: bet.bookmakerKey ?? bet.bookmaker, title: bet.bookmaker });
+    if (!profile || (profile.maxStake === undefined && profile.balance === undefined)) return undefined;
+
+    if (getFxRate(profile.currency, fx) === null) {
+      throw new Error(`No FX rate configured for ${profile.currency}`);
+    }
+    const toBase = (amount: number | undefined) =>
+      amount === undefined ? undefined : toBaseCurrency(amount, profile.currency, fx) ?? undefined;
+    return { maxStake: toBase(profile.maxStake), balance: toBase(profile.balance) };
+  });
+}
+
+/**
+ * Show each leg's stake in its bookmaker's account currency
+ * Stakes stay in the base currency; legs at accounts in another currency with
+ * a known rate also get the converted stake
+ */
+export function localizeStakes<T extends Pick<ArbitrageOpportunity, "bookmakers">>(
+  opportunity: T,
+  options: ScanOptions = {}
+): T {
+  const fx: FxTable = { baseCurrency: options.baseCurrency ?? "USD", fxRates: options.fxRates ?? {} };
+
+  return {
+    ...opportunity,
+    bookmakers: opportunity.bookmakers.map(leg => {
+      const currency = findBookmakerProfile(options.bookmakerProfiles, { key: leg.bookmakerKey ?? leg.name, title: leg.name })?.currency;
+      const rate = getFxRate(currency, fx);
+      if (!currency || currency === fx.baseCurrency || rate === null) return leg;
+      return { ...leg, currency, localStake: Math.round(leg.stake * rate * 100) / 100 };
+    }),
   };
 }
 
@@ -96,6 +340,7 @@ export function calculateKellyStake(
 /**
  * Calculate fair market price (true odds) for an outcome by aggregating all bookmaker odds
  * Uses the average of implied probabilities across all bookmakers
+ * Note: the bookmaker margin is left in - see calculateDevigFairPrices for de-vigged prices
  * 
  * @param oddsArray - Array of odds from different bookmakers for the same outcome
  * @param minBookmakers - Minimum number of bookmakers required (default: 3)
@@ -118,6 +363,187 @@ export function calculateFairMarketPrice(
   return Math.round(fairProbability * 100) / 100;
 }
 
+// ============================================================================
+// DE-VIG (MARGIN REMOVAL) METHODS
+// ============================================================================
+
+/**
+ * Find the root of a decreasing function on [lo, hi] by bisection
+ */
+function bisect(fn: (x: number) => number, lo: number, hi: number, iterations: number = 100): number {
+  for (let i = 0; i < iterations; i++) {
+    const mid = (lo + hi) / 2;
+    if (fn(mid) > 0) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Multiplicative: scale every implied probability by the same factor
+ */
+function devigMultiplicative(probs: number[], total: number): number[] {
+  return probs.map(p => p / total);
+}
+
+/**
+ * Additive: subtract an equal share of the margin from every outcome
+ */
+function devigAdditive(probs: number[], total: number): number[] {
+  const share = (total - 1) / probs.length;
+  return probs.map(p => Math.max(p - share, 0.0001));
+}
+
+/**
+ * Power: raise every implied probability to the exponent k that makes them sum to 1.
+ * Takes more margin off longshots than favourites.
+ */
+function devigPower(probs: number[]): number[] {
+  const k = bisect(exp => probs.reduce((sum, p) => sum + Math.pow(p, exp), 0) - 1, 0, 50);
+  return probs.map(p => Math.pow(p, k));
+}
+
+/**
+ * Shin: model the margin as protection against a share z of insider money.
+ * Solves for z such that the fair probabilities sum to 1.
+ */
+function devigShin(probs: number[], total: number): number[] {
+  const fairForZ = (z: number) => probs.map(p =>
+    (Math.sqrt(z * z + 4 * (1 - z) * (p * p) / total) - z) / (2 * (1 - z))
+  );
+  const z = bisect(zz => fairForZ(zz).reduce((sum, p) => sum + p, 0) - 1, 0, 0.999);
+  return fairForZ(z);
+}
+
+/**
+ * Remove the bookmaker margin from a complete set of odds for one market
+ * 
+ * Methods:
+ *   multiplicative - proportional scaling
+ *   additive       - equal margin per outcome
+ *   power          - p_i^k with sum = 1
+ *   shin           - Shin's insider-trading model
+ *   worst_case     - the lowest fair probability any of the above gives each outcome
+ * 
+ * @param odds - Decimal odds for every outcome of the market at one bookmaker
+ * @param method - De-vig method to apply
+ * @returns Fair probabilities as percentages, in the same order as the odds
+ */
+export function devigProbabilities(odds: number[], method: DevigMethod = "multiplicative"): number[] {
+  const probs = odds.map(o => 1 / o);
+  const total = probs.reduce((sum, p) => sum + p, 0);
+
+  // No margin to remove (or an arb within one book) - scale only
+  if (total <= 1) {
+    return devigMultiplicative(probs, total).map(p => p * 100);
+  }
+
+  let fair: number[];
+  switch (method) {
+    case "additive":
+      fair = devigAdditive(probs, total);
+      break;
+    case "power":
+      fair = devigPower(probs);
+      break;
+    case "shin":
+      fair = devigShin(probs, total);
+      break;
+    case "worst_case": {
+      const candidates = [
+        devigMultiplicative(probs, total),
+        devigAdditive(probs, total),
+        devigPower(probs),
+        devigShin(probs, total),
+      ];
+      fair = probs.map((_, i) => Math.min(...candidates.map(c => c[i])));
+      break;
+    }
+    case "multiplicative":
+    default:
+      fair = devigMultiplicative(probs, total);
+  }
+
+  return fair.map(p => p * 100);
+}
+
+/**
+ * Find the configured profile for a bookmaker, matching its key or title
+ */
+export function findBookmakerProfile(
+  profiles: BookmakerProfile[] | undefined,
+  bookmaker: Pick<OddsApiBookmaker, "key" | "title">
+): BookmakerProfile | undefined {
+  if (!profiles) return undefined;
+
+  const key = bookmaker.key.toLowerCase();
+  const title = bookmaker.title.toLowerCase();
+  return profiles.find(p => {
+    const name = p.bookmaker.toLowerCase();
+    return name === key || name === title;
+  });
+}
+
+/**
+ * Calculate de-vigged fair prices for every outcome of a market.
+ * Each bookmaker quoting the full outcome set is de-vigged on its own,
+ * then the fair probabilities are combined as a weighted average.
+ * 
+ * Weighted mode: every book counts with its profile weight (default 1), so
+ * sharp books can dominate the consensus. Requires minBookmakers complete books.
+ * Sharp-only mode: only books flagged sharp contribute; one is enough.
+ * 
+ * @param event - Event with bookmaker odds
+ * @param marketKey - Market to price
+ * @param outcomes - Outcome names making up the market
+ * @param options - De-vig method, weighting and line
+ * @returns Fair probability percentage per outcome, or null when there is insufficient data
+ */
+export function calculateDevigFairPrices(
+  event: OddsApiEvent,
+  marketKey: string,
+  outcomes: string[],
+  options: FairPriceOptions = {}
+): (number | null)[] {
+  const method = options.devigMethod ?? "multiplicative";
+  const minBookmakers = options.sharpOnly ? 1 : options.minBookmakers ?? 3;
+  const perBookmaker: { probs: number[]; weight: number }[] = [];
+
+  for (const bookmaker of event.bookmakers) {
+    const profile = findBookmakerProfile(options.bookmakerProfiles, bookmaker);
+    if (options.sharpOnly && !profile?.sharp) continue;
+
+    const weight = profile?.weight ?? 1;
+    if (weight <= 0) continue;
+
+    const market = bookmaker.markets.find(m => m.key === marketKey);
+    if (!market) continue;
+
+    const odds = outcomes.map(outcome =>
+      market.outcomes.find(o => o.name === outcome && matchesLine(event, marketKey, o, options.line))?.price
+    );
+
+    // De-vig needs the bookmaker's full market, otherwise the margin is unknown
+    if (odds.some(o => o === undefined || o <= 1)) continue;
+
+    perBookmaker.push({ probs: devigProbabilities(odds as number[], method), weight });
+  }
+
+  if (perBookmaker.length < minBookmakers) {
+    return outcomes.map(() => null);
+  }
+
+  const totalWeight = perBookmaker.reduce((sum, b) => sum + b.weight, 0);
+
+  return outcomes.map((_, idx) => {
+    const fairProbability = perBookmaker.reduce((sum, b) => sum + b.probs[idx] * b.weight, 0) / totalWeight;
+    return Math.round(fairProbability * 100) / 100;
+  });
+}
+
 /**
  * Calculate Expected Value (EV) for a bet
  * 
@@ -158,79 +584,255 @@ export function calculateExpectedValue(
 }
 
 /**
- * Get all odds for a specific outcome across all bookmakers
+ * Resolve the line an outcome belongs to within a spreads or totals market.
+ * Totals pair Over/Under at the same point, so the point is the line.
+ * Spreads pair opposite points (Home -3.5 vs Away +3.5), so the line is
+ * expressed from the home team's perspective.
  */
-function getAllOddsForOutcome(
+export function getOutcomeLine(
   event: OddsApiEvent,
-  outcome: string,
-  marketKey: string
-): number[] {
-  const odds: number[] = [];
-  
+  marketKey: string,
+  outcome: Pick<OddsApiOutcome, "name" | "point">
+): number | undefined {
+  if (outcome.point === undefined) return undefined;
+
+  if (marketKey === 'spreads' && outcome.name !== event.home_team) {
+    return -outcome.point;
+  }
+  return outcome.point;
+}
+
+/**
+ * Check whether an outcome should be considered for the requested line.
+ * When no line is requested (h2h), every outcome qualifies.
+ */
+function matchesLine(
+  event: OddsApiEvent,
+  marketKey: string,
+  outcome: OddsApiOutcome,
+  line?: number
+): boolean {
+  if (line === undefined) return true;
+  return getOutcomeLine(event, marketKey, outcome) === line;
+}
+
+/**
+ * List every distinct line offered for a spreads or totals market across all bookmakers
+ */
+export function getMarketLines(event: OddsApiEvent, marketKey: string): number[] {
+  const lines = new Set<number>();
+
   for (const bookmaker of event.bookmakers) {
     const market = bookmaker.markets.find(m => m.key === marketKey);
     if (!market) continue;
-    
-    const outcomeData = market.outcomes.find(o => o.name === outcome);
-    if (outcomeData) {
-      odds.push(outcomeData.price);
+
+    for (const outcome of market.outcomes) {
+      const line = getOutcomeLine(event, marketKey, outcome);
+      if (line !== undefined) lines.add(line);
     }
   }
-  
-  return odds;
+
+  return Array.from(lines).sort((a, b) => a - b);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]+/g, "_").replace(/^_|_$/g, "");
 }
 
 /**
- * Find best arbitrage opportunities from odds data for a single event
+ * Build a deterministic opportunity ID from the event, market, line and legs
+ * The same opportunity keeps its ID across refreshes; a different bookmaker
+ * on any leg makes it a different opportunity
+ * 
+ * @param legs - Bookmaker per leg, with its line when legs sit on different lines (middles)
+ * @param kind - Distinguishes +EV, middle and promo opportunities from arbs on the same market
  */
-export function findBestArbitrage(
+export function buildOpportunityId(
+  eventId: string,
+  marketKey: string,
+  legs: { bookmaker: string; point?: number }[],
+  options: { line?: number; kind?: "ev" | "middle" | "free_bet" | "risk_free" | "boost" | "back_lay" | "low_hold" } = {}
+): string {
+  const legKey = legs
+    .map(leg => `${slugify(leg.bookmaker)}${leg.point !== undefined ? `@${leg.point}` : ""}`)
+    .join("+");
+
+  return [eventId, marketKey, options.line, options.kind, legKey]
+    .filter(part => part !== undefined)
+    .join("-");
+}
+
+/**
+ * ID legs keyed by outcome and bookmaker, in a fixed order
+ * Books list outcomes in their own order, so the legs are sorted to keep the
+ * ID stable and to tell A@X/B@Y apart from A@Y/B@X
+ */
+function getOutcomeLegs(prices: { outcome: string; bookmaker: string }[]): { bookmaker: string }[] {
+  return prices
+    .map(price => ({ bookmaker: `${price.outcome} ${price.bookmaker}` }))
+    .sort((a, b) => a.bookmaker.localeCompare(b.bookmaker));
+}
+
+export interface MarketShape {
+  outcomes: string[]; // Union of outcomes quoted by any bookmaker
+  expectedOutcomes: string[]; // Outcomes the market must have to be complete
+  complete: boolean; // Every expected outcome is quoted and no unrecognised outcome appears
+  shapeMismatch: boolean; // Some bookmaker quotes a different set of outcomes
+}
+
+/**
+ * Outcomes a market must cover for an arbitrage to be safe
+ * Soccer moneylines are three-way even if no bookmaker happens to quote the draw
+ */
+function getExpectedOutcomes(event: OddsApiEvent, marketKey: string, quoted: string[]): string[] {
+  if (marketKey === "totals") return ["Over", "Under"];
+  if (marketKey === "spreads") return [event.home_team, event.away_team];
+
+  const threeWay = quoted.includes("Draw") || event.sport_key.startsWith("soccer");
+  return threeWay ? [event.home_team, event.away_team, "Draw"] : [event.home_team, event.away_team];
+}
+
+/**
+ * Build the canonical outcome set for a market from every bookmaker quoting it
+ * 
+ * @param line - For spreads/totals, only consider outcomes on this line
+ */
+export function getMarketShape(event: OddsApiEvent, marketKey: string, line?: number): MarketShape {
+  const outcomes: string[] = [];
+  const bookmakerSets: string[][] = [];
+
+  for (const bookmaker of event.bookmakers) {
+    const market = bookmaker.markets.find(m => m.key === marketKey);
+    if (!market) continue;
+
+    const names = market.outcomes
+      .filter(o => matchesLine(event, marketKey, o, line))
+      .map(o => o.name);
+    if (names.length === 0) continue;
+
+    bookmakerSets.push(names);
+    for (const name of names) {
+      if (!outcomes.includes(name)) outcomes.push(name);
+    }
+  }
+
+  const expectedOutcomes = getExpectedOutcomes(event, marketKey, outcomes);
+  const complete =
+    expectedOutcomes.every(name => outcomes.includes(name)) &&
+    outcomes.every(name => expectedOutcomes.includes(name));
+  const shapeMismatch = bookmakerSets.some(
+    names => names.length !== outcomes.length || !outcomes.every(name => names.includes(name))
+  );
+
+  return { outcomes, expectedOutcomes, complete, shapeMismatch };
+}
+
+export interface BestPrice {
+  bookmaker: string; // Bookmaker title, empty when no bookmaker prices the outcome
+  bookmakerKey?: string;
+  outcome: string;
+  odds: number; // Quoted decimal odds, 0 when unpriced
+  point?: number;
+  commission: number;
+  lastUpdate?: string;
+  stale: boolean;
+}
+
+/**
+ * Find the best price for each outcome across bookmakers, net of commission
+ * Stale quotes are skipped in drop mode
+ * 
+ * @param line - For spreads/totals, only consider outcomes on this line
+ * @param include - Only consider bookmakers this returns true for (default: all)
+ */
+export function findBestPrices(
   event: OddsApiEvent,
-  marketKey: string = "h2h"
-): ArbitrageOpportunity | null {
-  const market = event.bookmakers[0]?.markets.find(m => m.key === marketKey);
-  if (!market) return null;
+  marketKey: string,
+  outcomes: string[],
+  line?: number,
+  options: ScanOptions = {},
+  include: (bookmaker: OddsApiBookmaker) => boolean = () => true
+): BestPrice[] {
+  return outcomes.map(outcome => {
+    let best: BestPrice = { bookmaker: "", outcome, odds: 0, commission: 0, stale: false };
+    let bestEffectiveOdds = 0;
 
-  const outcomes = market.outcomes.map(o => o.name);
-  
-  // Find best odds for each outcome across all bookmakers
-  const bestOddsPerOutcome = outcomes.map(outcome => {
-    let bestOdds = 0;
-    let bestBookmaker = "";
-    
     for (const bookmaker of event.bookmakers) {
+      if (!include(bookmaker)) continue;
       const market = bookmaker.markets.find(m => m.key === marketKey);
       if (!market) continue;
-      
-      const outcomeData = market.outcomes.find(o => o.name === outcome);
-      if (outcomeData && outcomeData.price > bestOdds) {
-        bestOdds = outcomeData.price;
-        bestBookmaker = bookmaker.title;
+
+      const outcomeData = market.outcomes.find(
+        o => o.name === outcome && matchesLine(event, marketKey, o, line)
+      );
+      if (!outcomeData) continue;
+
+      // Prices the book has not touched in a while are often already gone
+      const lastUpdate = getQuoteUpdatedAt(bookmaker, market);
+      const stale = isStaleQuote(lastUpdate, marketKey, options);
+      if (stale && options.staleQuoteMode === "drop") continue;
+
+      const commission = findBookmakerProfile(options.bookmakerProfiles, bookmaker)?.commission ?? 0;
+      const effectiveOdds = calculateEffectiveOdds(outcomeData.price, commission);
+      if (effectiveOdds > bestEffectiveOdds) {
+        bestEffectiveOdds = effectiveOdds;
+        best = {
+          bookmaker: bookmaker.title,
+          bookmakerKey: bookmaker.key,
+          outcome,
+          odds: outcomeData.price,
+          point: outcomeData.point,
+          commission,
+          lastUpdate,
+          stale,
+        };
       }
     }
-    
-    return {
-      bookmaker: bestBookmaker,
-      outcome,
-      odds: bestOdds,
-    };
-  }).filter(bet => bet.odds > 0);
 
-  if (bestOddsPerOutcome.length < 2) return null;
+    return best;
+  });
+}
 
-  // Calculate arbitrage
+/**
+ * Find best arbitrage opportunities from odds data for a single event
+ * 
+ * @param event - Event with bookmaker odds
+ * @param marketKey - Market to scan (h2h, spreads or totals)
+ * @param line - For spreads/totals, only pair outcomes on this line
+ *               (totals point, or spread from the home team's perspective)
+ * @param options - Scan options (de-vig method and consensus weighting for the EV fields)
+ */
+export function findBestArbitrage(
+  event: OddsApiEvent,
+  marketKey: string = "h2h",
+  line?: number,
+  options: ScanOptions = {}
+): ArbitrageOpportunity | null {
+  const devigMethod = options.devigMethod ?? "multiplicative";
+
+  // The outcome set comes from every bookmaker, so a book that leaves out the
+  // draw (or names a team differently) cannot produce a phantom two-way arb
+  const shape = getMarketShape(event, marketKey, line);
+  if (!shape.complete) return null;
+  const outcomes = shape.outcomes;
+  
+  // Find best odds for each outcome across all bookmakers, net of commission
+  const bestOddsPerOutcome = findBestPrices(event, marketKey, outcomes, line, options);
+
+  // Every outcome must be priced, otherwise the "arb" leaves a result uncovered
+  if (bestOddsPerOutcome.length < 2 || bestOddsPerOutcome.some(bet => bet.odds <= 0)) return null;
+
+  // Calculate arbitrage (opportunities that are not profitable after fees are dropped)
   const arbitrageCalc = calculateArbitrage(bestOddsPerOutcome);
   
   if (!arbitrageCalc.hasArbitrage) return null;
 
-  // Calculate fair market prices for each outcome
-  const fairPrices = outcomes.map(outcome => {
-    const allOdds = getAllOddsForOutcome(event, outcome, marketKey);
-    return calculateFairMarketPrice(allOdds);
-  });
+  // Calculate de-vigged fair market prices for each outcome
+  const fairPrices = calculateDevigFairPrices(event, marketKey, outcomes, { ...options, devigMethod, line });
 
   // Build arbitrage opportunity with EV calculations
   const opportunity: ArbitrageOpportunity = {
-    id: `${event.id}-${marketKey}-${Date.now()}`,
+    id: buildOpportunityId(event.id, marketKey, getOutcomeLegs(bestOddsPerOutcome), { line }),
     sport: event.sport_title,
     match: `${event.home_team} vs ${event.away_team}`,
     bookmakers: bestOddsPerOutcome.map((bet, idx) => {
@@ -240,43 +842,73 @@ export function findBestArbitrage(
 
       // Calculate EV if we have a fair price (requires minimum 3 bookmakers)
       if (fairPrice !== null) {
-        const evCalc = calculateExpectedValue(bet.odds, fairPrice, arbitrageCalc.stakes[idx]);
+        const evCalc = calculateExpectedValue(arbitrageCalc.effectiveOdds[idx], fairPrice, arbitrageCalc.stakes[idx]);
         ev = evCalc.evPercentage;
         evDollars = evCalc.evDollars;
       }
 
       return {
         name: bet.bookmaker,
+        bookmakerKey: bet.bookmakerKey,
         outcome: bet.outcome,
         odds: bet.odds,
+        point: bet.point,
+        commission: bet.commission > 0 ? bet.commission : undefined,
+        effectiveOdds: bet.commission > 0 ? arbitrageCalc.effectiveOdds[idx] : undefined,
         stake: arbitrageCalc.stakes[idx],
         ev,
         evDollars,
+        devigMethod: ev !== undefined ? devigMethod : undefined,
+        lastUpdate: bet.lastUpdate,
+        stale: bet.stale || undefined,
       };
     }),
     profit: arbitrageCalc.profitPercentage,
     timestamp: new Date().toISOString(),
     eventId: event.id,
     commenceTime: event.commence_time,
+    marketType: marketKey as MarketType,
+    hold: calculateMarketHold(arbitrageCalc.effectiveOdds),
+    shapeMismatch: shape.shapeMismatch || undefined,
   };
 
-  return opportunity;
+  return localizeStakes(opportunity, options);
 }
 
 /**
  * Find all arbitrage opportunities from multiple events
+ * 
+ * @param events - Array of events to analyze
+ * @param minProfitPercentage - Minimum profit percentage to include (default: 0)
+ * @param markets - Markets to scan; spreads and totals are scanned line by line
+ * @param options - Scan options passed through to findBestArbitrage
  */
 export function findAllArbitrageOpportunities(
   events: OddsApiEvent[],
-  minProfitPercentage: number = 0
+  minProfitPercentage: number = 0,
+  markets: MarketType[] = ["h2h"],
+  options: ScanOptions = {}
 ): ArbitrageOpportunity[] {
   const opportunities: ArbitrageOpportunity[] = [];
 
   for (const event of events) {
-    // Check h2h (head-to-head) market
-    const h2hArbitrage = findBestArbitrage(event, "h2h");
-    if (h2hArbitrage && h2hArbitrage.profit >= minProfitPercentage) {
-      opportunities.push(h2hArbitrage);
+    for (const marketKey of markets) {
+      if (marketKey === "h2h") {
+        // Check h2h (head-to-head) market
+        const h2hArbitrage = findBestArbitrage(event, "h2h", undefined, options);
+        if (h2hArbitrage && h2hArbitrage.profit >= minProfitPercentage) {
+          opportunities.push(h2hArbitrage);
+        }
+        continue;
+      }
+
+      // Spreads and totals only pair outcomes quoted on the same line
+      for (const line of getMarketLines(event, marketKey)) {
+        const lineArbitrage = findBestArbitrage(event, marketKey, line, options);
+        if (lineArbitrage && lineArbitrage.profit >= minProfitPercentage) {
+          opportunities.push(lineArbitrage);
+        }
+      }
     }
   }
 
@@ -290,26 +922,26 @@ export function findAllArbitrageOpportunities(
  * 
  * @param events - Array of events to analyze
  * @param minEVPercentage - Minimum EV percentage to filter (default: 0)
+ * @param options - Scan options (de-vig method, consensus weighting, sharp-only mode)
  * @returns Array of arbitrage opportunities with positive EV bets
  */
 export function findPositiveEVOpportunities(
   events: OddsApiEvent[],
-  minEVPercentage: number = 0
+  minEVPercentage: number = 0,
+  options: ScanOptions = {}
 ): ArbitrageOpportunity[] {
   const opportunities: ArbitrageOpportunity[] = [];
+  const devigMethod = options.devigMethod ?? "multiplicative";
 
   for (const event of events) {
-    const marketKey = "h2h";
+    const marketKey: MarketType = "h2h";
     const market = event.bookmakers[0]?.markets.find(m => m.key === marketKey);
     if (!market) continue;
 
     const outcomes = market.outcomes.map(o => o.name);
 
-    // Calculate fair prices for each outcome
-    const fairPrices = outcomes.map(outcome => {
-      const allOdds = getAllOddsForOutcome(event, outcome, marketKey);
-      return calculateFairMarketPrice(allOdds);
-    });
+    // Calculate de-vigged fair prices for each outcome
+    const fairPrices = calculateDevigFairPrices(event, marketKey, outcomes, { ...options, devigMethod });
 
     // Check if we have fair prices for all outcomes (need minimum 3 bookmakers)
     if (fairPrices.some(fp => fp === null)) continue;
@@ -317,10 +949,15 @@ export function findPositiveEVOpportunities(
     // Find all bets with positive EV for this event
     const positiveBets: Array<{
       bookmaker: string;
+      bookmakerKey: string;
       outcome: string;
       odds: number;
+      commission: number;
+      effectiveOdds: number;
       ev: number;
       evDollars: number;
+      lastUpdate: string;
+      stale: boolean;
     }> = [];
 
     outcomes.forEach((outcome, outcomeIdx) => {
@@ -335,18 +972,29 @@ export function findPositiveEVOpportunities(
         const outcomeData = market.outcomes.find(o => o.name === outcome);
         if (!outcomeData) continue;
 
-        // Calculate EV for this bet
+        const lastUpdate = getQuoteUpdatedAt(bookmaker, market);
+        const stale = isStaleQuote(lastUpdate, marketKey, options);
+        if (stale && options.staleQuoteMode === "drop") continue;
+
+        // Calculate EV for this bet, net of any commission on winnings
         const defaultStake = 100; // Use a default stake for EV calculation
-        const evCalc = calculateExpectedValue(outcomeData.price, fairPrice, defaultStake);
+        const commission = findBookmakerProfile(options.bookmakerProfiles, bookmaker)?.commission ?? 0;
+        const effectiveOdds = calculateEffectiveOdds(outcomeData.price, commission);
+        const evCalc = calculateExpectedValue(effectiveOdds, fairPrice, defaultStake);
 
         // If EV is positive and meets minimum threshold, add it
         if (evCalc.evPercentage >= minEVPercentage) {
           positiveBets.push({
             bookmaker: bookmaker.title,
+            bookmakerKey: bookmaker.key,
             outcome: outcome,
             odds: outcomeData.price,
+            commission,
+            effectiveOdds,
             ev: evCalc.evPercentage,
             evDollars: evCalc.evDollars,
+            lastUpdate,
+            stale,
           });
         }
       }
@@ -358,24 +1006,32 @@ export function findPositiveEVOpportunities(
       positiveBets.sort((a, b) => b.ev - a.ev);
 
       const opportunity: ArbitrageOpportunity = {
-        id: `${event.id}-${marketKey}-ev-${Date.now()}`,
+        // Legs are ordered by EV for display; the ID uses a fixed order so it survives EV changes
+        id: buildOpportunityId(event.id, marketKey, getOutcomeLegs(positiveBets), { kind: "ev" }),
         sport: event.sport_title,
         match: `${event.home_team} vs ${event.away_team}`,
         bookmakers: positiveBets.map(bet => ({
           name: bet.bookmaker,
+          bookmakerKey: bet.bookmakerKey,
           outcome: bet.outcome,
           odds: bet.odds,
+          commission: bet.commission > 0 ? bet.commission : undefined,
+          effectiveOdds: bet.commission > 0 ? Math.round(bet.effectiveOdds * 10000) / 10000 : undefined,
           stake: 100, // Default stake
           ev: bet.ev,
           evDollars: bet.evDollars,
+          devigMethod,
+          lastUpdate: bet.lastUpdate,
+          stale: bet.stale || undefined,
         })),
         profit: 0, // +EV bets don't have guaranteed profit like arbitrage
         timestamp: new Date().toISOString(),
         eventId: event.id,
         commenceTime: event.commence_time,
+        marketType: marketKey,
       };
 
-      opportunities.push(opportunity);
+      opportunities.push(localizeStakes(opportunity, options));
     }
   }
 
@@ -389,13 +1045,13 @@ export function findPositiveEVOpportunities(
 
 /**
  * Validate arbitrage calculation (for testing)
- * Ensures that all outcomes yield the same profit
+ * Ensures that all outcomes yield the same profit, net of commission
  */
 export function validateArbitrage(opportunity: ArbitrageOpportunity): boolean {
   const totalStake = opportunity.bookmakers.reduce((sum, b) => sum + b.stake, 0);
   
   const profits = opportunity.bookmakers.map(b => {
-    const payout = b.stake * b.odds;
+    const payout = b.stake * calculateEffectiveOdds(b.odds, b.commission);
     return payout - totalStake;
   });
   
@@ -419,6 +1075,85 @@ export function calculateMarketHold(odds: number[]): number {
   return Math.round(hold * 100) / 100;
 }
 
+/**
+ * Hold of every market: the composite of the best price per outcome, and each
+ * bookmaker's own market. Low-hold markets are cheap to wager through for
+ * rollovers and promo conversions even when there is no arb
+ *
+ * @param maxHold - Only keep markets whose composite hold is at or below this %
+ * @param markets - Markets to scan; spreads and totals are scanned line by line
+ * @param options - Scan options (commission, stale quotes, account currencies)
+ * @returns Markets ranked by composite hold, lowest first
+ */
+export function findLowHoldMarkets(
+  events: OddsApiEvent[],
+  maxHold: number = Infinity,
+  markets: MarketType[] = ["h2h"],
+  options: ScanOptions = {}
+): LowHoldMarket[] {
+  const results: LowHoldMarket[] = [];
+
+  for (const event of events) {
+    for (const marketKey of markets) {
+      const lines = marketKey === "h2h" ? [undefined] : getMarketLines(event, marketKey);
+      for (const line of lines) {
+        const shape = getMarketShape(event, marketKey, line);
+        if (!shape.complete) continue;
+
+        const best = findBestPrices(event, marketKey, shape.outcomes, line, options);
+        if (best.some(price => price.odds <= 1)) continue;
+
+        const calc = calculateArbitrage(best, 100);
+        const hold = calculateMarketHold(calc.effectiveOdds);
+        if (hold > maxHold) continue;
+
+        const bookmakerHolds = event.bookmakers
+          .map(bookmaker => {
+            const prices = findBestPrices(event, marketKey, shape.outcomes, line, options, b => b === bookmaker);
+            if (prices.some(price => price.odds <= 1)) return null;
+            return {
+              bookmaker: bookmaker.title,
+              hold: calculateMarketHold(prices.map(price => calculateEffectiveOdds(price.odds, price.commission))),
+            };
+          })
+          .filter((entry): entry is { bookmaker: string; hold: number } => entry !== null)
+          .sort((a, b) => a.hold - b.hold);
+
+        const { bookmakers: legs } = localizeStakes({
+          bookmakers: best.map((price, idx) => ({
+            name: price.bookmaker,
+            bookmakerKey: price.bookmakerKey,
+            outcome: price.outcome,
+            odds: price.odds,
+            point: price.point,
+            commission: price.commission > 0 ? price.commission : undefined,
+            effectiveOdds: price.commission > 0 ? calc.effectiveOdds[idx] : undefined,
+            stake: calc.stakes[idx],
+            lastUpdate: price.lastUpdate,
+            stale: price.stale || undefined,
+          })),
+        }, options);
+
+        results.push({
+          id: buildOpportunityId(event.id, marketKey, getOutcomeLegs(best), { line, kind: "low_hold" }),
+          eventId: event.id,
+          sport: event.sport_title,
+          match: `${event.home_team} vs ${event.away_team}`,
+          commenceTime: event.commence_time,
+          marketType: marketKey,
+          line,
+          hold,
+          legs,
+          bookmakerHolds,
+          shapeMismatch: shape.shapeMismatch || undefined,
+        });
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.hold - b.hold);
+}
+
 /**
  * Task 5: Find Middle Opportunities
  * A middle exists when there's a gap between lines where both bets can win
@@ -426,9 +1161,10 @@ export function calculateMarketHold(odds: number[]): number {
  * For totals: Over 45.5 at one book, Under 47.5 at another (win if total is 46 or 47)
  * 
  * @param events - Array of events to analyze
+ * @param options - Bookmaker profiles and FX rates for account-currency stakes
  * @returns Array of middle opportunities
  */
-export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
+export function findMiddles(events: OddsApiEvent[], options: ScanOptions = {}): ArbitrageOpportunity[] {
   const middles: ArbitrageOpportunity[] = [];
 
   for (const event of events) {
@@ -439,8 +1175,8 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
       const outcome2 = spreadsMarket.outcomes[1].name;
 
       // Find best spread lines for each team
-      let bestSpread1 = { bookmaker: '', odds: 0, line: 0 };
-      let bestSpread2 = { bookmaker: '', odds: 0, line: 0 };
+      let bestSpread1 = { bookmaker: '', bookmakerKey: '', odds: 0, line: 0 };
+      let bestSpread2 = { bookmaker: '', bookmakerKey: '', odds: 0, line: 0 };
 
       for (const bookmaker of event.bookmakers) {
         const market = bookmaker.markets.find(m => m.key === 'spreads');
@@ -452,15 +1188,17 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
         if (out1 && out1.price > bestSpread1.odds) {
           bestSpread1 = { 
             bookmaker: bookmaker.title, 
+            bookmakerKey: bookmaker.key,
             odds: out1.price,
-            line: parseFloat((out1 as any).point || '0')
+            line: out1.point ?? 0
           };
         }
         if (out2 && out2.price > bestSpread2.odds) {
           bestSpread2 = { 
             bookmaker: bookmaker.title, 
+            bookmakerKey: bookmaker.key,
             odds: out2.price,
-            line: parseFloat((out2 as any).point || '0')
+            line: out2.point ?? 0
           };
         }
       }
@@ -475,20 +1213,24 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
         ]);
 
         middles.push({
-          id: `${event.id}-spreads-middle-${Date.now()}`,
+          id: buildOpportunityId(event.id, "spreads", [bestSpread1, bestSpread2].map(b => ({ bookmaker: b.bookmaker, point: b.line })), { kind: "middle" }),
           sport: event.sport_title,
           match: `${event.home_team} vs ${event.away_team}`,
           bookmakers: [
             {
               name: bestSpread1.bookmaker,
-              outcome: `${outcome1} ${bestSpread1.line >= 0 ? '+' : ''}${bestSpread1.line}`,
+              bookmakerKey: bestSpread1.bookmakerKey,
+              outcome: outcome1,
               odds: bestSpread1.odds,
+              point: bestSpread1.line,
               stake: arbitrageCalc.stakes[0]
             },
             {
               name: bestSpread2.bookmaker,
-              outcome: `${outcome2} ${bestSpread2.line >= 0 ? '+' : ''}${bestSpread2.line}`,
+              bookmakerKey: bestSpread2.bookmakerKey,
+              outcome: outcome2,
               odds: bestSpread2.odds,
+              point: bestSpread2.line,
               stake: arbitrageCalc.stakes[1]
             }
           ],
@@ -511,8 +1253,8 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
     // Check totals market for middles
     const totalsMarket = event.bookmakers[0]?.markets.find(m => m.key === 'totals');
     if (totalsMarket && totalsMarket.outcomes.length >= 2) {
-      let bestOver = { bookmaker: '', odds: 0, line: 0 };
-      let bestUnder = { bookmaker: '', odds: 0, line: 0 };
+      let bestOver = { bookmaker: '', bookmakerKey: '', odds: 0, line: 0 };
+      let bestUnder = { bookmaker: '', bookmakerKey: '', odds: 0, line: 0 };
 
       for (const bookmaker of event.bookmakers) {
         const market = bookmaker.markets.find(m => m.key === 'totals');
@@ -524,15 +1266,17 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
         if (over && over.price > bestOver.odds) {
           bestOver = { 
             bookmaker: bookmaker.title, 
+            bookmakerKey: bookmaker.key,
             odds: over.price,
-            line: parseFloat((over as any).point || '0')
+            line: over.point ?? 0
           };
         }
         if (under && under.price > bestUnder.odds) {
           bestUnder = { 
             bookmaker: bookmaker.title, 
+            bookmakerKey: bookmaker.key,
             odds: under.price,
-            line: parseFloat((under as any).point || '0')
+            line: under.point ?? 0
           };
         }
       }
@@ -551,20 +1295,24 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
         }
 
         middles.push({
-          id: `${event.id}-totals-middle-${Date.now()}`,
+          id: buildOpportunityId(event.id, "totals", [bestOver, bestUnder].map(b => ({ bookmaker: b.bookmaker, point: b.line })), { kind: "middle" }),
           sport: event.sport_title,
           match: `${event.home_team} vs ${event.away_team}`,
           bookmakers: [
             {
               name: bestOver.bookmaker,
-              outcome: `Over ${bestOver.line}`,
+              bookmakerKey: bestOver.bookmakerKey,
+              outcome: 'Over',
               odds: bestOver.odds,
+              point: bestOver.line,
               stake: arbitrageCalc.stakes[0]
             },
             {
               name: bestUnder.bookmaker,
-              outcome: `Under ${bestUnder.line}`,
+              bookmakerKey: bestUnder.bookmakerKey,
+              outcome: 'Under',
               odds: bestUnder.odds,
+              point: bestUnder.line,
               stake: arbitrageCalc.stakes[1]
             }
           ],
@@ -585,5 +1333,176 @@ export function findMiddles(events: OddsApiEvent[]): ArbitrageOpportunity[] {
     }
   }
 
-  return middles.sort((a, b) => b.profit - a.profit);
+  return middles.map(middle => localizeStakes(middle, options)).sort((a, b) => b.profit - a.profit);
+}
+
+// ============================================================================
+// BACK/LAY MATCHED BETTING
+// A sportsbook back bet is covered by laying the same outcome at an exchange
+// ============================================================================
+
+export interface LayCalculation {
+  backStake: number;
+  layStake: number; // Backer's stake matched by the lay
+  liability: number; // Paid out by the lay if the outcome wins
+  backWinProfit: number; // Outcome wins: back pays, lay loses its liability
+  layWinProfit: number; // Outcome loses: lay wins net of commission, back stake is lost
+  liquidityCapped: boolean;
+}
+
+/**
+ * Size a lay against a back bet
+ * normal:   L = S * bo / (lo - c), the same result whichever way it goes
+ * underlay: L = S * (bo - 1) / (lo - 1), lay less: break even if the back wins
+ * overlay:  L = S / (1 - c), lay more: break even if the lay wins
+ * When the lay is larger than the liquidity at the lay price, both stakes are
+ * scaled down so the lay fits
+ *
+ * @param backOdds - Back odds (net of any commission at the back bookmaker)
+ * @param layCommission - Exchange commission % on net winnings
+ * @param liquidity - Backer's stake available at the lay price (default: unlimited)
+ */
+export function calculateLayStake(
+  backStake: number,
+  backOdds: number,
+  layOdds: number,
+  layCommission: number = 0,
+  mode: LayMode = "normal",
+  liquidity?: number
+): LayCalculation {
+  const c = layCommission / 100;
+  let stake = backStake;
+  let layStake =
+    mode === "underlay" ? (stake * (backOdds - 1)) / (layOdds - 1)
+    : mode === "overlay" ? stake / (1 - c)
+    : (stake * backOdds) / (layOdds - c);
+
+  const liquidityCapped = liquidity !== undefined && layStake > liquidity;
+  if (liquidityCapped) {
+    stake = (stake * liquidity) / layStake;
+    layStake = liquidity;
+  }
+
+  const liability = layStake * (layOdds - 1);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    backStake: round(stake),
+    layStake: round(layStake),
+    liability: round(liability),
+    backWinProfit: round(stake * (backOdds - 1) - liability),
+    layWinProfit: round(layStake * (1 - c) - stake),
+    liquidityCapped,
+  };
+}
+
+/**
+ * Pair sportsbook back prices with exchange lay prices
+ * For each outcome, every exchange quoting a lay price is matched with the best
+ * back price at any other bookmaker; the pairing that loses least on a normal
+ * lay is kept
+ *
+ * @param backStake - Back stake to size lays for (cut down to the lay liquidity)
+ * @param markets - Markets to scan; spreads and totals are scanned line by line
+ * @param options - Scan options (exchange commission, stale quotes, account currencies)
+ * @returns Back/lay pairs ranked by rating, best first
+ */
+export function findBackLayOpportunities(
+  events: OddsApiEvent[],
+  backStake: number = 100,
+  markets: MarketType[] = ["h2h"],
+  options: ScanOptions = {}
+): BackLayOpportunity[] {
+  const opportunities: BackLayOpportunity[] = [];
+
+  for (const event of events) {
+    for (const marketKey of markets) {
+      const lines = marketKey === "h2h" ? [undefined] : getMarketLines(event, marketKey);
+      for (const line of lines) {
+        const { outcomes } = getMarketShape(event, marketKey, line);
+
+        for (const outcome of outcomes) {
+          let best: BackLayOpportunity | null = null;
+
+          for (const exchange of event.bookmakers) {
+            const market = exchange.markets.find(m => m.key === marketKey);
+            const layQuote = market?.outcomes.find(
+              o => o.name === outcome && o.lay_price !== undefined && o.lay_price > 1 && matchesLine(event, marketKey, o, line)
+            );
+            if (!market || !layQuote) continue;
+
+            const layUpdate = getQuoteUpdatedAt(exchange, market);
+            const layStale = isStaleQuote(layUpdate, marketKey, options);
+            if (layStale && options.staleQuoteMode === "drop") continue;
+
+            const [back] = findBestPrices(event, marketKey, [outcome], line, options, b => b !== exchange);
+            if (back.odds <= 1) continue;
+
+            const layOdds = layQuote.lay_price!;
+            const layCommission = findBookmakerProfile(options.bookmakerProfiles, exchange)?.commission ?? 0;
+            const backOdds = calculateEffectiveOdds(back.odds, back.commission);
+            const calc = calculateLayStake(backStake, backOdds, layOdds, layCommission, "normal", layQuote.lay_liquidity);
+            // Rated per 100 staked so liquidity caps do not change the ranking
+            const unit = calculateLayStake(100, backOdds, layOdds, layCommission);
+            const rating = Math.round((100 + Math.min(unit.backWinProfit, unit.layWinProfit)) * 100) / 100;
+            if (best && rating <= best.rating) continue;
+
+            const [backLeg, layLeg] = localizeStakes({
+              bookmakers: [
+                {
+                  name: back.bookmaker,
+                  bookmakerKey: back.bookmakerKey,
+                  outcome,
+                  odds: back.odds,
+                  point: back.point,
+                  commission: back.commission > 0 ? back.commission : undefined,
+                  effectiveOdds: back.commission > 0 ? backOdds : undefined,
+                  stake: calc.backStake,
+                  lastUpdate: back.lastUpdate,
+                  stale: back.stale || undefined,
+                },
+                {
+                  name: exchange.title,
+                  bookmakerKey: exchange.key,
+                  outcome,
+                  odds: layOdds,
+                  point: layQuote.point,
+                  commission: layCommission > 0 ? layCommission : undefined,
+                  stake: calc.layStake,
+                  lastUpdate: layUpdate,
+                  stale: layStale || undefined,
+                },
+              ],
+            }, options).bookmakers;
+
+            best = {
+              id: buildOpportunityId(
+                event.id,
+                marketKey,
+                [{ bookmaker: `${outcome} ${back.bookmaker}` }, { bookmaker: `${outcome} ${exchange.title} lay` }],
+                { line, kind: "back_lay" }
+              ),
+              eventId: event.id,
+              sport: event.sport_title,
+              match: `${event.home_team} vs ${event.away_team}`,
+              commenceTime: event.commence_time,
+              marketType: marketKey,
+              outcome,
+              point: back.point,
+              back: backLeg,
+              lay: { ...layLeg, liability: calc.liability, liquidity: layQuote.lay_liquidity },
+              backWinProfit: calc.backWinProfit,
+              layWinProfit: calc.layWinProfit,
+              rating,
+              liquidityCapped: calc.liquidityCapped,
+            };
+          }
+
+          if (best) opportunities.push(best);
+        }
+      }
+    }
+  }
+
+  return opportunities.sort((a, b) => b.rating - a.rating);
 }
@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildReplayEvent, downsample, getBacktestWindow, getKnownResults, runBacktest } from './backtest';
+import type { Bet, HistoricalOdds } from '@shared/schema';
+
+// ============================================================================
+// BACKTEST TESTS
+// ============================================================================
+
+describe('Backtest', () => {
+  const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 12, minutes)).toISOString();
+
+  const price = (bookmaker: string, outcome: string, odds: number, timestamp: string, point?: number): HistoricalOdds => ({
+    id: `${bookmaker}-${outcome}-${point ?? ''}-${timestamp}`,
+    eventId: 'event_1',
+    bookmaker,
+    outcome,
+    odds,
+    point,
+    timestamp,
+    marketType: point === undefined ? 'h2h' : 'totals',
+  });
+
+  // FanDuel's Warriors price opens an arb for 10 minutes
+  const history = [
+    price('DraftKings', 'Lakers', 1.95, at(0)),
+    price('DraftKings', 'Warriors', 1.9, at(0)),
+    price('FanDuel', 'Lakers', 1.9, at(0)),
+    price('FanDuel', 'Warriors', 1.95, at(0)),
+    price('FanDuel', 'Warriors', 2.2, at(5)),
+    price('FanDuel', 'Warriors', 1.95, at(15)),
+  ];
+
+  it('should rebuild events from the latest price on the current line', () => {
+    const event = buildReplayEvent('event_1', [
+      price('DraftKings', 'Over', 1.9, at(0), 220.5),
+      price('DraftKings', 'Under', 1.9, at(0), 220.5),
+      price('DraftKings', 'Over', 1.95, at(5), 221.5),
+      price('DraftKings', 'Under', 1.85, at(5), 221.5),
+      price('DraftKings', 'Lakers', 2.0, at(1)),
+      price('DraftKings', 'Warriors', 1.8, at(1)),
+    ]);
+
+    const totals = event.bookmakers[0].markets.find(m => m.key === 'totals')!;
+    expect(totals.outcomes.map(o => o.point)).toEqual([221.5, 221.5]);
+    expect(totals.last_update).toBe(at(5));
+    expect(event.home_team).toBe('Lakers');
+    expect(event.away_team).toBe('Warriors');
+  });
+
+  it('should bet each opportunity once and report how long it lasted', () => {
+    const result = runBacktest(history, { strategies: ['arbitrage'], stake: 100 });
+
+    expect(result.scans).toBe(3);
+    expect(result.scansWithOpportunities).toBe(1);
+    expect(result.opportunities).toBe(1);
+    expect(result.averageLifetimeMinutes).toBe(10);
+
+    expect(result.bets).toHaveLength(1);
+    expect(result.bets[0]).toMatchObject({ strategy: 'arbitrage', placedAt: at(5), stake: 100, settled: false });
+    expect(result.bets[0].legs.map(leg => leg.name).sort()).toEqual(['DraftKings', 'FanDuel']);
+    expect(result.summary.pnl).toBeCloseTo(3.38, 1);
+    expect(result.summary.roi).toBeCloseTo(3.38, 1);
+    expect(result.summary.maxDrawdown).toBe(0);
+  });
+
+  it('should still quote prices that have not changed for longer than the max quote age', () => {
+    // DraftKings' Lakers price was recorded 5 minutes before the arb opened
+    const result = runBacktest(history, { strategies: ['arbitrage'], maxQuoteAge: { h2h: 1 } });
+
+    expect(result.bets).toHaveLength(1);
+    expect(result.bets[0].placedAt).toBe(at(5));
+  });
+
+  it('should only scan the allowed bookmakers and the replay window', () => {
+    expect(runBacktest(history, { strategies: ['arbitrage'], bookmakers: ['DraftKings'] }).bets).toHaveLength(0);
+    expect(runBacktest(history, { strategies: ['arbitrage'], from: new Date(at(10)) }).bets).toHaveLength(0);
+    expect(runBacktest(history, { strategies: ['arbitrage'], to: new Date(at(1)) }).bets).toHaveLength(0);
+  });
+
+  it('should load history from the day before the replay window', () => {
+    const window = getBacktestWindow(undefined, new Date(at(0)));
+
+    expect(window.to.toISOString()).toBe(at(0));
+    expect(window.from.toISOString()).toBe(new Date(Date.UTC(2024, 11, 2, 12, 0)).toISOString());
+    expect(window.historyStart.toISOString()).toBe(new Date(Date.UTC(2024, 11, 1, 12, 0)).toISOString());
+  });
+
+  it('should thin long equity curves to evenly spaced points ending at the last', () => {
+    const points = Array.from({ length: 1200 }, (_, index) => index);
+    const thinned = downsample(points, 500);
+
+    expect(thinned.length).toBeLessThanOrEqual(500);
+    expect(thinned[thinned.length - 1]).toBe(1199);
+    expect(thinned[1] - thinned[0]).toBe(3);
+    expect(downsample([1, 2, 3], 500)).toEqual([1, 2, 3]);
+  });
+
+  it('should settle bets from stored single-leg results', () => {
+    const createBet = (outcome: string, status: Bet['status'], legs = 1): Bet => ({
+      id: outcome,
+      eventId: 'event_1',
+      sport: 'NBA',
+      match: 'Lakers vs Warriors',
+      bookmakers: Array.from({ length: legs }, () => ({ name: 'DraftKings', outcome, odds: 2.0, stake: 10 })),
+      status,
+      profit: 0,
+      timestamp: at(0),
+    });
+
+    const results = getKnownResults([
+      createBet('Lakers', 'lost'),
+      createBet('Warriors', 'won'),
+      createBet('Draw', 'won', 2),
+    ]);
+    expect(results.size).toBe(2);
+
+    const result = runBacktest(history, { strategies: ['arbitrage'], stake: 100 }, [], results);
+    const [bet] = result.bets;
+    const warriors = bet.legs.find(leg => leg.outcome === 'Warriors')!;
+
+    expect(bet.settled).toBe(true);
+    expect(bet.profit).toBeCloseTo(warriors.stake * 2.2 - 100, 2);
+    expect(result.summary.settledBets).toBe(1);
+  });
+});
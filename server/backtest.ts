@@ -0,0 +1,391 @@
+import type {
+  ArbitrageOpportunity,
+  BacktestBet,
+  BacktestResult,
+  BacktestStrategy,
+  Bet,
+  Event,
+  HistoricalOdds,
+  MarketType,
+  OddsApiBookmaker,
+  OddsApiEvent,
+} from "@shared/schema";
+import {
+  buildOpportunityId,
+  findAllArbitrageOpportunities,
+  findMiddles,
+  findPositiveEVOpportunities,
+  type ScanOptions,
+} from "./arbitrage-engine";
+import { getSnapshotKey } from "./odds-history";
+
+// ============================================================================
+// BACKTESTING
+// Recorded odds snapshots are replayed in time order: after each update the
+// changed events are rebuilt from the latest prices and run through the
+// scanners, and every opportunity is bet once, when it first appears
+// ============================================================================
+
+export interface BacktestOptions extends ScanOptions {
+  from?: Date;
+  to?: Date;
+  strategies?: BacktestStrategy[];
+  minProfit?: number;
+  minEV?: number;
+  bookmakers?: string[]; // Allowed bookmaker titles or keys (default: all)
+  markets?: MarketType[];
+  stake?: number; // Total stake per simulated bet
+}
+
+export type EventDetails = Pick<Event, "eventId" | "sportKey" | "sportTitle" | "homeTeam" | "awayTeam" | "commenceTime">;
+
+// Outcome results keyed by event, outcome and line: true when it won
+export type KnownResults = Map<string, boolean>;
+
+interface ActiveOpportunity {
+  eventId: string;
+  firstSeen: number;
+}
+
+const DEFAULT_STRATEGIES: BacktestStrategy[] = ["arbitrage", "middles", "positive_ev"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+const MAX_RESULT_BETS = 500; // Latest bets returned; the summary counts them all
+const MAX_CURVE_POINTS = 500;
+
+const getResultKey = (eventId: string, outcome: string, point?: number) => [eventId, outcome, point ?? ""].join("|");
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "_");
+
+/**
+ * Replay window of a backtest, and where to start loading history
+ * Prices recorded in the day before the window seed the events it starts with
+ */
+export function getBacktestWindow(from?: Date, to?: Date, now = new Date()) {
+  const end = to ?? now;
+  const start = from ?? new Date(end.getTime() - DEFAULT_DAYS * DAY_MS);
+  return { from: start, to: end, historyStart: new Date(start.getTime() - DAY_MS) };
+}
+
+/**
+ * Evenly spaced points of a series, at most `max`, always keeping the last
+ */
+export function downsample<T>(points: T[], max: number = MAX_CURVE_POINTS): T[] {
+  if (points.length <= max) return points;
+  const step = Math.ceil(points.length / max);
+  const last = points.length - 1;
+  return points.filter((_, index) => (last - index) % step === 0);
+}
+
+/**
+ * Outcome results known from settled single-leg bets
+ * Multi-leg bets are skipped: their status does not say which leg won
+ */
+export function getKnownResults(bets: Bet[]): KnownResults {
+  const results: KnownResults = new Map();
+  for (const bet of bets) {
+    if (bet.status === "pending" || bet.bookmakers.length !== 1) continue;
+    const [leg] = bet.bookmakers;
+    results.set(getResultKey(bet.eventId, leg.outcome, leg.point), bet.status === "won");
+  }
+  return results;
+}
+
+/**
+ * Rebuild a provider event from the latest recorded prices
+ * Each market keeps only the line its most recent price change was on. History
+ * only records changes, so every price is dated at the scan (default: the
+ * latest change) - an unchanged price was still being quoted
+ */
+export function buildReplayEvent(
+  eventId: string,
+  prices: HistoricalOdds[],
+  details?: EventDetails,
+  scannedAt?: string
+): OddsApiEvent {
+  const bookmakers = new Map<string, OddsApiBookmaker>();
+  const latest = [...prices].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const lastUpdate = scannedAt ?? latest[0]?.timestamp;
+
+  for (const odds of latest) {
+    if (!odds.marketType) continue;
+
+    let bookmaker = bookmakers.get(odds.bookmaker);
+    if (!bookmaker) {
+      bookmaker = { key: slugify(odds.bookmaker), title: odds.bookmaker, last_update: lastUpdate, markets: [] };
+      bookmakers.set(odds.bookmaker, bookmaker);
+    }
+
+    let market = bookmaker.markets.find(m => m.key === odds.marketType);
+    if (!market) {
+      market = { key: odds.marketType, last_update: lastUpdate, outcomes: [] };
+      bookmaker.markets.push(market);
+    }
+
+    // Older lines of a moved spread or total are no longer offered
+    const line = market.outcomes[0]?.point;
+    const onLine = odds.marketType === "spreads"
+      ? line === undefined || Math.abs(odds.point ?? 0) === Math.abs(line)
+      : line === odds.point || market.outcomes.length === 0;
+    if (onLine && !market.outcomes.some(o => o.name === odds.outcome && o.point === odds.point)) {
+      market.outcomes.push({ name: odds.outcome, price: odds.odds, point: odds.point });
+    }
+  }
+
+  // Without stored details, the teams are the non-draw moneyline outcomes
+  const teams = latest
+    .filter(odds => odds.marketType === "h2h" && odds.outcome !== "Draw")
+    .map(odds => odds.outcome)
+    .filter((team, index, all) => all.indexOf(team) === index);
+
+  return {
+    id: eventId,
+    sport_key: details?.sportKey ?? "unknown",
+    sport_title: details?.sportTitle ?? "Unknown",
+    commence_time: details?.commenceTime ?? latest[0]?.timestamp ?? new Date(0).toISOString(),
+    home_team: details?.homeTeam ?? teams[0] ?? "Home",
+    away_team: details?.awayTeam ?? teams[1] ?? "Away",
+    bookmakers: Array.from(bookmakers.values()),
+  };
+}
+
+/**
+ * Profit of the legs from stored results, when every leg has one
+ */
+function settleLegs(eventId: string, legs: BacktestBet["legs"], results: KnownResults): number | null {
+  let profit = 0;
+  for (const leg of legs) {
+    const won = results.get(getResultKey(eventId, leg.outcome, leg.point));
+    if (won === undefined) return null;
+    profit += won ? leg.stake * ((leg.effectiveOdds ?? leg.odds) - 1) : -leg.stake;
+  }
+  return profit;
+}
+
+/**
+ * Simulated bets for a newly seen opportunity, sized to the backtest stake
+ * +EV opportunities are one bet per leg, keyed by outcome and bookmaker so a
+ * leg joining or leaving the opportunity does not bet the others again
+ */
+function simulateBets(
+  opportunity: ArbitrageOpportunity,
+  strategy: BacktestStrategy,
+  placedAt: string,
+  stake: number,
+  results: KnownResults
+): BacktestBet[] {
+  const eventId = opportunity.eventId!;
+  const base = {
+    strategy,
+    eventId,
+    match: opportunity.match,
+    marketType: opportunity.marketType,
+    placedAt,
+    stake,
+  };
+
+  if (strategy === "positive_ev") {
+    return opportunity.bookmakers.map(leg => {
+      const legs = [{ ...leg, stake, localStake: undefined }];
+      const expectedProfit = roundCents(stake * (leg.ev ?? 0) / 100);
+      const settled = settleLegs(eventId, legs, results);
+      return {
+        ...base,
+        id: buildOpportunityId(eventId, opportunity.marketType ?? "h2h", [{ bookmaker: `${leg.outcome} ${leg.name}` }], { kind: "ev" }),
+        legs,
+        expectedProfit,
+        profit: settled !== null ? roundCents(settled) : expectedProfit,
+        settled: settled !== null,
+      };
+    });
+  }
+
+  const total = opportunity.bookmakers.reduce((sum, leg) => sum + leg.stake, 0);
+  const legs = opportunity.bookmakers.map(leg => ({
+    ...leg,
+    stake: roundCents(leg.stake * stake / total),
+    localStake: undefined,
+  }));
+  const expectedProfit = roundCents(stake * opportunity.profit / 100);
+  const settled = settleLegs(eventId, legs, results);
+
+  return [{
+    ...base,
+    id: opportunity.id,
+    legs,
+    expectedProfit,
+    profit: settled !== null ? roundCents(settled) : expectedProfit,
+    settled: settled !== null,
+  }];
+}
+
+/**
+ * Replay recorded odds through the scanners and simulate betting every
+ * opportunity once
+ *
+ * @param history - Odds history, oldest first; snapshots before `from` only seed prices
+ * @param details - Stored event details, for teams, sport and commence time
+ * @param results - Known outcome results; other bets count their expected profit
+ */
+export function runBacktest(
+  history: HistoricalOdds[],
+  options: BacktestOptions = {},
+  details: EventDetails[] = [],
+  results: KnownResults = new Map()
+): BacktestResult {
+  const strategies = options.strategies ?? DEFAULT_STRATEGIES;
+  const stake = options.stake ?? 100;
+  const from = options.from?.getTime() ?? -Infinity;
+  const to = options.to?.getTime() ?? Infinity;
+  const allowed = options.bookmakers?.map(name => name.toLowerCase());
+  const detailsById = new Map(details.map(event => [event.eventId, event]));
+
+  const prices = new Map<string, Map<string, HistoricalOdds>>();
+  const steps = new Map<string, HistoricalOdds[]>();
+  for (const odds of history) {
+    const time = new Date(odds.timestamp).getTime();
+    if (time > to) continue;
+    const rows = steps.get(odds.timestamp);
+    if (rows) rows.push(odds);
+    else steps.set(odds.timestamp, [odds]);
+  }
+
+  const active = new Map<string, ActiveOpportunity>();
+  const seen = new Set<string>();
+  const lifetimes: number[] = [];
+  const bets: BacktestBet[] = [];
+  let scans = 0;
+  let scansWithOpportunities = 0;
+  let firstScan: string | undefined;
+  let lastScan: string | undefined;
+
+  const close = (id: string, end: number) => {
+    const opportunity = active.get(id)!;
+    const commence = detailsById.get(opportunity.eventId)?.commenceTime;
+    const until = commence ? Math.min(end, new Date(commence).getTime()) : end;
+    lifetimes.push(Math.max(0, until - opportunity.firstSeen));
+    active.delete(id);
+  };
+
+  const timestamps = Array.from(steps.keys()).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  for (const timestamp of timestamps) {
+    const rows = steps.get(timestamp)!;
+    for (const odds of rows) {
+      const eventPrices = prices.get(odds.eventId) ?? new Map<string, HistoricalOdds>();
+      eventPrices.set(getSnapshotKey(odds), odds);
+      prices.set(odds.eventId, eventPrices);
+    }
+
+    const now = new Date(timestamp);
+    if (now.getTime() < from) continue;
+
+    const events = Array.from(new Set(rows.map(odds => odds.eventId)))
+      .filter(eventId => {
+        const commence = detailsById.get(eventId)?.commenceTime;
+        return !commence || new Date(commence) > now;
+      })
+      .map(eventId => {
+        const event = buildReplayEvent(eventId, Array.from(prices.get(eventId)!.values()), detailsById.get(eventId), timestamp);
+        return allowed
+          ? { ...event, bookmakers: event.bookmakers.filter(b => allowed.includes(b.title.toLowerCase()) || allowed.includes(b.key)) }
+          : event;
+      });
+    if (events.length === 0) continue;
+
+    scans++;
+    firstScan = firstScan ?? timestamp;
+    lastScan = timestamp;
+
+    const scanOptions: ScanOptions = { ...options, now };
+    const found: [BacktestStrategy, ArbitrageOpportunity][] = [];
+    if (strategies.includes("arbitrage")) {
+      findAllArbitrageOpportunities(events, options.minProfit ?? 0, options.markets, scanOptions)
+        .forEach(opportunity => found.push(["arbitrage", opportunity]));
+    }
+    if (strategies.includes("middles")) {
+      findMiddles(events, scanOptions).forEach(opportunity => found.push(["middles", opportunity]));
+    }
+    if (strategies.includes("positive_ev")) {
+      findPositiveEVOpportunities(events, options.minEV ?? 0, scanOptions)
+        .forEach(opportunity => found.push(["positive_ev", opportunity]));
+    }
+    if (found.length > 0) scansWithOpportunities++;
+
+    // Opportunities on rescanned events that were not found again have gone
+    const foundIds = new Set(found.map(([, opportunity]) => opportunity.id));
+    const scanned = new Set(events.map(event => event.id));
+    active.forEach((opportunity, id) => {
+      if (scanned.has(opportunity.eventId) && !foundIds.has(id)) close(id, now.getTime());
+    });
+
+    for (const [strategy, opportunity] of found) {
+      if (!active.has(opportunity.id)) {
+        active.set(opportunity.id, { eventId: opportunity.eventId!, firstSeen: now.getTime() });
+      }
+      for (const bet of simulateBets(opportunity, strategy, timestamp, stake, results)) {
+        if (seen.has(bet.id)) continue;
+        seen.add(bet.id);
+        bets.push(bet);
+      }
+    }
+  }
+
+  const opportunities = active.size + lifetimes.length;
+  if (lastScan) {
+    const end = new Date(lastScan).getTime();
+    Array.from(active.keys()).forEach(id => close(id, end));
+  }
+
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const equityCurve = bets.map(bet => {
+    cumulative += bet.profit;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+    return { timestamp: bet.placedAt, pnl: roundCents(cumulative) };
+  });
+
+  const summarize = (subset: BacktestBet[]) => {
+    const staked = subset.reduce((sum, bet) => sum + bet.stake, 0);
+    const pnl = subset.reduce((sum, bet) => sum + bet.profit, 0);
+    return {
+      bets: subset.length,
+      pnl: roundCents(pnl),
+      roi: staked > 0 ? roundCents((pnl / staked) * 100) : 0,
+      staked,
+    };
+  };
+
+  const total = summarize(bets);
+  const spanDays = firstScan && lastScan
+    ? Math.max(new Date(lastScan).getTime() - new Date(firstScan).getTime(), DAY_MS) / DAY_MS
+    : 1;
+
+  return {
+    from: firstScan,
+    to: lastScan,
+    scans,
+    scansWithOpportunities,
+    opportunities,
+    opportunitiesPerDay: roundCents(opportunities / spanDays),
+    averageLifetimeMinutes: lifetimes.length > 0
+      ? roundCents(lifetimes.reduce((sum, ms) => sum + ms, 0) / lifetimes.length / 60000)
+      : 0,
+    bets: bets.slice(-MAX_RESULT_BETS),
+    summary: {
+      bets: total.bets,
+      settledBets: bets.filter(bet => bet.settled).length,
+      totalStaked: roundCents(total.staked),
+      pnl: total.pnl,
+      roi: total.roi,
+      maxDrawdown: roundCents(maxDrawdown),
+    },
+    byStrategy: strategies.map(strategy => {
+      const { bets: count, pnl, roi } = summarize(bets.filter(bet => bet.strategy === strategy));
+      return { strategy, bets: count, pnl, roi };
+    }),
+    equityCurve: downsample(equityCurve),
+  };
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from '@jest/globals';
+import { ClosingLineJob, calculateClosingLine, calculateConsensusOdds, getClosingPrices } from './closing-line';
+import type { Bet, Event, HistoricalOdds, OddsApiEvent, Settings } from '@shared/schema';
+
+// ============================================================================
+// CLOSING LINE TESTS
+// ============================================================================
+
+describe('Closing Line', () => {
+  const commenceTime = new Date(Date.UTC(2025, 0, 1, 20, 0)).toISOString();
+  const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 19, 60 + minutes)).toISOString();
+
+  const snapshot = (bookmaker: string, outcome: string, odds: number, timestamp: string): HistoricalOdds => ({
+    id: `${bookmaker}-${outcome}-${timestamp}`,
+    eventId: 'event_1',
+    bookmaker,
+    outcome,
+    odds,
+    timestamp,
+    marketType: 'h2h',
+  });
+
+  const history = [
+    snapshot('DraftKings', 'Lakers', 2.2, at(-60)),
+    snapshot('DraftKings', 'Warriors', 1.7, at(-60)),
+    snapshot('DraftKings', 'Lakers', 2.0, at(-5)),
+    snapshot('DraftKings', 'Warriors', 1.85, at(-5)),
+    snapshot('FanDuel', 'Lakers', 1.95, at(-30)),
+    snapshot('FanDuel', 'Warriors', 1.9, at(-30)),
+    // In-play prices after commence are not the close
+    snapshot('DraftKings', 'Lakers', 3.5, at(30)),
+  ];
+
+  const bet: Bet = {
+    id: '1',
+    eventId: 'event_1',
+    sport: 'NBA',
+    match: 'Lakers vs Warriors',
+    bookmakers: [{ name: 'DraftKings', outcome: 'Lakers', odds: 2.2, stake: 100 }],
+    status: 'pending',
+    profit: 0,
+    timestamp: at(-60),
+  };
+
+  it('should take the last price of each line at or before commence', () => {
+    const closing = getClosingPrices(history, commenceTime);
+
+    expect(closing).toHaveLength(4);
+    expect(closing.find(o => o.bookmaker === 'DraftKings' && o.outcome === 'Lakers')?.odds).toBe(2.0);
+  });
+
+  it('should average the de-vigged close of every bookmaker into a consensus price', () => {
+    const closing = getClosingPrices(history, commenceTime);
+    const consensus = calculateConsensusOdds(closing, { outcome: 'Lakers' })!;
+
+    // DraftKings 48.05% and FanDuel 49.35% fair
+    expect(consensus).toBeCloseTo(2.053, 3);
+  });
+
+  it('should write the same-bookmaker close and CLV per leg and per bet', () => {
+    const result = calculateClosingLine(
+      {
+        bookmakers: [
+          ...bet.bookmakers,
+          { name: 'FanDuel', outcome: 'Warriors', odds: 1.9, stake: 300 },
+        ],
+      },
+      history,
+      commenceTime
+    )!;
+
+    expect(result.closingOdds[0]).toMatchObject({ bookmaker: 'DraftKings', outcome: 'Lakers', odds: 2.0, clv: 7.16 });
+    expect(result.closingOdds[0].consensusOdds).toBeCloseTo(2.053, 3);
+    expect(result.closingOdds[1]).toMatchObject({ bookmaker: 'FanDuel', outcome: 'Warriors', odds: 1.9 });
+    expect(result.clv).toBeCloseTo((7.16 * 100 + result.closingOdds[1].clv! * 300) / 400, 2);
+  });
+
+  it('should skip bets whose bookmakers never closed the line', () => {
+    const result = calculateClosingLine(
+      { bookmakers: [{ name: 'Caesars', outcome: 'Lakers', odds: 2.1, stake: 100 }] },
+      history,
+      commenceTime
+    );
+
+    expect(result).toBeNull();
+  });
+
+  describe('ClosingLineJob', () => {
+    const createJob = (bets: Bet[], event: Partial<Event> | undefined, fetched: OddsApiEvent[] = []) => {
+      const updates: { id: string; updates: Partial<Bet> }[] = [];
+      const fetches: string[][] = [];
+      const fetchedMarkets: string[][] = [];
+      const job = new ClosingLineJob(
+        {
+          getSettings: async () => ({ devigMethod: 'multiplicative' }) as Settings,
+          getBets: async () => bets,
+          getEvent: async () => event ? ({ sportKey: 'basketball_nba', commenceTime, ...event }) as Event : null,
+          getHistoricalOdds: async () => history,
+          updateBet: async (id, betUpdates) => {
+            updates.push({ id, updates: betUpdates });
+            return { ...bets[0], ...betUpdates };
+          },
+        },
+        async (sports, markets) => {
+          fetches.push(sports);
+          fetchedMarkets.push(markets);
+          return fetched;
+        }
+      );
+      return { job, updates, fetches, fetchedMarkets };
+    };
+
+    it('should refresh odds for events about to start', async () => {
+      const { job, updates, fetches } = createJob([bet], {});
+
+      expect(await job.run(new Date(at(-5)))).toBe(0);
+      expect(fetches).toEqual([['basketball_nba']]);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should capture the closing line once the event has commenced', async () => {
+      const settled: Bet = { ...bet, id: '2', status: 'won' };
+      const { job, updates, fetches } = createJob([bet, settled], {});
+
+      expect(await job.run(new Date(at(1)))).toBe(1);
+      expect(fetches).toHaveLength(0);
+      expect(updates[0].id).toBe('1');
+      expect(updates[0].updates.clv).toBe(7.16);
+    });
+
+    it('should keep closing the legs of partly closed bets', async () => {
+      const close = { bookmaker: 'DraftKings', outcome: 'Lakers', odds: 2.0, clv: 7.16 };
+      const legs = [...bet.bookmakers, { name: 'FanDuel', outcome: 'Warriors', odds: 1.9, stake: 100 }];
+      const partial: Bet = { ...bet, bookmakers: legs, closingOdds: [close] };
+      const unchanged: Bet = { ...bet, id: '2', bookmakers: [...bet.bookmakers, { name: 'Caesars', outcome: 'Warriors', odds: 1.9, stake: 100 }], closingOdds: [close] };
+      const closed: Bet = { ...bet, id: '3', closingOdds: [close] };
+      const { job, updates } = createJob([partial, unchanged, closed], {});
+
+      expect(await job.run(new Date(at(1)))).toBe(1);
+      expect(updates[0].id).toBe('1');
+      expect(updates[0].updates.closingOdds!.map(leg => leg.bookmaker)).toEqual(['DraftKings', 'FanDuel']);
+    });
+
+    it('should fetch the markets the pending bets were placed in', async () => {
+      const total: Bet = { ...bet, id: '3', bookmakers: [{ name: 'DraftKings', outcome: 'Over', odds: 1.9, point: 220.5, stake: 100 }] };
+      const { job, fetchedMarkets } = createJob([bet, total], {});
+
+      await job.run(new Date(at(-5)));
+      expect(fetchedMarkets).toEqual([['h2h', 'totals']]);
+    });
+
+    it('should keep looking for events whose start time is not known', async () => {
+      const fetched: OddsApiEvent[] = [];
+      const { job, fetches } = createJob([bet], undefined, fetched);
+
+      await job.run(new Date(at(-120)));
+      await job.run(new Date(at(-110)));
+      expect(fetches).toEqual([['upcoming']]);
+
+      // Found on the next retry, then captured once it commences
+      fetched.push({ id: 'event_1', sport_key: 'basketball_nba', commence_time: commenceTime } as OddsApiEvent);
+      await job.run(new Date(at(-85)));
+      expect(fetches).toEqual([['upcoming'], ['upcoming']]);
+      expect(await job.run(new Date(at(1)))).toBe(1);
+    });
+  });
+});
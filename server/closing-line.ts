@@ -0,0 +1,254 @@
+import type { Bet, DevigMethod, HistoricalOdds, InsertHistoricalOdds, MarketType, OddsApiEvent } from "@shared/schema";
+import { devigProbabilities } from "./arbitrage-engine";
+import { getSnapshotKey } from "./odds-history";
+import type { IStorage } from "./storage";
+
+// ============================================================================
+// CLOSING LINE CAPTURE
+// The closing line is read back from the recorded odds history: the last
+// snapshot of each price at or before commence is the price at the close
+// ============================================================================
+
+export type ClosingLineStore = Pick<IStorage, "getSettings" | "getBets" | "getEvent" | "getHistoricalOdds" | "updateBet">;
+
+export type ClosingLine = Required<Pick<Bet, "closingOdds">> & Pick<Bet, "clv">;
+
+type OutcomeLine = Pick<HistoricalOdds, "outcome" | "point">;
+
+interface TrackedEvent {
+  sportKey?: string;
+  commenceTime?: string;
+  lookedUpAt?: number; // Last attempt to find the start time, while it is unknown
+}
+
+// Events starting within this window are re-fetched so the close is fresh
+const DEFAULT_SNAPSHOT_WINDOW_MS = 10 * 60 * 1000;
+
+// How often to look again for the start time of an event not found yet
+const LOOKUP_RETRY_MS = 30 * 60 * 1000;
+
+const isSameLine = (a: OutcomeLine, b: OutcomeLine) => a.outcome === b.outcome && a.point === b.point;
+
+/**
+ * Whether two prices belong to the same market line: the same total, or the
+ * same spread from either side
+ */
+function isSameMarketLine(a: InsertHistoricalOdds, b: InsertHistoricalOdds): boolean {
+  if (a.marketType !== b.marketType) return false;
+  return a.marketType === "spreads"
+    ? Math.abs(a.point ?? 0) === Math.abs(b.point ?? 0)
+    : a.point === b.point;
+}
+
+/**
+ * Market a bet leg was placed in: totals are Over/Under, other legs with a line are spreads
+ */
+function getLegMarket(leg: Pick<Bet["bookmakers"][number], "outcome" | "point">): MarketType {
+  if (leg.point === undefined) return "h2h";
+  return leg.outcome === "Over" || leg.outcome === "Under" ? "totals" : "spreads";
+}
+
+/**
+ * Whether every leg of a bet already has a closing price
+ */
+function hasClosingLine(bet: Pick<Bet, "bookmakers" | "closingOdds">): boolean {
+  return bet.bookmakers.every(leg =>
+    bet.closingOdds?.some(close => close.bookmaker === leg.name && isSameLine(close, leg))
+  );
+}
+
+/**
+ * Latest price per bookmaker, market, outcome and line at or before commence
+ */
+export function getClosingPrices(history: HistoricalOdds[], commenceTime: string): HistoricalOdds[] {
+  const cutoff = new Date(commenceTime).getTime();
+  const latest = new Map<string, HistoricalOdds>();
+
+  for (const odds of history) {
+    const time = new Date(odds.timestamp).getTime();
+    if (time > cutoff) continue;
+
+    const key = getSnapshotKey(odds);
+    const existing = latest.get(key);
+    if (!existing || new Date(existing.timestamp).getTime() <= time) {
+      latest.set(key, odds);
+    }
+  }
+
+  return Array.from(latest.values());
+}
+
+/**
+ * Consensus closing price for an outcome: each bookmaker's closing market is
+ * de-vigged and the fair probabilities averaged
+ * Bookmakers missing an outcome of the market are skipped
+ *
+ * @returns Fair decimal odds, or undefined when no bookmaker closed the full market
+ */
+export function calculateConsensusOdds(
+  closing: InsertHistoricalOdds[],
+  line: OutcomeLine,
+  method: DevigMethod = "multiplicative"
+): number | undefined {
+  const reference = closing.find(odds => isSameLine(odds, line));
+  if (!reference) return undefined;
+
+  const markets = new Map<string, InsertHistoricalOdds[]>();
+  for (const odds of closing) {
+    if (!isSameMarketLine(odds, reference)) continue;
+    markets.set(odds.bookmaker, [...(markets.get(odds.bookmaker) ?? []), odds]);
+  }
+
+  const outcomeCount = Math.max(...Array.from(markets.values(), prices => prices.length));
+  const fairProbabilities: number[] = [];
+
+  markets.forEach(prices => {
+    const index = prices.findIndex(odds => isSameLine(odds, line));
+    if (prices.length < 2 || prices.length < outcomeCount || index === -1) return;
+    fairProbabilities.push(devigProbabilities(prices.map(odds => odds.odds), method)[index]);
+  });
+
+  if (fairProbabilities.length === 0) return undefined;
+
+  const average = fairProbabilities.reduce((sum, p) => sum + p, 0) / fairProbabilities.length;
+  return Math.round((100 / average) * 1000) / 1000;
+}
+
+/**
+ * Closing odds and CLV for each leg of a bet, and the stake-weighted CLV of
+ * the bet. A leg's CLV is measured against the consensus close, falling back
+ * to its own bookmaker's close
+ *
+ * @returns null when none of the legs' bookmakers has a recorded close
+ */
+export function calculateClosingLine(
+  bet: Pick<Bet, "bookmakers">,
+  history: HistoricalOdds[],
+  commenceTime: string,
+  method: DevigMethod = "multiplicative"
+): ClosingLine | null {
+  const closing = getClosingPrices(history, commenceTime);
+  const closingOdds: ClosingLine["closingOdds"] = [];
+  let weightedClv = 0;
+  let totalStake = 0;
+
+  for (const leg of bet.bookmakers) {
+    const close = closing.find(odds => odds.bookmaker === leg.name && isSameLine(odds, leg));
+    if (!close) continue;
+
+    const consensusOdds = calculateConsensusOdds(closing, leg, method);
+    const clv = Math.round((leg.odds / (consensusOdds ?? close.odds) - 1) * 10000) / 100;
+
+    closingOdds.push({
+      bookmaker: leg.name,
+      outcome: leg.outcome,
+      odds: close.odds,
+      point: leg.point,
+      consensusOdds,
+      clv,
+    });
+    weightedClv += clv * leg.stake;
+    totalStake += leg.stake;
+  }
+
+  if (closingOdds.length === 0) return null;
+
+  return {
+    closingOdds,
+    clv: totalStake > 0 ? Math.round((weightedClv / totalStake) * 100) / 100 : undefined,
+  };
+}
+
+export class ClosingLineJob {
+  private events: Map<string, TrackedEvent> = new Map();
+
+  /**
+   * @param fetchOdds - Fetches (and records the history of) odds for the given sports and markets
+   */
+  constructor(
+    private store: ClosingLineStore,
+    private fetchOdds: (sports: string[], markets: MarketType[]) => Promise<OddsApiEvent[]>,
+    private snapshotWindowMs: number = DEFAULT_SNAPSHOT_WINDOW_MS
+  ) {}
+
+  /**
+   * Snapshot odds for pending bets about to start, then write the closing
+   * line of those whose event has commenced
+   * Bets stay tracked until every leg has a closing price, and are only
+   * rewritten when a run closes more of their legs
+   *
+   * @returns Number of bets given closing odds
+   */
+  async run(now: Date = new Date()): Promise<number> {
+    const pending = (await this.store.getBets()).filter(bet => bet.status === "pending" && !hasClosingLine(bet));
+    const eventIds = Array.from(new Set(pending.map(bet => bet.eventId)));
+    this.events.forEach((_, eventId) => {
+      if (!eventIds.includes(eventId)) this.events.delete(eventId);
+    });
+
+    const markets = Array.from(new Set(pending.flatMap(bet => bet.bookmakers.map(getLegMarket))));
+    await this.snapshotUpcoming(eventIds, markets, now);
+
+    const { devigMethod } = await this.store.getSettings();
+    let captured = 0;
+
+    for (const eventId of eventIds) {
+      const { commenceTime } = this.events.get(eventId) ?? {};
+      if (!commenceTime || new Date(commenceTime) > now) continue;
+
+      const history = await this.store.getHistoricalOdds(eventId);
+      for (const bet of pending.filter(bet => bet.eventId === eventId)) {
+        const closingLine = calculateClosingLine(bet, history, commenceTime, devigMethod);
+        if (!closingLine || closingLine.closingOdds.length <= (bet.closingOdds?.length ?? 0)) continue;
+
+        await this.store.updateBet(bet.id, closingLine);
+        captured++;
+      }
+    }
+
+    return captured;
+  }
+
+  /**
+   * Fetch fresh odds for events starting within the snapshot window, and for
+   * events whose start time is not known yet, retrying those every
+   * LOOKUP_RETRY_MS until a fetch returns them
+   */
+  private async snapshotUpcoming(eventIds: string[], markets: MarketType[], now: Date): Promise<void> {
+    const sports = new Set<string>();
+
+    for (const eventId of eventIds) {
+      let tracked = this.events.get(eventId);
+      if (!tracked?.commenceTime) {
+        if (tracked?.lookedUpAt !== undefined && now.getTime() - tracked.lookedUpAt < LOOKUP_RETRY_MS) continue;
+
+        const event = await this.store.getEvent(eventId);
+        tracked = {
+          sportKey: event?.sportKey ?? tracked?.sportKey,
+          commenceTime: event?.commenceTime,
+          lookedUpAt: now.getTime(),
+        };
+        this.events.set(eventId, tracked);
+        if (!tracked.commenceTime) {
+          sports.add(tracked.sportKey ?? "upcoming");
+          continue;
+        }
+      }
+
+      const startsIn = new Date(tracked.commenceTime).getTime() - now.getTime();
+      if (startsIn > 0 && startsIn <= this.snapshotWindowMs) {
+        sports.add(tracked.sportKey ?? "upcoming");
+      }
+    }
+
+    if (sports.size === 0) return;
+
+    for (const event of await this.fetchOdds(Array.from(sports), markets)) {
+      const tracked = this.events.get(event.id);
+      if (tracked) {
+        tracked.sportKey = event.sport_key;
+        tracked.commenceTime = event.commence_time;
+      }
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
+import { registerRoutes, closingLineJob } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -77,6 +77,21 @@ app.use((req, res, next) => {
   setInterval(runCleanup, 3600000);
   log("[Auto-Cleanup] Scheduled to run every hour");
 
+  // Capture closing lines and CLV for pending bets every 2 minutes
+  const runClosingLines = async () => {
+    try {
+      const capturedCount = await closingLineJob.run();
+      if (capturedCount > 0) {
+        log(`[Closing-Line] Captured closing odds for ${capturedCount} bets`);
+      }
+    } catch (error) {
+      console.error("[Closing-Line] Error:", error);
+    }
+  };
+
+  setInterval(runClosingLines, 120000);
+  log("[Closing-Line] Scheduled to run every 2 minutes");
+
   // ALWAYS serve the app on the port specified in the environment variable PORT
   // Other ports are firewalled. Default to 5000 if not specified.
   // this serves both the API and the client.
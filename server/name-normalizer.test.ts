@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeName,
+  normalizeEvents,
+  nameSimilarity,
+  suggestAliases,
+} from './name-normalizer';
+import { findBestArbitrage } from './arbitrage-engine';
+import type { OddsApiEvent } from '@shared/schema';
+
+// ============================================================================
+// NAME NORMALIZATION TESTS
+// ============================================================================
+
+describe('Name Normalizer', () => {
+  const createEvent = (homeTeam: string, awayTeam: string, bookOutcomes: string[][]): OddsApiEvent => ({
+    id: 'alias_event_1',
+    sport_key: 'icehockey_nhl',
+    sport_title: 'NHL',
+    commence_time: new Date().toISOString(),
+    home_team: homeTeam,
+    away_team: awayTeam,
+    bookmakers: bookOutcomes.map(([home, away], i) => ({
+      key: `book_${i}`,
+      title: `Book ${i}`,
+      last_update: new Date().toISOString(),
+      markets: [{
+        key: 'h2h',
+        last_update: new Date().toISOString(),
+        outcomes: [
+          { name: home, price: i === 0 ? 2.20 : 1.75 },
+          { name: away, price: i === 0 ? 1.75 : 2.20 },
+        ]
+      }]
+    })),
+  });
+
+  describe('normalizeName', () => {
+    it('should ignore case, punctuation and accents', () => {
+      expect(normalizeName('St. Louis Blues')).toBe(normalizeName('St Louis Blues'));
+      expect(normalizeName('Atlético Madrid')).toBe('atletico madrid');
+      expect(normalizeName('Brighton & Hove Albion')).toBe('brighton and hove albion');
+    });
+  });
+
+  describe('normalizeEvents', () => {
+    it('should merge punctuation variants into the event team name', () => {
+      const event = createEvent('St. Louis Blues', 'Chicago Blackhawks', [
+        ['St. Louis Blues', 'Chicago Blackhawks'],
+        ['St Louis Blues', 'Chicago Blackhawks'],
+      ]);
+
+      expect(findBestArbitrage(event, 'h2h')).toBeNull();
+
+      const [normalized] = normalizeEvents([event], []);
+      const names = normalized.bookmakers.map(b => b.markets[0].outcomes[0].name);
+      expect(names).toEqual(['St. Louis Blues', 'St. Louis Blues']);
+      expect(findBestArbitrage(normalized, 'h2h')).not.toBeNull();
+    });
+
+    it('should apply confirmed aliases', () => {
+      const event = createEvent('Manchester City', 'Chelsea', [
+        ['Manchester City', 'Chelsea'],
+        ['Man City', 'Chelsea'],
+      ]);
+
+      const [normalized] = normalizeEvents([event], [{ alias: 'Man City', canonical: 'Manchester City' }]);
+
+      expect(normalized.bookmakers[1].markets[0].outcomes[0].name).toBe('Manchester City');
+    });
+
+    it('should not mutate the provider events', () => {
+      const event = createEvent('St. Louis Blues', 'Chicago Blackhawks', [
+        ['St Louis Blues', 'Chicago Blackhawks'],
+      ]);
+
+      normalizeEvents([event], []);
+
+      expect(event.bookmakers[0].markets[0].outcomes[0].name).toBe('St Louis Blues');
+    });
+  });
+
+  describe('suggestAliases', () => {
+    it('should score abbreviations and acronyms as close matches', () => {
+      expect(nameSimilarity('Man City', 'Manchester City')).toBe(1);
+      expect(nameSimilarity('LA Lakers', 'Los Angeles Lakers')).toBe(1);
+      expect(nameSimilarity('Man City', 'Manchester United')).toBeLessThan(0.6);
+    });
+
+    it('should suggest the matching team for unknown names', () => {
+      const event = createEvent('Manchester City', 'Manchester United', [
+        ['Manchester City', 'Manchester United'],
+        ['Man City', 'Man Utd'],
+      ]);
+
+      const suggestions = suggestAliases([event], []);
+
+      expect(suggestions).toEqual(expect.arrayContaining([
+        expect.objectContaining({ alias: 'Man City', canonical: 'Manchester City', bookmaker: 'Book 1' }),
+        expect.objectContaining({ alias: 'Man Utd', canonical: 'Manchester United' }),
+      ]));
+    });
+
+    it('should skip names already covered by an alias', () => {
+      const event = createEvent('Manchester City', 'Chelsea', [
+        ['Man City', 'Chelsea'],
+      ]);
+
+      expect(suggestAliases([event], [{ alias: 'man city', canonical: 'Manchester City' }])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import type { NameAlias, NameAliasSuggestion, OddsApiEvent } from "@shared/schema";
+
+// ============================================================================
+// TEAM & OUTCOME NAME NORMALIZATION
+// Bookmakers spell the same team differently ("Man City", "Manchester City",
+// "St. Louis Blues", "St Louis Blues"). Every provider's events are rewritten
+// to one canonical spelling before the engine matches outcomes by name.
+// ============================================================================
+
+const DRAW_NAMES = new Set(["draw", "tie", "x"]);
+const FIXED_OUTCOMES = new Set(["Draw", "Over", "Under"]);
+
+// Minimum similarity before a name is suggested as an alias of a team
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Reduce a name to a comparison key: lowercase, no accents or punctuation,
+ * "&" spelled out and whitespace collapsed
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Build a lookup of alias keys to canonical names
+ */
+export function buildAliasMap(aliases: Pick<NameAlias, "alias" | "canonical">[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const { alias, canonical } of aliases) {
+    map.set(normalizeName(alias), canonical);
+  }
+  return map;
+}
+
+function resolveAlias(name: string, aliasMap: Map<string, string>): string {
+  return aliasMap.get(normalizeName(name)) ?? name;
+}
+
+/**
+ * Rewrite an event's team and outcome names to their canonical spelling
+ * Outcomes that match a team (directly, ignoring punctuation, or through an
+ * alias) take the event's team name so every bookmaker agrees on it
+ */
+export function normalizeEvent(event: OddsApiEvent, aliasMap: Map<string, string>): OddsApiEvent {
+  const homeTeam = resolveAlias(event.home_team, aliasMap);
+  const awayTeam = resolveAlias(event.away_team, aliasMap);
+  const homeKey = normalizeName(homeTeam);
+  const awayKey = normalizeName(awayTeam);
+
+  const resolveOutcome = (name: string): string => {
+    if (FIXED_OUTCOMES.has(name)) return name;
+
+    const key = normalizeName(resolveAlias(name, aliasMap));
+    if (key === homeKey) return homeTeam;
+    if (key === awayKey) return awayTeam;
+    if (DRAW_NAMES.has(key)) return "Draw";
+    if (key === "over" || key === "under") return key === "over" ? "Over" : "Under";
+    return name;
+  };
+
+  return {
+    ...event,
+    home_team: homeTeam,
+    away_team: awayTeam,
+    bookmakers: event.bookmakers.map(bookmaker => ({
+      ...bookmaker,
+      markets: bookmaker.markets.map(market => ({
+        ...market,
+        outcomes: market.outcomes.map(outcome => ({
+          ...outcome,
+          name: resolveOutcome(outcome.name),
+        })),
+      })),
+    })),
+  };
+}
+
+/**
+ * Normalize every event from a provider
+ */
+export function normalizeEvents(
+  events: OddsApiEvent[],
+  aliases: Pick<NameAlias, "alias" | "canonical">[]
+): OddsApiEvent[] {
+  const aliasMap = buildAliasMap(aliases);
+  return events.map(event => normalizeEvent(event, aliasMap));
+}
+
+function isSubsequence(short: string, long: string): boolean {
+  let i = 0;
+  for (const char of long) {
+    if (char === short[i]) i++;
+    if (i === short.length) return true;
+  }
+  return i === short.length;
+}
+
+// "man" ~ "manchester", "utd" ~ "united"
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a[0] !== b[0]) return false;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return short.length >= 2 && isSubsequence(short, long);
+}
+
+// Matched token count on each side, reading acronyms in `a` against runs in `b` ("la" ~ "los angeles")
+// Exact tokens are paired first, then acronyms, then abbreviations, so "la" cannot claim "lakers"
+function matchTokens(a: string[], b: string[]): number {
+  const usedA = new Array(a.length).fill(false);
+  const usedB = new Array(b.length).fill(false);
+  let matched = 0;
+
+  const pairTokens = (isMatch: (x: string, y: string) => boolean) => {
+    a.forEach((token, i) => {
+      if (usedA[i]) return;
+      const j = b.findIndex((other, k) => !usedB[k] && isMatch(token, other));
+      if (j === -1) return;
+      usedA[i] = usedB[j] = true;
+      matched += 2;
+    });
+  };
+
+  pairTokens((x, y) => x === y);
+
+  a.forEach((token, i) => {
+    if (usedA[i] || token.length < 2) return;
+    for (let j = 0; j + token.length <= b.length; j++) {
+      const run = b.slice(j, j + token.length);
+      if (run.every((_, k) => !usedB[j + k]) && run.map(t => t[0]).join("") === token) {
+        run.forEach((_, k) => { usedB[j + k] = true; });
+        usedA[i] = true;
+        matched += 1 + token.length;
+        return;
+      }
+    }
+  });
+
+  pairTokens(tokensMatch);
+
+  return matched;
+}
+
+/**
+ * Similarity between two names from 0 (unrelated) to 1 (same tokens)
+ * Handles abbreviations and acronyms as well as exact token matches
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = normalizeName(a).split(" ").filter(Boolean);
+  const tokensB = normalizeName(b).split(" ").filter(Boolean);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const total = tokensA.length + tokensB.length;
+  const matched = Math.max(matchTokens(tokensA, tokensB), matchTokens(tokensB, tokensA));
+  return Math.min(1, matched / total);
+}
+
+/**
+ * Suggest aliases for outcome names that match neither team of their event
+ * Only confident, unambiguous matches are suggested; nothing is merged until
+ * an alias is confirmed
+ */
+export function suggestAliases(
+  events: OddsApiEvent[],
+  aliases: Pick<NameAlias, "alias" | "canonical">[]
+): NameAliasSuggestion[] {
+  const aliasMap = buildAliasMap(aliases);
+  const suggestions = new Map<string, NameAliasSuggestion>();
+
+  for (const event of events) {
+    const normalized = normalizeEvent(event, aliasMap);
+    const teams = [normalized.home_team, normalized.away_team];
+
+    for (const bookmaker of normalized.bookmakers) {
+      for (const market of bookmaker.markets) {
+        for (const outcome of market.outcomes) {
+          if (FIXED_OUTCOMES.has(outcome.name) || teams.includes(outcome.name)) continue;
+
+          const key = normalizeName(outcome.name);
+          if (suggestions.has(key)) continue;
+
+          const [homeScore, awayScore] = teams.map(team => nameSimilarity(outcome.name, team));
+          const best = Math.max(homeScore, awayScore);
+          if (best < SUGGESTION_THRESHOLD || homeScore === awayScore) continue;
+
+          suggestions.set(key, {
+            alias: outcome.name,
+            canonical: homeScore > awayScore ? normalized.home_team : normalized.away_team,
+            score: Math.round(best * 100) / 100,
+            eventId: event.id,
+            match: `${normalized.home_team} vs ${normalized.away_team}`,
+            bookmaker: bookmaker.title,
+          });
+        }
+      }
+    }
+  }
+
+  return Array.from(suggestions.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from '@jest/globals';
+import { OddsHistoryRecorder, extractOddsSnapshots, type OddsHistoryStore } from './odds-history';
+import type { HistoricalOdds, InsertHistoricalOdds, OddsApiEvent } from '@shared/schema';
+
+// ============================================================================
+// ODDS HISTORY TESTS
+// ============================================================================
+
+describe('OddsHistoryRecorder', () => {
+  const createEvent = (id: string, lakers: number, warriors: number, total?: number): OddsApiEvent => ({
+    id,
+    sport_key: 'basketball_nba',
+    sport_title: 'Basketball - NBA',
+    commence_time: new Date().toISOString(),
+    home_team: 'Lakers',
+    away_team: 'Warriors',
+    bookmakers: [{
+      key: 'draftkings',
+      title: 'DraftKings',
+      last_update: new Date().toISOString(),
+      markets: [
+        {
+          key: 'h2h',
+          last_update: new Date().toISOString(),
+          outcomes: [
+            { name: 'Lakers', price: lakers },
+            { name: 'Warriors', price: warriors },
+          ],
+        },
+        ...(total !== undefined ? [{
+          key: 'totals',
+          last_update: new Date().toISOString(),
+          outcomes: [
+            { name: 'Over', price: 1.91, point: total },
+            { name: 'Under', price: 1.91, point: total },
+          ],
+        }] : []),
+      ],
+    }],
+  });
+
+  const createStore = (latest: HistoricalOdds[] = []) => {
+    const batches: InsertHistoricalOdds[][] = [];
+    const store: OddsHistoryStore = {
+      saveHistoricalOddsBatch: async (odds) => {
+        batches.push(odds);
+        return odds.length;
+      },
+      getLatestHistoricalOdds: async (eventIds) => latest.filter(odds => eventIds.includes(odds.eventId)),
+    };
+    return { store, batches };
+  };
+
+  const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 12, minutes));
+
+  it('should snapshot every bookmaker, market, outcome and line', () => {
+    const snapshots = extractOddsSnapshots([createEvent('a', 2.0, 1.8, 220.5)], at(0));
+
+    expect(snapshots).toHaveLength(4);
+    expect(snapshots[2]).toEqual({
+      eventId: 'a',
+      bookmaker: 'DraftKings',
+      outcome: 'Over',
+      odds: 1.91,
+      point: 220.5,
+      timestamp: at(0).toISOString(),
+      marketType: 'totals',
+    });
+  });
+
+  it('should write all prices in one batch and then only the ones that moved', async () => {
+    const { store, batches } = createStore();
+    const recorder = new OddsHistoryRecorder(store);
+
+    expect(await recorder.record([createEvent('a', 2.0, 1.8), createEvent('b', 1.5, 2.6)], at(0))).toBe(4);
+    expect(await recorder.record([createEvent('a', 2.0, 1.8), createEvent('b', 1.5, 2.6)], at(1))).toBe(0);
+    expect(await recorder.record([createEvent('a', 2.1, 1.8)], at(2))).toBe(1);
+
+    expect(batches).toHaveLength(2);
+    expect(batches[0]).toHaveLength(4);
+    expect(batches[1]).toEqual([expect.objectContaining({ eventId: 'a', outcome: 'Lakers', odds: 2.1 })]);
+  });
+
+  it('should treat a new line as a change', async () => {
+    const { store, batches } = createStore();
+    const recorder = new OddsHistoryRecorder(store);
+
+    await recorder.record([createEvent('a', 2.0, 1.8, 220.5)], at(0));
+    await recorder.record([createEvent('a', 2.0, 1.8, 221.5)], at(1));
+
+    expect(batches[1].map(odds => odds.point)).toEqual([221.5, 221.5]);
+  });
+
+  it('should not re-record prices already stored before a restart', async () => {
+    const stored = (outcome: string, odds: number): HistoricalOdds => ({
+      id: outcome,
+      eventId: 'a',
+      bookmaker: 'DraftKings',
+      outcome,
+      odds,
+      timestamp: at(0).toISOString(),
+      marketType: 'h2h',
+    });
+    const { store, batches } = createStore([stored('Lakers', 2.0), stored('Warriors', 1.75)]);
+    const recorder = new OddsHistoryRecorder(store);
+
+    expect(await recorder.record([createEvent('a', 2.0, 1.8)], at(5))).toBe(1);
+    expect(batches[0]).toEqual([expect.objectContaining({ outcome: 'Warriors', odds: 1.8 })]);
+  });
+
+  it('should not store the same movement twice from overlapping fetches', async () => {
+    const { store, batches } = createStore();
+    const recorder = new OddsHistoryRecorder(store);
+
+    await Promise.all([
+      recorder.record([createEvent('a', 2.0, 1.8)], at(0)),
+      recorder.record([createEvent('a', 2.0, 1.8)], at(0)),
+    ]);
+
+    expect(batches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,139 @@
+import type { InsertHistoricalOdds, OddsApiEvent } from "@shared/schema";
+import { marketTypeSchema } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// ============================================================================
+// ODDS HISTORY RECORDING
+// Every provider fetch is snapshotted into historical_odds, but only prices
+// that moved since the last recorded snapshot are written
+// ============================================================================
+
+export type OddsHistoryStore = Pick<IStorage, "saveHistoricalOddsBatch" | "getLatestHistoricalOdds">;
+
+type SnapshotKeyFields = Pick<InsertHistoricalOdds, "eventId" | "bookmaker" | "marketType" | "outcome" | "point">;
+
+interface EventPrices {
+  lastSeen: number;
+  prices: Map<string, number>;
+}
+
+// How long the last prices of an event no longer being fetched are remembered
+const DEFAULT_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Identifies one priced line: event, bookmaker, market, outcome and point
+ */
+export function getSnapshotKey(odds: SnapshotKeyFields): string {
+  return [odds.eventId, odds.bookmaker, odds.marketType ?? "", odds.outcome, odds.point ?? ""].join("|");
+}
+
+/**
+ * Flatten events into one snapshot per bookmaker, market, outcome and line
+ * Markets outside the supported market types are skipped
+ */
+export function extractOddsSnapshots(events: OddsApiEvent[], now: Date = new Date()): InsertHistoricalOdds[] {
+  const timestamp = now.toISOString();
+  const snapshots: InsertHistoricalOdds[] = [];
+
+  for (const event of events) {
+    for (const bookmaker of event.bookmakers) {
+      for (const market of bookmaker.markets) {
+        const marketType = marketTypeSchema.safeParse(market.key);
+        if (!marketType.success) continue;
+
+        for (const outcome of market.outcomes) {
+          snapshots.push({
+            eventId: event.id,
+            bookmaker: bookmaker.title,
+            outcome: outcome.name,
+            odds: outcome.price,
+            point: outcome.point,
+            timestamp,
+            marketType: marketType.data,
+          });
+        }
+      }
+    }
+  }
+
+  return snapshots;
+}
+
+export class OddsHistoryRecorder {
+  private events: Map<string, EventPrices> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private store: OddsHistoryStore,
+    private retentionMs: number = DEFAULT_RETENTION_MS
+  ) {}
+
+  /**
+   * Write snapshots for prices that changed since they were last recorded
+   * Recording is serialized so overlapping fetches cannot store the same
+   * movement twice
+   *
+   * @returns Number of snapshots written
+   */
+  record(events: OddsApiEvent[], now: Date = new Date()): Promise<number> {
+    const result = this.queue.then(() => this.recordChanges(events, now));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  clear(): void {
+    this.events.clear();
+  }
+
+  private async recordChanges(events: OddsApiEvent[], now: Date): Promise<number> {
+    await this.loadLatestPrices(events, now);
+
+    const changed = new Map<string, InsertHistoricalOdds>();
+    for (const snapshot of extractOddsSnapshots(events, now)) {
+      const key = getSnapshotKey(snapshot);
+      if (this.events.get(snapshot.eventId)!.prices.get(key) !== snapshot.odds) {
+        changed.set(key, snapshot);
+      }
+    }
+
+    if (changed.size > 0) {
+      await this.store.saveHistoricalOddsBatch(Array.from(changed.values()));
+      changed.forEach((snapshot, key) => {
+        this.events.get(snapshot.eventId)!.prices.set(key, snapshot.odds);
+      });
+    }
+
+    this.prune(now);
+    return changed.size;
+  }
+
+  /**
+   * Seed events seen for the first time with their latest stored prices,
+   * so a restart does not re-record unchanged odds
+   */
+  private async loadLatestPrices(events: OddsApiEvent[], now: Date): Promise<void> {
+    const unseen = Array.from(new Set(events.map(event => event.id)))
+      .filter(eventId => !this.events.has(eventId));
+
+    const latest = unseen.length > 0 ? await this.store.getLatestHistoricalOdds(unseen) : [];
+    for (const eventId of unseen) {
+      this.events.set(eventId, { lastSeen: now.getTime(), prices: new Map() });
+    }
+    for (const odds of latest) {
+      this.events.get(odds.eventId)?.prices.set(getSnapshotKey(odds), odds.odds);
+    }
+
+    for (const event of events) {
+      this.events.get(event.id)!.lastSeen = now.getTime();
+    }
+  }
+
+  private prune(now: Date): void {
+    const cutoff = now.getTime() - this.retentionMs;
+    this.events.forEach((event, eventId) => {
+      if (event.lastSeen < cutoff) {
+        this.events.delete(eventId);
+      }
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { appendReplaySnapshot, parseReplaySnapshots, ReplayOddsProvider, withLayMarkets } from './odds-provider';
+import type { OddsApiEvent } from '@shared/schema';
+
+// ============================================================================
+// ODDS PROVIDER TESTS
+// ============================================================================
+
+describe('Exchange lay markets', () => {
+  it('should add lay markets only for markets exchanges lay', () => {
+    expect(withLayMarkets(['h2h', 'totals'])).toEqual(['h2h', 'totals', 'h2h_lay']);
+    expect(withLayMarkets(['spreads'])).toEqual(['spreads']);
+  });
+});
+
+describe('Replay Odds Provider', () => {
+  const recorded = new Date(Date.UTC(2025, 0, 1, 12, 0)).getTime();
+  const replayed = new Date(Date.UTC(2025, 6, 1, 18, 0)).getTime();
+  const at = (base: number, minutes: number) => new Date(base + minutes * 60 * 1000).toISOString();
+
+  const event = (lakers: number, capturedAt: number): OddsApiEvent => ({
+    id: 'event_1',
+    sport_key: 'basketball_nba',
+    sport_title: 'NBA',
+    commence_time: at(recorded, 60),
+    home_team: 'Lakers',
+    away_team: 'Warriors',
+    bookmakers: [{
+      key: 'draftkings',
+      title: 'DraftKings',
+      last_update: at(recorded, capturedAt - 1),
+      markets: [
+        { key: 'h2h', last_update: at(recorded, capturedAt - 1), outcomes: [{ name: 'Lakers', price: lakers }, { name: 'Warriors', price: 1.9 }] },
+        { key: 'totals', last_update: at(recorded, capturedAt - 1), outcomes: [{ name: 'Over', price: 1.9, point: 220.5 }, { name: 'Under', price: 1.9, point: 220.5 }] },
+      ],
+    }],
+  });
+
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'replay-'));
+    filePath = join(dir, 'session.jsonl');
+    await appendReplaySnapshot(filePath, [event(2.0, 0)], new Date(recorded));
+    await appendReplaySnapshot(filePath, [event(1.8, 10)], new Date(at(recorded, 10)));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createProvider = (options: { speed?: number; loop?: boolean } = {}) => {
+    let now = replayed;
+    const provider = new ReplayOddsProvider(filePath, { ...options, clock: () => new Date(now) });
+    return { provider, advance: (minutes: number) => { now += minutes * 60 * 1000; } };
+  };
+
+  it('should read back recorded snapshots oldest first', () => {
+    const lines = [
+      JSON.stringify({ capturedAt: at(recorded, 10), events: [] }),
+      '',
+      JSON.stringify({ capturedAt: at(recorded, 0), events: [] }),
+    ];
+
+    expect(parseReplaySnapshots(lines.join('\n')).map(s => s.capturedAt)).toEqual([at(recorded, 0), at(recorded, 10)]);
+    expect(() => parseReplaySnapshots('{"capturedAt":"not a date","events":[]}')).toThrow('line 1');
+  });
+
+  it('should keep recorded times relative to the replay clock', async () => {
+    const { provider } = createProvider();
+    const { events } = await provider.fetchOdds(['upcoming']);
+
+    expect(events[0].commence_time).toBe(at(replayed, 60));
+    expect(events[0].bookmakers[0].last_update).toBe(at(replayed, -1));
+    expect(events[0].bookmakers[0].markets[0].outcomes[0].price).toBe(2.0);
+  });
+
+  it('should play snapshots back at accelerated speed', async () => {
+    const { provider, advance } = createProvider({ speed: 2 });
+    await provider.fetchOdds(['upcoming']);
+
+    advance(5);
+    const { events } = await provider.fetchOdds(['upcoming']);
+
+    expect(events[0].bookmakers[0].markets[0].outcomes[0].price).toBe(1.8);
+    // 50 recorded minutes to kick-off take 25 minutes at 2x
+    expect(events[0].commence_time).toBe(at(replayed, 30));
+    expect(events[0].bookmakers[0].last_update).toBe(at(replayed, 4.5));
+  });
+
+  it('should loop with fresh event ids, or hold the last snapshot', async () => {
+    const looping = createProvider();
+    const holding = createProvider({ loop: false });
+    await looping.provider.fetchOdds(['upcoming']);
+    await holding.provider.fetchOdds(['upcoming']);
+
+    looping.advance(22);
+    holding.advance(22);
+    const [looped] = (await looping.provider.fetchOdds(['upcoming'])).events;
+    const [held] = (await holding.provider.fetchOdds(['upcoming'])).events;
+
+    expect(looped.id).toBe('event_1_loop1');
+    expect(looped.bookmakers[0].markets[0].outcomes[0].price).toBe(2.0);
+    expect(held.id).toBe('event_1');
+    expect(held.bookmakers[0].markets[0].outcomes[0].price).toBe(1.8);
+  });
+
+  it('should filter to the requested sports and markets', async () => {
+    const { provider } = createProvider();
+
+    expect((await provider.fetchOdds(['soccer_epl'])).events).toEqual([]);
+
+    const { events } = await provider.fetchOdds(['basketball_nba'], undefined, ['totals']);
+    expect(events[0].bookmakers[0].markets.map(m => m.key)).toEqual(['totals']);
+  });
+
+  it('should merge snapshots recorded for different sports and markets', async () => {
+    const nba = event(1.8, 10);
+    const totalsOnly = { ...nba, bookmakers: [{ ...nba.bookmakers[0], markets: [nba.bookmakers[0].markets[1]] }] };
+    const epl: OddsApiEvent = { ...event(2.5, 11), id: 'event_2', sport_key: 'soccer_epl', sport_title: 'EPL' };
+    await appendReplaySnapshot(filePath, [totalsOnly], new Date(at(recorded, 11)));
+    await appendReplaySnapshot(filePath, [epl], new Date(at(recorded, 12)));
+
+    const { provider, advance } = createProvider();
+    await provider.fetchOdds(['upcoming']);
+    advance(12);
+    const { events } = await provider.fetchOdds(['upcoming']);
+
+    expect(events.map(e => e.id)).toEqual(['event_1', 'event_2']);
+    expect(events[0].bookmakers[0].markets.map(m => m.key)).toEqual(['h2h', 'totals']);
+    expect(events[0].bookmakers[0].markets[0].outcomes[0].price).toBe(1.8);
+  });
+
+  it('should create the directory of a new recording', async () => {
+    const nested = join(dir, 'recordings', 'session.jsonl');
+    await appendReplaySnapshot(nested, [event(2.0, 0)], new Date(recorded));
+
+    expect(parseReplaySnapshots(readFileSync(nested, 'utf8'))).toHaveLength(1);
+  });
+
+  it('should retry loading after a missing file', async () => {
+    rmSync(filePath);
+    const { provider } = createProvider();
+
+    await expect(provider.fetchOdds(['upcoming'])).rejects.toThrow();
+
+    writeFileSync(filePath, JSON.stringify({ capturedAt: at(recorded, 0), events: [event(2.0, 0)] }) + '\n');
+    expect((await provider.fetchOdds(['upcoming'])).events).toHaveLength(1);
+  });
+});
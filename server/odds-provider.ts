@@ -1,6 +1,8 @@
 import type { OddsApiEvent, Sport } from "@shared/schema";
 import { oddsApiEventSchema } from "@shared/schema";
 import { z } from "zod";
+import { promises as fs } from "fs";
+import path from "path";
 
 // ============================================================================
 // ODDS PROVIDER INTERFACE & IMPLEMENTATIONS
@@ -120,14 +122,65 @@ export const oddsCache = new InMemoryCache();
 // THE ODDS API PROVIDER
 // ============================================================================
 
+// Exchange lay prices come back as a separate market per back market
+const LAY_MARKETS: Record<string, string> = {
+  h2h: "h2h_lay",
+};
+
+/**
+ * Markets plus the exchange lay market for each one that has one
+ * Lay markets are billed like any other market, so only ask for them where
+ * lay prices are used
+ */
+export function withLayMarkets(markets: string[]): string[] {
+  return [...markets, ...markets.filter(m => LAY_MARKETS[m]).map(m => LAY_MARKETS[m])];
+}
+
+/**
+ * Fold exchange lay markets (h2h_lay) into their back market as lay_price on
+ * each outcome, so the rest of the app sees one market per exchange
+ */
+export function mergeLayMarkets(events: OddsApiEvent[]): OddsApiEvent[] {
+  const layToBack = new Map(Object.entries(LAY_MARKETS).map(([back, lay]) => [lay, back]));
+
+  return events.map(event => ({
+    ...event,
+    bookmakers: event.bookmakers.map(bookmaker => {
+      const layMarkets = bookmaker.markets.filter(m => layToBack.has(m.key));
+      if (layMarkets.length === 0) return bookmaker;
+
+      const markets = bookmaker.markets
+        .filter(m => !layToBack.has(m.key))
+        .map(market => {
+          const lay = layMarkets.find(m => layToBack.get(m.key) === market.key);
+          if (!lay) return market;
+
+          return {
+            ...market,
+            outcomes: market.outcomes.map(outcome => {
+              const layOutcome = lay.outcomes.find(o => o.name === outcome.name && o.point === outcome.point);
+              return layOutcome
+                ? { ...outcome, lay_price: layOutcome.price, lay_liquidity: layOutcome.lay_liquidity ?? outcome.lay_liquidity }
+                : outcome;
+            }),
+          };
+        });
+
+      return { ...bookmaker, markets };
+    }),
+  }));
+}
+
 export class TheOddsApiProvider implements OddsProvider {
   private apiKey: string;
   private baseUrl: string = "https://api.the-odds-api.com/v4";
   private cacheTtl: number = 60; // seconds
+  private recordPath?: string; // Replay file to append fresh results to
 
-  constructor(apiKey: string, cacheTtl: number = 60) {
+  constructor(apiKey: string, cacheTtl: number = 60, recordPath?: string) {
     this.apiKey = apiKey;
     this.cacheTtl = cacheTtl;
+    this.recordPath = recordPath;
   }
 
   getName(): string {
@@ -164,7 +217,7 @@ export class TheOddsApiProvider implements OddsProvider {
       const results = await Promise.all(promises);
       
       // Flatten results
-      const allEvents = results.flat();
+      const allEvents = mergeLayMarkets(results.flat());
       
       // Validate with Zod
       const validatedEvents = z.array(oddsApiEventSchema).parse(allEvents);
@@ -173,6 +226,10 @@ export class TheOddsApiProvider implements OddsProvider {
       oddsCache.set(cacheKey, validatedEvents, this.cacheTtl);
       
       console.log(`[OddsAPI] Fetched ${validatedEvents.length} events, cached for ${this.cacheTtl}s`);
+
+      if (this.recordPath) {
+        await appendReplaySnapshot(this.recordPath, validatedEvents);
+      }
       
       return {
         events: validatedEvents,
@@ -287,6 +344,20 @@ export class MockOddsProvider implements OddsProvider {
               ]
             }]
           },
+          {
+            key: "betfair_ex_eu",
+            title: "Betfair",
+            last_update: new Date().toISOString(),
+            markets: [{
+              key: "h2h",
+              last_update: new Date().toISOString(),
+              outcomes: [
+                { name: "Manchester City", price: 2.12, lay_price: 2.16, liquidity: 820, lay_liquidity: 450 },
+                { name: "Arsenal", price: 3.55, lay_price: 3.65, liquidity: 240, lay_liquidity: 120 },
+                { name: "Draw", price: 3.50, lay_price: 3.60, liquidity: 310, lay_liquidity: 300 },
+              ]
+            }]
+          },
         ]
       },
       // Basketball - NBA
@@ -432,6 +503,178 @@ export class MockOddsProvider implements OddsProvider {
   }
 }
 
+// ============================================================================
+// REPLAY PROVIDER
+// Plays back recorded fetchOdds results from a JSON Lines file, one
+// { capturedAt, events } snapshot per line, on a clock that can run faster
+// than real time
+// ============================================================================
+
+const replaySnapshotSchema = z.object({
+  capturedAt: z.string().datetime(),
+  events: z.array(oddsApiEventSchema),
+});
+
+export type ReplaySnapshot = z.infer<typeof replaySnapshotSchema>;
+
+export interface ReplayOptions {
+  speed?: number; // Recorded minutes played per real minute (default: 1)
+  loop?: boolean; // Start over after the last snapshot instead of holding it (default: true)
+  clock?: () => Date;
+}
+
+/**
+ * Append one fetchOdds result to a replay file
+ * Failures are logged, never thrown, so recording cannot break a live fetch
+ */
+export async function appendReplaySnapshot(
+  filePath: string,
+  events: OddsApiEvent[],
+  capturedAt: Date = new Date()
+): Promise<void> {
+  const snapshot: ReplaySnapshot = { capturedAt: capturedAt.toISOString(), events };
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, JSON.stringify(snapshot) + "\n");
+  } catch (error) {
+    console.error(`[Replay] Error recording snapshot to ${filePath}:`, error);
+  }
+}
+
+/**
+ * Parse a replay file into snapshots, oldest first
+ * Blank lines are skipped; a malformed line throws with its line number
+ */
+export function parseReplaySnapshots(content: string): ReplaySnapshot[] {
+  return content
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, number }) => {
+      try {
+        return replaySnapshotSchema.parse(JSON.parse(line));
+      } catch (error) {
+        throw new Error(`Invalid replay snapshot on line ${number}: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+    .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime());
+}
+
+/**
+ * Latest recorded state of every event in the snapshots, oldest first
+ * A snapshot only holds the sports and markets its request asked for, so each
+ * bookmaker market keeps its prices from the last snapshot that included it
+ */
+function mergeSnapshotEvents(snapshots: ReplaySnapshot[]): OddsApiEvent[] {
+  const events = new Map<string, OddsApiEvent>();
+
+  for (const snapshot of snapshots) {
+    for (const event of snapshot.events) {
+      const bookmakers = new Map((events.get(event.id)?.bookmakers ?? []).map(b => [b.key, b]));
+      for (const bookmaker of event.bookmakers) {
+        const markets = new Map((bookmakers.get(bookmaker.key)?.markets ?? []).map(m => [m.key, m]));
+        bookmaker.markets.forEach(market => markets.set(market.key, market));
+        bookmakers.set(bookmaker.key, { ...bookmaker, markets: Array.from(markets.values()) });
+      }
+      events.set(event.id, { ...event, bookmakers: Array.from(bookmakers.values()) });
+    }
+  }
+
+  return Array.from(events.values());
+}
+
+export class ReplayOddsProvider implements OddsProvider {
+  private snapshots: Promise<ReplaySnapshot[]> | null = null;
+  private startedAt: number | null = null;
+  private speed: number;
+  private loop: boolean;
+  private clock: () => Date;
+
+  constructor(private filePath: string, options: ReplayOptions = {}) {
+    this.speed = options.speed && options.speed > 0 ? options.speed : 1;
+    this.loop = options.loop ?? true;
+    this.clock = options.clock ?? (() => new Date());
+  }
+
+  getName(): string {
+    return "Replay Provider";
+  }
+
+  private loadSnapshots(): Promise<ReplaySnapshot[]> {
+    if (!this.snapshots) {
+      this.snapshots = fs.readFile(this.filePath, "utf8").then(content => {
+        const snapshots = parseReplaySnapshots(content);
+        console.log(`[Replay] Loaded ${snapshots.length} snapshots from ${this.filePath}`);
+        return snapshots;
+      });
+      // Let a later fetch retry after a missing or broken file is fixed
+      this.snapshots.catch(() => { this.snapshots = null; });
+    }
+    return this.snapshots;
+  }
+
+  /**
+   * Events as they were at the current point of the replay
+   * The replay starts at the first snapshot on the first fetch, and each event
+   * is merged from every snapshot recorded so far in the loop. Every recorded
+   * time (commence and update times) keeps its distance from the replay clock,
+   * scaled by the speed, so events count down to kick-off and quotes age as
+   * they did when recorded. Each loop gets fresh event ids so looped events
+   * are new events to history and bet tracking
+   */
+  async fetchOdds(sports: Sport[], regions?: string[], markets?: string[]): Promise<OddsResult> {
+    const snapshots = await this.loadSnapshots();
+    const now = this.clock().getTime();
+    if (this.startedAt === null) this.startedAt = now;
+
+    if (snapshots.length === 0) {
+      return { events: [], isFromCache: false, cacheAge: 0 };
+    }
+
+    // A loop holds the last snapshot for as long as the gap before it
+    const times = snapshots.map(s => new Date(s.capturedAt).getTime());
+    const first = times[0];
+    const last = times[times.length - 1];
+    const period = times.length > 1 ? last - first + (last - times[times.length - 2]) : 0;
+    const elapsed = (now - this.startedAt) * this.speed;
+    const looping = this.loop && period > 0;
+    const loopCount = looping ? Math.floor(elapsed / period) : 0;
+    const recordedNow = first + (looping ? elapsed % period : elapsed);
+
+    const played = snapshots.filter((_, index) => times[index] <= recordedNow);
+    const toReplayTime = (time: string) =>
+      new Date(now + (new Date(time).getTime() - recordedNow) / this.speed).toISOString();
+
+    const events = mergeSnapshotEvents(played)
+      .filter(event => sports.length === 0 || sports.includes("upcoming") || sports.includes(event.sport_key as Sport))
+      .map(event => ({
+        ...event,
+        id: loopCount > 0 ? `${event.id}_loop${loopCount}` : event.id,
+        commence_time: toReplayTime(event.commence_time),
+        bookmakers: event.bookmakers
+          .map(bookmaker => ({
+            ...bookmaker,
+            last_update: toReplayTime(bookmaker.last_update),
+            markets: bookmaker.markets
+              .filter(market => !markets || markets.includes(market.key))
+              .map(market => ({
+                ...market,
+                last_update: toReplayTime(market.last_update),
+              })),
+          }))
+          .filter(bookmaker => bookmaker.markets.length > 0),
+      }));
+
+    console.log(`[Replay] Playing snapshots up to ${played[played.length - 1].capturedAt} (${events.length} events, ${this.speed}x)`);
+
+    return {
+      events,
+      isFromCache: false,
+      cacheAge: 0,
+    };
+  }
+}
+
 // ============================================================================
 // PROVIDER FACTORY
 // ============================================================================
@@ -439,14 +682,34 @@ export class MockOddsProvider implements OddsProvider {
 export function createOddsProvider(apiKey?: string, mockMode: boolean = false): OddsProvider {
   if (mockMode) {
     console.log("[ProviderFactory] Using Mock Provider");
-    return new MockOddsProvider();
+    return createMockOddsProvider();
   }
   
   if (!apiKey) {
     console.log("[ProviderFactory] No API key provided, using Mock Provider");
-    return new MockOddsProvider();
+    return createMockOddsProvider();
   }
   
   console.log("[ProviderFactory] Using The Odds API Provider");
-  return new TheOddsApiProvider(apiKey, 60);
+  return new TheOddsApiProvider(apiKey, 60, process.env.RECORD_ODDS_FILE);
+}
+
+let replayProvider: ReplayOddsProvider | null = null;
+
+/**
+ * Provider for the mock data source
+ * Plays back REPLAY_ODDS_FILE when set (at REPLAY_SPEED), otherwise the static
+ * mock events. The replay provider is shared so its clock survives between fetches
+ */
+export function createMockOddsProvider(): OddsProvider {
+  const replayFile = process.env.REPLAY_ODDS_FILE;
+  if (!replayFile) return new MockOddsProvider();
+
+  if (!replayProvider) {
+    console.log(`[ProviderFactory] Using Replay Provider for ${replayFile}`);
+    replayProvider = new ReplayOddsProvider(replayFile, {
+      speed: parseFloat(process.env.REPLAY_SPEED || "1"),
+    });
+  }
+  return replayProvider;
 }
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { OpportunityLifecycleTracker } from './opportunity-lifecycle';
+import type { ArbitrageOpportunity } from '@shared/schema';
+
+// ============================================================================
+// OPPORTUNITY LIFECYCLE TESTS
+// ============================================================================
+
+describe('OpportunityLifecycleTracker', () => {
+  const createOpportunity = (id: string, profit: number): ArbitrageOpportunity => ({
+    id,
+    sport: 'NBA',
+    match: 'Los Angeles Lakers vs Boston Celtics',
+    bookmakers: [
+      { name: 'DraftKings', outcome: 'Los Angeles Lakers', odds: 2.2, stake: 436 },
+      { name: 'FanDuel', outcome: 'Boston Celtics', odds: 1.7, stake: 564 },
+    ],
+    profit,
+    timestamp: new Date().toISOString(),
+  });
+
+  const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 12, minutes));
+
+  it('should keep first seen and track last seen and peak profit', () => {
+    const tracker = new OpportunityLifecycleTracker();
+
+    tracker.track('arb', [createOpportunity('a', 1.5)], undefined, at(0));
+    tracker.track('arb', [createOpportunity('a', 2.5)], undefined, at(1));
+    const [latest] = tracker.track('arb', [createOpportunity('a', 2.0)], undefined, at(2));
+
+    expect(latest.lifecycle).toEqual({
+      firstSeen: at(0).toISOString(),
+      lastSeen: at(2).toISOString(),
+      peakProfit: 2.5,
+      disappearedAt: undefined,
+    });
+  });
+
+  it('should mark opportunities that a refresh of the same scope no longer finds', () => {
+    const tracker = new OpportunityLifecycleTracker();
+
+    tracker.track('arb:nba', [createOpportunity('a', 1.5), createOpportunity('b', 1.0)], undefined, at(0));
+    tracker.track('arb:nhl', [], undefined, at(1));
+    expect(tracker.get('a')?.disappearedAt).toBeUndefined();
+
+    tracker.track('arb:nba', [createOpportunity('b', 1.0)], undefined, at(2));
+    expect(tracker.get('a')?.disappearedAt).toBe(at(2).toISOString());
+    expect(tracker.get('b')?.disappearedAt).toBeUndefined();
+  });
+
+  it('should forget disappeared opportunities after the retention period', () => {
+    const tracker = new OpportunityLifecycleTracker(5 * 60 * 1000);
+
+    tracker.track('arb', [createOpportunity('a', 1.5)], undefined, at(0));
+    tracker.track('arb', [], undefined, at(1));
+    tracker.track('arb', [], undefined, at(10));
+
+    expect(tracker.get('a')).toBeUndefined();
+  });
+});
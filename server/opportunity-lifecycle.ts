@@ -0,0 +1,111 @@
+import type { ArbitrageOpportunity, OpportunityLifecycle } from "@shared/schema";
+
+// ============================================================================
+// OPPORTUNITY LIFECYCLE TRACKING
+// Relies on deterministic opportunity IDs: the same arb keeps its ID across
+// refreshes, so its history can be followed from first sighting until it goes
+// ============================================================================
+
+interface LifecycleRecord extends OpportunityLifecycle {
+  id: string;
+  scope: string;
+}
+
+// How long a disappeared opportunity is remembered
+const DEFAULT_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+export class OpportunityLifecycleTracker {
+  private records: Map<string, LifecycleRecord> = new Map();
+
+  constructor(private retentionMs: number = DEFAULT_RETENTION_MS) {}
+
+  /**
+   * Record a refresh and attach lifecycle data to each opportunity
+   * Only opportunities tracked under the same scope can be marked as
+   * disappeared, so a scan of other sports or markets does not end them
+   *
+   * @param scope - Identifies what was scanned (kind, sports, markets)
+   * @param valueOf - Profit measure used for the peak (default: profit %)
+   */
+  track(
+    scope: string,
+    opportunities: ArbitrageOpportunity[],
+    valueOf: (opportunity: ArbitrageOpportunity) => number = opp => opp.profit,
+    now: Date = new Date()
+  ): ArbitrageOpportunity[] {
+    const timestamp = now.toISOString();
+    const seen = new Set<string>();
+
+    const tracked = opportunities.map(opportunity => {
+      seen.add(opportunity.id);
+      const value = valueOf(opportunity);
+      const existing = this.records.get(opportunity.id);
+
+      const record: LifecycleRecord = existing
+        ? {
+            ...existing,
+            scope,
+            lastSeen: timestamp,
+            peakProfit: Math.max(existing.peakProfit, value),
+            disappearedAt: undefined,
+          }
+        : {
+            id: opportunity.id,
+            scope,
+            firstSeen: timestamp,
+            lastSeen: timestamp,
+            peakProfit: value,
+          };
+      this.records.set(opportunity.id, record);
+
+      return { ...opportunity, lifecycle: this.toLifecycle(record) };
+    });
+
+    this.records.forEach(record => {
+      if (record.scope === scope && !record.disappearedAt && !seen.has(record.id)) {
+        record.disappearedAt = timestamp;
+      }
+    });
+
+    this.prune(now);
+    return tracked;
+  }
+
+  /**
+   * Lifecycle records, newest first, including opportunities that have gone
+   */
+  getRecords(): (OpportunityLifecycle & { id: string })[] {
+    return Array.from(this.records.values())
+      .map(record => ({ id: record.id, ...this.toLifecycle(record) }))
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+
+  get(id: string): OpportunityLifecycle | undefined {
+    const record = this.records.get(id);
+    return record ? this.toLifecycle(record) : undefined;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  private prune(now: Date): void {
+    const cutoff = now.getTime() - this.retentionMs;
+    this.records.forEach((record, id) => {
+      if (record.disappearedAt && new Date(record.disappearedAt).getTime() < cutoff) {
+        this.records.delete(id);
+      }
+    });
+  }
+
+  private toLifecycle(record: LifecycleRecord): OpportunityLifecycle {
+    return {
+      firstSeen: record.firstSeen,
+      lastSeen: record.lastSeen,
+      peakProfit: record.peakProfit,
+      disappearedAt: record.disappearedAt,
+    };
+  }
+}
+
+export const opportunityLifecycle = new OpportunityLifecycleTracker();
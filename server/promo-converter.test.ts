@@ -0,0 +1,285 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyProfitBoost,
+  calculateFreeBetHedge,
+  calculateRiskFreeHedge,
+  calculateRolloverProgress,
+  evaluateBoost,
+  findFreeBetConversions,
+  findLowHoldRolloverMarket,
+  findRiskFreeConversions,
+  getBoostStakeCap,
+  planRollover,
+} from './promo-converter';
+import type { Bet, OddsApiEvent, Promo } from '@shared/schema';
+
+// ============================================================================
+// PROMO CONVERTER TESTS
+// ============================================================================
+
+describe('Promo Converter', () => {
+  const createEvent = (id: string, prices: Record<string, [number, number]>): OddsApiEvent => ({
+    id,
+    sport_key: 'basketball_nba',
+    sport_title: 'Basketball - NBA',
+    commence_time: new Date().toISOString(),
+    home_team: 'Lakers',
+    away_team: 'Warriors',
+    bookmakers: Object.entries(prices).map(([title, [lakers, warriors]]) => ({
+      key: title.toLowerCase(),
+      title,
+      last_update: new Date().toISOString(),
+      markets: [{
+        key: 'h2h',
+        last_update: new Date().toISOString(),
+        outcomes: [
+          { name: 'Lakers', price: lakers },
+          { name: 'Warriors', price: warriors },
+        ],
+      }],
+    })),
+  });
+
+  describe('calculateFreeBetHedge', () => {
+    it('should lock in the same cash whichever outcome wins', () => {
+      const result = calculateFreeBetHedge(100, 5.0, [1.25]);
+
+      expect(result.hedgeStakes).toEqual([320]);
+      expect(result.hedgeStake).toBe(320);
+      expect(result.guaranteedProfit).toBe(80);
+      expect(result.retention).toBe(80);
+    });
+
+    it('should split the hedge across every other outcome in 3-way markets', () => {
+      const result = calculateFreeBetHedge(50, 4.0, [2.5, 3.0]);
+
+      expect(result.hedgeStakes).toEqual([60, 50]);
+      expect(result.guaranteedProfit).toBe(40);
+      expect(result.retention).toBe(80);
+    });
+  });
+
+  describe('findFreeBetConversions', () => {
+    it('should place the free bet at the promo bookmaker and hedge elsewhere', () => {
+      const event = createEvent('event_1', {
+        DraftKings: [3.0, 1.6],
+        FanDuel: [2.9, 1.5],
+        Bet365: [2.8, 1.55],
+      });
+
+      const [conversion] = findFreeBetConversions([event], { bookmaker: 'draftkings', amount: 100, promoId: '7' });
+
+      expect(conversion.promoId).toBe('7');
+      expect(conversion.freeBet).toMatchObject({ name: 'DraftKings', outcome: 'Lakers', odds: 3.0, stake: 100 });
+      expect(conversion.hedges).toHaveLength(1);
+      expect(conversion.hedges[0]).toMatchObject({ name: 'Bet365', outcome: 'Warriors', odds: 1.55, stake: 129.03 });
+      expect(conversion.guaranteedProfit).toBe(70.97);
+      expect(conversion.retention).toBe(70.97);
+    });
+
+    it('should rank conversions by retention and skip events the promo bookmaker does not price', () => {
+      const conversions = findFreeBetConversions(
+        [
+          createEvent('even_money', { DraftKings: [2.0, 2.0], FanDuel: [1.9, 1.9] }),
+          createEvent('long_shot', { DraftKings: [3.0, 1.4], FanDuel: [2.5, 1.55] }),
+          createEvent('no_promo_book', { FanDuel: [3.0, 1.5], Bet365: [2.9, 1.6] }),
+        ],
+        { bookmaker: 'DraftKings', amount: 100 }
+      );
+
+      expect(conversions.map(c => c.eventId)).toEqual(['long_shot', 'even_money']);
+      expect(conversions[0].retention).toBeGreaterThan(conversions[1].retention);
+    });
+  });
+
+  describe('risk-free bets', () => {
+    it('should end level whether the qualifying bet wins or the refund is converted', () => {
+      const result = calculateRiskFreeHedge(100, 3.0, [1.5], 100, 70);
+
+      expect(result.hedgeStakes).toEqual([153.33]);
+      expect(result.winProfit).toBe(46.67);
+      expect(result.loseCash).toBe(-23.33);
+      expect(result.refundValue).toBe(70);
+      expect(result.guaranteedProfit).toBe(46.67);
+      expect(result.retention).toBe(46.67);
+    });
+
+    it('should value the refund at the expected conversion rate', () => {
+      const full = calculateRiskFreeHedge(100, 3.0, [1.5], 100, 80);
+      const poor = calculateRiskFreeHedge(100, 3.0, [1.5], 100, 50);
+
+      expect(full.guaranteedProfit).toBeGreaterThan(poor.guaranteedProfit);
+    });
+
+    it('should pick the qualifying outcome that locks in the most profit', () => {
+      const event = createEvent('event_1', {
+        DraftKings: [3.0, 1.4],
+        FanDuel: [2.6, 1.5],
+      });
+
+      const [conversion] = findRiskFreeConversions([event], {
+        bookmaker: 'DraftKings',
+        amount: 100,
+        conversionRate: 70,
+        promoId: '3',
+      });
+
+      expect(conversion.promoId).toBe('3');
+      expect(conversion.qualifyingBet).toMatchObject({ name: 'DraftKings', outcome: 'Lakers', stake: 100 });
+      expect(conversion.hedges[0]).toMatchObject({ name: 'FanDuel', outcome: 'Warriors', stake: 153.33 });
+      expect(conversion.guaranteedProfit).toBe(46.67);
+    });
+  });
+
+  describe('boosts', () => {
+    const event = createEvent('boosted', {
+      DraftKings: [2.0, 1.9],
+      FanDuel: [1.95, 1.95],
+      Bet365: [2.05, 1.85],
+    });
+
+    it('should boost the winnings at the quoted price', () => {
+      expect(applyProfitBoost(3.0, 50)).toBe(4.0);
+      expect(applyProfitBoost(1.9, 25)).toBeCloseTo(2.125, 10);
+    });
+
+    it('should cap the stake where the boost stops adding winnings', () => {
+      expect(getBoostStakeCap({ maxStake: 50 }, 2.5, 2.0)).toBe(50);
+      expect(getBoostStakeCap({ maxWinnings: 20 }, 2.5, 2.0)).toBe(40);
+      expect(getBoostStakeCap({ maxWinnings: 30 }, 2.5)).toBe(20);
+      expect(getBoostStakeCap({}, 2.5, 2.0)).toBeUndefined();
+    });
+
+    it('should hedge a boosted arb at the best opposing price within the stake cap', () => {
+      const result = evaluateBoost(event, {
+        bookmaker: 'DraftKings',
+        marketType: 'h2h',
+        outcome: 'Lakers',
+        profitBoost: 50,
+        maxStake: 50,
+        maxWinnings: 20,
+      })!;
+
+      expect(result.baseOdds).toBe(2.0);
+      expect(result.boostedOdds).toBe(2.5);
+      expect(result.stakeCap).toBe(40);
+      expect(result.arbitrage).toBe(true);
+      expect(result.legs[0]).toMatchObject({ name: 'DraftKings', outcome: 'Lakers', stake: 40 });
+      expect(result.legs[1]).toMatchObject({ name: 'FanDuel', outcome: 'Warriors', odds: 1.95, stake: 51.28 });
+      expect(result.guaranteedProfit).toBe(8.72);
+      expect(result.profit).toBeCloseTo(9.55, 2);
+    });
+
+    it('should fall back to EV when the boost does not beat the opposing prices', () => {
+      const result = evaluateBoost(event, {
+        bookmaker: 'DraftKings',
+        marketType: 'h2h',
+        outcome: 'Lakers',
+        boostedOdds: 2.02,
+      })!;
+
+      expect(result.arbitrage).toBe(false);
+      expect(result.profit).toBeLessThan(0);
+      expect(result.legs[0].stake).toBe(100);
+      expect(result.legs[1].stake).toBe(0);
+      expect(result.ev).toBeLessThan(0);
+    });
+
+    it('should not evaluate a profit boost the bookmaker does not price', () => {
+      expect(evaluateBoost(event, {
+        bookmaker: 'Caesars',
+        marketType: 'h2h',
+        outcome: 'Lakers',
+        profitBoost: 25,
+      })).toBeNull();
+    });
+  });
+
+  describe('deposit bonus rollover', () => {
+    const promo: Promo = {
+      id: '5',
+      bookmaker: 'DraftKings',
+      type: 'deposit_bonus',
+      value: 50,
+      depositAmount: 200,
+      rolloverMultiplier: 10,
+      minOdds: 1.8,
+      timestamp: new Date().toISOString(),
+    };
+
+    const createBet = (promoId: string | undefined, legs: Bet['bookmakers']): Bet => ({
+      id: Math.random().toString(),
+      eventId: 'event_1',
+      sport: 'NBA',
+      match: 'Lakers vs Warriors',
+      bookmakers: legs,
+      promoId,
+      status: 'pending',
+      profit: 0,
+      timestamp: new Date().toISOString(),
+    });
+
+    const bets = [
+      createBet('5', [
+        { name: 'DraftKings', outcome: 'Lakers', odds: 2.0, stake: 300 },
+        { name: 'FanDuel', outcome: 'Warriors', odds: 2.0, stake: 300 },
+      ]),
+      createBet('5', [{ name: 'DraftKings', outcome: 'Lakers', odds: 1.5, stake: 200 }]),
+      createBet(undefined, [{ name: 'DraftKings', outcome: 'Lakers', odds: 2.0, stake: 500 }]),
+    ];
+
+    it('should count linked cash stakes at the promo bookmaker above the minimum odds', () => {
+      const progress = calculateRolloverProgress(promo, bets);
+
+      expect(progress.bonus).toBe(100);
+      expect(progress.requirement).toBe(1000);
+      expect(progress.wagered).toBe(300);
+      expect(progress.remaining).toBe(700);
+      expect(progress.progress).toBe(30);
+      expect(progress.qualifyingBets).toBe(1);
+    });
+
+    it('should match legs to a promo configured by bookmaker key', () => {
+      const progress = calculateRolloverProgress({ ...promo, bookmaker: 'williamhill_us' }, [
+        createBet('5', [{ name: 'William Hill', bookmakerKey: 'williamhill_us', outcome: 'Lakers', odds: 2.0, stake: 250 }]),
+      ]);
+
+      expect(progress.wagered).toBe(250);
+      expect(progress.qualifyingBets).toBe(1);
+    });
+
+    it('should pick the market with the lowest cost per unit wagered', () => {
+      const market = findLowHoldRolloverMarket(
+        [
+          createEvent('high_hold', { DraftKings: [1.9, 1.9], FanDuel: [1.85, 1.85] }),
+          createEvent('low_hold', { DraftKings: [2.0, 1.85], FanDuel: [1.8, 1.98] }),
+        ],
+        'DraftKings',
+        1.8
+      )!;
+
+      expect(market.eventId).toBe('low_hold');
+      expect(market.legs[0]).toMatchObject({ name: 'DraftKings', outcome: 'Lakers', stake: 100 });
+      expect(market.legs[1]).toMatchObject({ name: 'FanDuel', outcome: 'Warriors', stake: 101.01 });
+      expect(market.hold).toBeCloseTo(0.51, 2);
+      expect(market.costPerUnit).toBeCloseTo(0.0101, 4);
+    });
+
+    it('should weigh the expected clearing cost against the bonus', () => {
+      const market = findLowHoldRolloverMarket(
+        [createEvent('low_hold', { DraftKings: [2.0, 1.85], FanDuel: [1.8, 1.98] })],
+        'DraftKings',
+        1.8
+      );
+
+      const status = planRollover(promo, bets, market);
+      expect(status.expectedCost).toBe(7.07);
+      expect(status.expectedValue).toBe(92.93);
+      expect(status.positiveEV).toBe(true);
+
+      const expired = planRollover({ ...promo, expiryDate: '2020-01-01' }, bets, market);
+      expect(expired.expired).toBe(true);
+      expect(expired.positiveEV).toBe(false);
+    });
+  });
+});
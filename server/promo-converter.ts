@@ -0,0 +1,658 @@
+import type {
+  Bet,
+  BookmakerOdds,
+  BoostEvaluation,
+  FreeBetConversion,
+  MarketType,
+  OddsApiBookmaker,
+  OddsApiEvent,
+  Promo,
+  RiskFreeConversion,
+  RolloverMarket,
+  RolloverStatus,
+} from "@shared/schema";
+import {
+  buildOpportunityId,
+  calculateDevigFairPrices,
+  calculateEffectiveOdds,
+  calculateExpectedValue,
+  calculateMarketHold,
+  findBestPrices,
+  findBookmakerProfile,
+  getMarketLines,
+  getMarketShape,
+  getOutcomeLine,
+  localizeStakes,
+  type BestPrice,
+  type ScanOptions,
+} from "./arbitrage-engine";
+
+// ============================================================================
+// PROMO CONVERSION
+// Turns bookmaker promos into guaranteed cash by hedging every other outcome
+// at the best price elsewhere
+// ============================================================================
+
+export interface FreeBetOffer {
+  bookmaker: string; // Bookmaker the free bet must be placed at
+  amount: number; // Free bet amount (base currency)
+  promoId?: string;
+}
+
+export interface BoostOffer {
+  bookmaker: string; // Bookmaker offering the boost
+  marketType: MarketType;
+  outcome: string;
+  point?: number; // Spread/total line of the boosted outcome
+  boostedOdds?: number; // Boosted decimal price
+  profitBoost?: number; // % added to the winnings at the quoted price
+  maxStake?: number;
+  maxWinnings?: number; // Most the boost can add to winnings
+  promoId?: string;
+}
+
+export interface RiskFreeOffer {
+  bookmaker: string; // Bookmaker the qualifying bet must be placed at
+  amount: number; // Qualifying stake, refunded as a free bet if it loses (base currency)
+  conversionRate: number; // Expected % of the refund kept when it is converted
+  promoId?: string;
+}
+
+export interface FreeBetHedge {
+  hedgeStakes: number[];
+  hedgeStake: number;
+  guaranteedProfit: number;
+  retention: number; // Guaranteed profit as % of the free bet amount
+}
+
+export interface RiskFreeHedge {
+  hedgeStakes: number[];
+  hedgeStake: number;
+  winProfit: number; // Qualifying bet wins
+  loseCash: number; // Qualifying bet loses, before the refund
+  refundValue: number; // Expected cash from converting the refund
+  guaranteedProfit: number;
+  retention: number; // Guaranteed profit as % of the refund
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isBookmaker(name: string, bookmaker: Pick<OddsApiBookmaker, "key" | "title">): boolean {
+  const target = name.trim().toLowerCase();
+  return bookmaker.key.toLowerCase() === target || bookmaker.title.toLowerCase() === target;
+}
+
+/**
+ * Hedge a risk-free bet so both branches end level: the qualifying bet wins,
+ * or it loses and the refund is converted at the expected rate
+ * Win: stake * (odds - 1) - H. Outcome i wins: h_i * o_i - H - stake + refund * rate,
+ * so equal results need h_i = (stake * odds - refund * rate) / o_i
+ *
+ * @param stake - Qualifying cash stake
+ * @param odds - Odds of the qualifying bet (net of commission)
+ * @param hedgeOdds - Odds for every other outcome (net of commission)
+ * @param refund - Free bet paid out if the qualifying bet loses
+ * @param conversionRate - Expected % of the refund kept when converting it
+ */
+export function calculateRiskFreeHedge(
+  stake: number,
+  odds: number,
+  hedgeOdds: number[],
+  refund: number,
+  conversionRate: number
+): RiskFreeHedge {
+  const refundValue = refund * (conversionRate / 100);
+  const hedgeReturn = Math.max(0, stake * odds - refundValue);
+  const hedgeStakes = hedgeOdds.map(o => hedgeReturn / o);
+  const hedgeStake = hedgeStakes.reduce((sum, h) => sum + h, 0);
+  const winProfit = stake * (odds - 1) - hedgeStake;
+  const loseCash = hedgeReturn - hedgeStake - stake;
+
+  return {
+    hedgeStakes: hedgeStakes.map(roundCents),
+    hedgeStake: roundCents(hedgeStake),
+    winProfit: roundCents(winProfit),
+    loseCash: roundCents(loseCash),
+    refundValue: roundCents(refundValue),
+    guaranteedProfit: roundCents(Math.min(winProfit, loseCash + refundValue)),
+    retention: refund > 0 ? roundCents((Math.min(winProfit, loseCash + refundValue) / refund) * 100) : 0,
+  };
+}
+
+/**
+ * Hedge a free bet (stake not returned) into the same cash whichever outcome wins
+ * The free bet pays amount * (odds - 1) and each hedge pays h_i * o_i, so equal
+ * returns need h_i = amount * (odds - 1) / o_i
+ *
+ * @param amount - Free bet amount
+ * @param freeBetOdds - Odds the free bet is placed at (net of commission)
+ * @param hedgeOdds - Odds for every other outcome (net of commission)
+ */
+export function calculateFreeBetHedge(amount: number, freeBetOdds: number, hedgeOdds: number[]): FreeBetHedge {
+  const freeBetReturn = amount * (freeBetOdds - 1);
+  const hedgeStakes = hedgeOdds.map(odds => freeBetReturn / odds);
+  const hedgeStake = hedgeStakes.reduce((sum, stake) => sum + stake, 0);
+  const guaranteedProfit = freeBetReturn - hedgeStake;
+
+  return {
+    hedgeStakes: hedgeStakes.map(roundCents),
+    hedgeStake: roundCents(hedgeStake),
+    guaranteedProfit: roundCents(guaranteedProfit),
+    retention: amount > 0 ? roundCents((guaranteedProfit / amount) * 100) : 0,
+  };
+}
+
+interface PromoLegCandidate {
+  promoPrice: BestPrice; // Outcome placed at the promo bookmaker
+  promoOdds: number; // Net of commission
+  hedges: BestPrice[]; // Best price elsewhere for every other outcome
+  hedgeOdds: number[]; // Net of commission
+}
+
+/**
+ * Every way to place the promo leg in one market: each outcome the promo
+ * bookmaker quotes, with the other outcomes hedged at the best price at any
+ * other bookmaker
+ */
+function getPromoLegCandidates(
+  event: OddsApiEvent,
+  marketKey: MarketType,
+  line: number | undefined,
+  bookmakerName: string,
+  options: ScanOptions
+): PromoLegCandidate[] {
+  const shape = getMarketShape(event, marketKey, line);
+  if (!shape.complete) return [];
+
+  const promoBookmaker = event.bookmakers.find(bookmaker => isBookmaker(bookmakerName, bookmaker));
+  if (!promoBookmaker) return [];
+
+  const promoPrices = findBestPrices(event, marketKey, shape.outcomes, line, options, b => b === promoBookmaker);
+  const hedgePrices = findBestPrices(
+    event,
+    marketKey,
+    shape.outcomes,
+    line,
+    options,
+    bookmaker => bookmaker !== promoBookmaker
+  );
+
+  const candidates: PromoLegCandidate[] = [];
+  for (const promoPrice of promoPrices) {
+    // The promo bookmaker must price the outcome the promo leg goes on
+    if (promoPrice.odds <= 1) continue;
+
+    const hedges = hedgePrices.filter(price => price.outcome !== promoPrice.outcome);
+    if (hedges.some(price => price.odds <= 0)) continue;
+
+    candidates.push({
+      promoPrice,
+      promoOdds: calculateEffectiveOdds(promoPrice.odds, promoPrice.commission),
+      hedges,
+      hedgeOdds: hedges.map(price => calculateEffectiveOdds(price.odds, price.commission)),
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Promo leg first, then the hedges, with stakes in each account's currency
+ */
+function buildPromoLegs(
+  candidate: PromoLegCandidate,
+  promoStake: number,
+  hedgeStakes: number[],
+  options: ScanOptions
+): BookmakerOdds[] {
+  const prices = [candidate.promoPrice, ...candidate.hedges];
+  const effectiveOdds = [candidate.promoOdds, ...candidate.hedgeOdds];
+  const stakes = [promoStake, ...hedgeStakes];
+
+  return localizeStakes({
+    bookmakers: prices.map((price, i) => ({
+      name: price.bookmaker,
+      bookmakerKey: price.bookmakerKey,
+      outcome: price.outcome,
+      odds: price.odds,
+      point: price.point,
+      commission: price.commission > 0 ? price.commission : undefined,
+      effectiveOdds: price.commission > 0 ? effectiveOdds[i] : undefined,
+      stake: stakes[i],
+      lastUpdate: price.lastUpdate,
+      stale: price.stale || undefined,
+    })),
+  }, options).bookmakers;
+}
+
+/**
+ * Run a per-market promo search over every event, market and line
+ */
+function scanPromoMarkets<T>(
+  events: OddsApiEvent[],
+  markets: MarketType[],
+  find: (event: OddsApiEvent, marketKey: MarketType, line: number | undefined) => T | null
+): T[] {
+  const results: T[] = [];
+
+  for (const event of events) {
+    for (const marketKey of markets) {
+      const lines = marketKey === "h2h" ? [undefined] : getMarketLines(event, marketKey);
+      for (const line of lines) {
+        const result = find(event, marketKey, line);
+        if (result) results.push(result);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Find the best risk-free bet hedge in one market
+ */
+function findMarketRiskFreeConversion(
+  event: OddsApiEvent,
+  marketKey: MarketType,
+  line: number | undefined,
+  offer: RiskFreeOffer,
+  options: ScanOptions
+): RiskFreeConversion | null {
+  let best: RiskFreeConversion | null = null;
+
+  for (const candidate of getPromoLegCandidates(event, marketKey, line, offer.bookmaker, options)) {
+    const result = calculateRiskFreeHedge(
+      offer.amount,
+      candidate.promoOdds,
+      candidate.hedgeOdds,
+      offer.amount,
+      offer.conversionRate
+    );
+    if (best && result.guaranteedProfit <= best.guaranteedProfit) continue;
+
+    const legs = buildPromoLegs(candidate, offer.amount, result.hedgeStakes, options);
+    best = {
+      id: buildOpportunityId(
+        event.id,
+        marketKey,
+        legs.map(leg => ({ bookmaker: `${leg.outcome} ${leg.name}` })),
+        { line, kind: "risk_free" }
+      ),
+      promoId: offer.promoId,
+      eventId: event.id,
+      sport: event.sport_title,
+      match: `${event.home_team} vs ${event.away_team}`,
+      commenceTime: event.commence_time,
+      marketType: marketKey,
+      qualifyingBet: legs[0],
+      hedges: legs.slice(1),
+      hedgeStake: result.hedgeStake,
+      refund: offer.amount,
+      conversionRate: offer.conversionRate,
+      winProfit: result.winProfit,
+      loseCash: result.loseCash,
+      refundValue: result.refundValue,
+      guaranteedProfit: result.guaranteedProfit,
+      retention: result.retention,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Find the best conversion of a free bet in one market
+ */
+function findMarketFreeBetConversion(
+  event: OddsApiEvent,
+  marketKey: MarketType,
+  line: number | undefined,
+  offer: FreeBetOffer,
+  options: ScanOptions
+): FreeBetConversion | null {
+  let best: FreeBetConversion | null = null;
+
+  for (const candidate of getPromoLegCandidates(event, marketKey, line, offer.bookmaker, options)) {
+    const result = calculateFreeBetHedge(offer.amount, candidate.promoOdds, candidate.hedgeOdds);
+    if (best && result.retention <= best.retention) continue;
+
+    const legs = buildPromoLegs(candidate, offer.amount, result.hedgeStakes, options);
+    best = {
+      id: buildOpportunityId(
+        event.id,
+        marketKey,
+        legs.map(leg => ({ bookmaker: `${leg.outcome} ${leg.name}` })),
+        { line, kind: "free_bet" }
+      ),
+      promoId: offer.promoId,
+      eventId: event.id,
+      sport: event.sport_title,
+      match: `${event.home_team} vs ${event.away_team}`,
+      commenceTime: event.commence_time,
+      marketType: marketKey,
+      freeBet: legs[0],
+      hedges: legs.slice(1),
+      hedgeStake: result.hedgeStake,
+      guaranteedProfit: result.guaranteedProfit,
+      retention: result.retention,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Scan events for the best ways to convert a free bet into guaranteed cash
+ *
+ * @param events - Events to scan
+ * @param offer - Free bet bookmaker and amount
+ * @param markets - Markets to scan; spreads and totals are scanned line by line
+ * @param options - Scan options (commission, stale quotes, account currencies)
+ * @returns Conversions ranked by retention rate, best first
+ */
+export function findFreeBetConversions(
+  events: OddsApiEvent[],
+  offer: FreeBetOffer,
+  markets: MarketType[] = ["h2h"],
+  options: ScanOptions = {}
+): FreeBetConversion[] {
+  return scanPromoMarkets(events, markets, (event, marketKey, line) =>
+    findMarketFreeBetConversion(event, marketKey, line, offer, options)
+  ).sort((a, b) => b.retention - a.retention);
+}
+
+/**
+ * Price after a profit boost: the winnings at the quoted odds grow by the boost %
+ * A 50% boost on 3.0 pays 2 * 1.5 = 3 in winnings, so the boosted price is 4.0
+ */
+export function applyProfitBoost(odds: number, profitBoost: number): number {
+  return 1 + (odds - 1) * (1 + profitBoost / 100);
+}
+
+/**
+ * Most the boosted leg can be staked before the boost stops paying
+ * Past the max winnings the extra stake only earns the unboosted price, so the
+ * cap is the smaller of the max stake and the stake at which max winnings is hit
+ *
+ * @param baseOdds - Unboosted price; without it max winnings caps all winnings
+ * @returns undefined when the boost has no cap
+ */
+export function getBoostStakeCap(
+  offer: Pick<BoostOffer, "maxStake" | "maxWinnings">,
+  boostedOdds: number,
+  baseOdds?: number
+): number | undefined {
+  const caps: number[] = [];
+  if (offer.maxStake !== undefined) caps.push(offer.maxStake);
+  if (offer.maxWinnings !== undefined) {
+    const extraPerUnit = baseOdds !== undefined ? boostedOdds - baseOdds : boostedOdds - 1;
+    if (extraPerUnit > 0) caps.push(offer.maxWinnings / extraPerUnit);
+  }
+  return caps.length > 0 ? roundCents(Math.min(...caps)) : undefined;
+}
+
+/**
+ * Check a boosted price against the best opposing prices at every bookmaker
+ * With an arb the opposing legs are staked so every outcome returns the same;
+ * otherwise only the boosted leg is staked and its EV against the de-vigged
+ * fair price says whether the boost is worth taking
+ *
+ * @param offer - Boosted bookmaker, outcome, and price or profit boost
+ * @param options - Scan options (commission, de-vig method, stale quotes, account currencies)
+ * @param stake - Stake on the boosted leg (default: the stake cap, or 100 when uncapped)
+ * @returns null when the outcome's market is not fully priced or a profit
+ *          boost has no quoted price to boost
+ */
+export function evaluateBoost(
+  event: OddsApiEvent,
+  offer: BoostOffer,
+  options: ScanOptions = {},
+  stake?: number
+): BoostEvaluation | null {
+  const marketKey = offer.marketType;
+  const line = marketKey === "h2h" ? undefined : getOutcomeLine(event, marketKey, { name: offer.outcome, point: offer.point });
+  if (marketKey !== "h2h" && line === undefined) return null;
+
+  const shape = getMarketShape(event, marketKey, line);
+  if (!shape.complete || !shape.outcomes.includes(offer.outcome)) return null;
+
+  const boostBookmaker = event.bookmakers.find(bookmaker => isBookmaker(offer.bookmaker, bookmaker));
+  const [quoted] = boostBookmaker
+    ? findBestPrices(event, marketKey, [offer.outcome], line, options, b => b === boostBookmaker)
+    : [];
+  const baseOdds = quoted && quoted.odds > 1 ? quoted.odds : undefined;
+
+  const boostedOdds = offer.boostedOdds
+    ?? (baseOdds !== undefined && offer.profitBoost !== undefined ? applyProfitBoost(baseOdds, offer.profitBoost) : undefined);
+  if (boostedOdds === undefined) return null;
+
+  const commission = findBookmakerProfile(
+    options.bookmakerProfiles,
+    boostBookmaker ?? { key: offer.bookmaker, title: offer.bookmaker }
+  )?.commission ?? 0;
+  const boostedEffective = calculateEffectiveOdds(boostedOdds, commission);
+
+  const opposing = findBestPrices(
+    event,
+    marketKey,
+    shape.outcomes.filter(outcome => outcome !== offer.outcome),
+    line,
+    options
+  );
+  const opposingEffective = opposing.map(price => calculateEffectiveOdds(price.odds, price.commission));
+  const hedgeable = opposing.every(price => price.odds > 1);
+  const impliedTotal = 1 / boostedEffective + opposingEffective.reduce((sum, odds) => sum + 1 / odds, 0);
+  const arbitrage = hedgeable && impliedTotal < 1;
+
+  const stakeCap = getBoostStakeCap(offer, boostedOdds, baseOdds);
+  const boostStake = roundCents(Math.min(stake ?? stakeCap ?? 100, stakeCap ?? Infinity));
+
+  // Equal returns: each opposing stake pays what the boosted leg pays
+  const hedgeStakes = opposingEffective.map(odds => arbitrage ? roundCents((boostStake * boostedEffective) / odds) : 0);
+  const totalStake = boostStake + hedgeStakes.reduce((sum, s) => sum + s, 0);
+
+  const outcomeIndex = shape.outcomes.indexOf(offer.outcome);
+  const fairProbability = calculateDevigFairPrices(event, marketKey, shape.outcomes, { ...options, line })[outcomeIndex];
+  const ev = fairProbability !== null ? calculateExpectedValue(boostedEffective, fairProbability, boostStake) : null;
+
+  const legs = localizeStakes({
+    bookmakers: [
+      {
+        name: boostBookmaker?.title ?? offer.bookmaker,
+        bookmakerKey: boostBookmaker?.key,
+        outcome: offer.outcome,
+        odds: roundCents(boostedOdds),
+        point: offer.point,
+        commission: commission > 0 ? commission : undefined,
+        effectiveOdds: commission > 0 ? Math.round(boostedEffective * 10000) / 10000 : undefined,
+        stake: boostStake,
+        ev: ev?.evPercentage,
+        evDollars: ev?.evDollars,
+        devigMethod: ev ? options.devigMethod ?? "multiplicative" : undefined,
+        lastUpdate: quoted?.lastUpdate,
+        stale: quoted?.stale || undefined,
+      },
+      ...opposing.map((price, i) => ({
+        name: price.bookmaker,
+        bookmakerKey: price.bookmakerKey,
+        outcome: price.outcome,
+        odds: price.odds,
+        point: price.point,
+        commission: price.commission > 0 ? price.commission : undefined,
+        effectiveOdds: price.commission > 0 ? Math.round(opposingEffective[i] * 10000) / 10000 : undefined,
+        stake: hedgeStakes[i],
+        lastUpdate: price.lastUpdate,
+        stale: price.stale || undefined,
+      })),
+    ],
+  }, options).bookmakers;
+
+  return {
+    id: buildOpportunityId(
+      event.id,
+      marketKey,
+      legs.map(leg => ({ bookmaker: `${leg.outcome} ${leg.name}` })),
+      { line, kind: "boost" }
+    ),
+    promoId: offer.promoId,
+    eventId: event.id,
+    sport: event.sport_title,
+    match: `${event.home_team} vs ${event.away_team}`,
+    commenceTime: event.commence_time,
+    marketType: marketKey,
+    baseOdds,
+    boostedOdds: roundCents(boostedOdds),
+    stakeCap,
+    arbitrage,
+    profit: hedgeable ? roundCents((1 / impliedTotal - 1) * 100) : 0,
+    guaranteedProfit: arbitrage ? roundCents(boostStake * boostedEffective - totalStake) : 0,
+    ev: ev?.evPercentage ?? null,
+    evDollars: ev?.evDollars ?? null,
+    legs,
+  };
+}
+
+/**
+ * Scan events for the hedge that locks in the most profit from a risk-free bet
+ * over both the win branch and the refund branch
+ *
+ * @param events - Events to scan
+ * @param offer - Promo bookmaker, qualifying stake and expected refund conversion rate
+ * @param markets - Markets to scan; spreads and totals are scanned line by line
+ * @param options - Scan options (commission, stale quotes, account currencies)
+ * @returns Conversions ranked by guaranteed profit, best first
+ */
+export function findRiskFreeConversions(
+  events: OddsApiEvent[],
+  offer: RiskFreeOffer,
+  markets: MarketType[] = ["h2h"],
+  options: ScanOptions = {}
+): RiskFreeConversion[] {
+  return scanPromoMarkets(events, markets, (event, marketKey, line) =>
+    findMarketRiskFreeConversion(event, marketKey, line, offer, options)
+  ).sort((a, b) => b.guaranteedProfit - a.guaranteedProfit);
+}
+
+/**
+ * Deposit bonus amount: the deposit matched at the promo's value %
+ */
+export function getDepositBonus(promo: Pick<Promo, "value" | "depositAmount">): number {
+  return roundCents((promo.depositAmount ?? 0) * (promo.value / 100));
+}
+
+/**
+ * Wagering a deposit bonus still needs from bets linked to the promo
+ * Only cash stakes at the promo bookmaker at or above the minimum odds count
+ */
+export function calculateRolloverProgress(
+  promo: Pick<Promo, "id" | "bookmaker" | "value" | "depositAmount" | "rolloverMultiplier" | "minOdds">,
+  bets: Bet[]
+): Pick<RolloverStatus, "bonus" | "requirement" | "wagered" | "remaining" | "progress" | "qualifyingBets"> {
+  const bonus = getDepositBonus(promo);
+  const requirement = roundCents(bonus * (promo.rolloverMultiplier ?? 0));
+  const minOdds = promo.minOdds ?? 1;
+
+  let wagered = 0;
+  let qualifyingBets = 0;
+  for (const bet of bets) {
+    if (bet.promoId !== promo.id) continue;
+
+    const legs = bet.bookmakers.filter(leg =>
+      !leg.freeBet && leg.odds >= minOdds && isBookmaker(promo.bookmaker, { key: leg.bookmakerKey ?? leg.name, title: leg.name })
+    );
+    if (legs.length === 0) continue;
+
+    qualifyingBets++;
+    wagered += legs.reduce((sum, leg) => sum + leg.stake, 0);
+  }
+
+  const remaining = Math.max(0, requirement - wagered);
+  return {
+    bonus,
+    requirement,
+    wagered: roundCents(wagered),
+    remaining: roundCents(remaining),
+    progress: requirement > 0 ? roundCents(Math.min(100, (wagered / requirement) * 100)) : 100,
+    qualifyingBets,
+  };
+}
+
+/**
+ * Find the cheapest market to wager a rollover in: a qualifying price at the
+ * promo bookmaker hedged at the best prices elsewhere
+ * Hedging a stake S at odds o costs S * o * hold / 100, so markets are ranked
+ * by that cost per unit wagered rather than by hold alone
+ *
+ * @param minOdds - Lowest odds that count toward the rollover
+ */
+export function findLowHoldRolloverMarket(
+  events: OddsApiEvent[],
+  bookmaker: string,
+  minOdds: number = 1,
+  markets: MarketType[] = ["h2h"],
+  options: ScanOptions = {}
+): RolloverMarket | null {
+  const candidates = scanPromoMarkets(events, markets, (event, marketKey, line) => {
+    let best: RolloverMarket | null = null;
+
+    for (const candidate of getPromoLegCandidates(event, marketKey, line, bookmaker, options)) {
+      if (candidate.promoPrice.odds < minOdds) continue;
+
+      const odds = [candidate.promoOdds, ...candidate.hedgeOdds];
+      const hold = calculateMarketHold(odds);
+      // Unrounded hold, so near-zero holds still rank correctly
+      const costPerUnit = candidate.promoOdds * (odds.reduce((sum, o) => sum + 1 / o, 0) - 1);
+      if (best && costPerUnit >= best.costPerUnit) continue;
+
+      const stake = 100;
+      const hedgeStakes = candidate.hedgeOdds.map(odds => roundCents((stake * candidate.promoOdds) / odds));
+      best = {
+        eventId: event.id,
+        sport: event.sport_title,
+        match: `${event.home_team} vs ${event.away_team}`,
+        commenceTime: event.commence_time,
+        marketType: marketKey,
+        legs: buildPromoLegs(candidate, stake, hedgeStakes, options),
+        hold,
+        costPerUnit: Math.round(costPerUnit * 10000) / 10000,
+      };
+    }
+
+    return best;
+  });
+
+  return candidates.reduce<RolloverMarket | null>(
+    (best, market) => (!best || market.costPerUnit < best.costPerUnit ? market : best),
+    null
+  );
+}
+
+/**
+ * Rollover progress, the expected cost of clearing the rest in the cheapest
+ * current market, and whether the bonus is still worth more than that cost
+ */
+export function planRollover(
+  promo: Promo,
+  bets: Bet[],
+  market: RolloverMarket | null,
+  now: Date = new Date()
+): RolloverStatus {
+  const progress = calculateRolloverProgress(promo, bets);
+  const expired = !!promo.expiryDate && new Date(promo.expiryDate) < now;
+
+  const expectedCost = progress.remaining === 0
+    ? 0
+    : market ? roundCents(progress.remaining * market.costPerUnit) : null;
+  const expectedValue = expectedCost === null ? null : roundCents(progress.bonus - expectedCost);
+
+  return {
+    promoId: promo.id,
+    ...progress,
+    market,
+    expectedCost,
+    expectedValue,
+    positiveEV: !expired && expectedValue !== null && expectedValue > 0,
+    expired,
+  };
+}
@@ -1,16 +1,48 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { createOddsProvider, oddsCache } from "./odds-provider";
-import { findAllArbitrageOpportunities } from "./arbitrage-engine";
+import { createMockOddsProvider, createOddsProvider, oddsCache, withLayMarkets } from "./odds-provider";
+import { normalizeEvents, normalizeName, suggestAliases } from "./name-normalizer";
+import { opportunityLifecycle } from "./opportunity-lifecycle";
+import { OddsHistoryRecorder } from "./odds-history";
+import { ClosingLineJob } from "./closing-line";
+import { detectSteamMoves, getSteamHistoryStart, type SteamOptions } from "./steam-detector";
+import { getBacktestWindow, getKnownResults, runBacktest } from "./backtest";
+import {
+  evaluateBoost,
+  findFreeBetConversions,
+  findLowHoldRolloverMarket,
+  findRiskFreeConversions,
+  planRollover,
+} from "./promo-converter";
+import {
+  findAllArbitrageOpportunities,
+  findBackLayOpportunities,
+  findBookmakerProfile,
+  findLowHoldMarkets,
+  getStakeLimits,
+  solveConstrainedStakes,
+  type ScanOptions,
+} from "./arbitrage-engine";
 import { 
+  backtestRequestSchema,
+  boostRequestSchema,
   getOddsRequestSchema,
+  insertBetSchema,
+  insertNameAliasSchema,
+  maxStakeRequestSchema,
+  steamQuerySchema,
+  type InsertBet,
+  type NameAliasSuggestion,
+  type OddsApiEvent,
+  type Settings,
   type Sport,
   type SportInput,
   type GetOddsResponse,
   type HealthCheckResponse,
   type TimeFilter 
 } from "@shared/schema";
+import { getFxRate } from "@shared/currency";
 import { z } from "zod";
 
 // ============================================================================
@@ -123,6 +155,157 @@ function mapSportInputToLeagues(sportInput: SportInput): Sport[] {
   return [sportInput as Sport];
 }
 
+/**
+ * Builds engine scan options from the user's settings
+ */
+function getScanOptions(settings: Settings): ScanOptions {
+  return {
+    devigMethod: settings.devigMethod,
+    bookmakerProfiles: settings.bookmakerProfiles,
+    sharpOnly: settings.sharpOnly,
+    maxQuoteAge: settings.maxQuoteAge,
+    staleQuoteMode: settings.staleQuoteMode,
+    baseCurrency: settings.baseCurrency,
+    fxRates: settings.fxRates,
+  };
+}
+
+/**
+ * Maps the ?sports= query (comma-separated categories or leagues) to unique leagues
+ */
+function resolveSports(query: unknown): Sport[] {
+  const sportInputs = query
+    ? (typeof query === "string" ? query.split(",") : query as string[])
+    : ["upcoming"];
+  return Array.from(new Set(sportInputs.flatMap(input => mapSportInputToLeagues(input as SportInput))));
+}
+
+/**
+ * Builds steam detection thresholds from the ?window=&minBooks=&minChange=&lookback= query
+ */
+function getSteamOptions(query: unknown, settings: Settings): SteamOptions {
+  const { window, minBooks, minChange, lookback } = steamQuerySchema.parse(query);
+  return {
+    windowMinutes: window,
+    minBooks,
+    minChange,
+    lookbackMinutes: lookback,
+    devigMethod: settings.devigMethod,
+  };
+}
+
+/**
+ * Fetches events from every enabled data source (mock and/or live)
+ * A failing live provider is logged and skipped so mock data still comes through
+ * Markets default to the user's enabled markets; each one costs live API quota
+ */
+async function fetchEnabledEvents(
+  settings: Settings,
+  sports: Sport[],
+  apiKey: string | undefined,
+  label: string,
+  markets: string[] = settings.markets || ["h2h"]
+): Promise<OddsApiEvent[]> {
+  const events: OddsApiEvent[] = [];
+
+  if (settings.showMockData) {
+    const mockProvider = createMockOddsProvider();
+    const mockResult = await mockProvider.fetchOdds(sports, undefined, markets);
+    events.push(...mockResult.events);
+  }
+
+  if (settings.showLiveData && apiKey && !settings.mockMode) {
+    try {
+      const liveProvider = createOddsProvider(apiKey, false);
+      const liveResult = await liveProvider.fetchOdds(sports, undefined, markets);
+      events.push(...liveResult.events);
+    } catch (error) {
+      console.error(`[API] Error fetching live data for ${label}:`, error);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Records the base currency and each leg's account currency and FX rate at
+ * placement, so later rate changes do not rewrite settled bets
+ */
+function stampBetCurrency(bet: InsertBet, settings: Settings): InsertBet {
+  return {
+    ...bet,
+    currency: bet.currency ?? settings.baseCurrency,
+    bookmakers: bet.bookmakers.map(leg => {
+      if (leg.currency && leg.fxRate) return leg;
+
+      const currency = leg.currency
+        ?? findBookmakerProfile(settings.bookmakerProfiles, { key: leg.bookmakerKey ?? leg.name, title: leg.name })?.currency
+        ?? settings.baseCurrency;
+      const fxRate = getFxRate(currency, settings);
+      if (fxRate === null) return { ...leg, currency };
+
+      return {
+        ...leg,
+        currency,
+        fxRate,
+        localStake: leg.localStake ?? Math.round(leg.stake * fxRate * 100) / 100,
+      };
+    }),
+  };
+}
+
+// Unconfirmed alias suggestions from recent scans, keyed by normalized name
+const aliasSuggestions = new Map<string, NameAliasSuggestion>();
+const dismissedSuggestions = new Set<string>();
+const MAX_ALIAS_SUGGESTIONS = 200;
+
+// Snapshots every fetch into historical_odds, skipping unchanged prices
+const oddsHistory = new OddsHistoryRecorder(storage);
+
+/**
+ * Rewrites provider events to canonical team names before the engine runs,
+ * collecting fuzzy-match suggestions for names no alias covers yet, and
+ * records the normalized odds history in the background
+ *
+ * @param waitForHistory - Resolve only once the odds are recorded, for callers reading the history back
+ */
+async function prepareEvents(events: OddsApiEvent[], waitForHistory: boolean = false): Promise<OddsApiEvent[]> {
+  const aliases = await storage.getNameAliases();
+
+  for (const suggestion of suggestAliases(events, aliases)) {
+    const key = normalizeName(suggestion.alias);
+    if (dismissedSuggestions.has(key)) continue;
+    aliasSuggestions.delete(key);
+    aliasSuggestions.set(key, suggestion);
+  }
+  while (aliasSuggestions.size > MAX_ALIAS_SUGGESTIONS) {
+    aliasSuggestions.delete(aliasSuggestions.keys().next().value!);
+  }
+
+  const normalized = normalizeEvents(events, aliases);
+  const recording = oddsHistory.record(normalized).catch(error => {
+    console.error("[API] Error recording odds history:", error);
+  });
+  if (waitForHistory) await recording;
+  return normalized;
+}
+
+/**
+ * Background closing line capture for pending bets
+ * Fetches go through prepareEvents so the pre-commence odds are recorded
+ */
+export const closingLineJob = new ClosingLineJob(storage, async (sports, markets) => {
+  const settings = await storage.getSettings();
+  const events = await fetchEnabledEvents(
+    settings,
+    sports as Sport[],
+    settings.apiKey || process.env.THE_ODDS_API_KEY,
+    "closing line",
+    markets
+  );
+  return prepareEvents(events);
+});
+
 // ============================================================================
 // API ROUTES FOR ARBITRAGE SCANNER
 // ============================================================================
@@ -144,6 +327,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ? (typeof req.query.bookmakers === 'string' ? req.query.bookmakers.split(',') : req.query.bookmakers)
           : undefined,
         timeFilter: req.query.timeFilter as TimeFilter | undefined,
+        markets: req.query.markets
+          ? (typeof req.query.markets === 'string' ? req.query.markets.split(',') : req.query.markets)
+          : undefined,
       };
 
       // Validate with Zod
@@ -165,7 +351,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sports = sportInputs.flatMap(mapSportInputToLeagues);
       const uniqueSports = Array.from(new Set(sports)) as Sport[];
       
-      console.log(`[API] Fetching odds for sports:`, uniqueSports);
+      // Markets to scan: explicit request wins, otherwise the user's enabled markets
+      const markets = validated.markets || settings.markets || ["h2h"];
+      const scanOptions = getScanOptions(settings);
+      
+      console.log(`[API] Fetching odds for sports:`, uniqueSports, `markets:`, markets);
       
       let allOpportunities: any[] = [];
       let isFromCache = false;
@@ -173,11 +363,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Fetch mock data if enabled
       if (settings.showMockData) {
-        const mockProvider = new (await import('./odds-provider')).MockOddsProvider();
+        const mockProvider = createMockOddsProvider();
         const mockResult = await mockProvider.fetchOdds(uniqueSports);
         const mockOpportunities = findAllArbitrageOpportunities(
-          mockResult.events,
-          validated.minProfit || 0
+          await prepareEvents(mockResult.events),
+          validated.minProfit || 0,
+          markets,
+          scanOptions
         ).map(opp => ({ ...opp, dataSource: 'mock' as const }));
         allOpportunities.push(...mockOpportunities);
         console.log(`[API] Added ${mockOpportunities.length} mock opportunities`);
@@ -187,7 +379,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (settings.showLiveData && apiKey && !settings.mockMode) {
         try {
           const liveProvider = createOddsProvider(apiKey, false);
-          const liveResult = await liveProvider.fetchOdds(uniqueSports);
+          const liveResult = await liveProvider.fetchOdds(uniqueSports, undefined, markets);
           
           // Save events to database
           console.log(`[API] Saving ${liveResult.events.length} events to database...`);
@@ -209,8 +401,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log(`[API] Events saved to database`);
           
           const liveOpportunities = findAllArbitrageOpportunities(
-            liveResult.events,
-            validated.minProfit || 0
+            await prepareEvents(liveResult.events),
+            validated.minProfit || 0,
+            markets,
+            scanOptions
           ).map(opp => ({ 
             ...opp, 
             dataSource: liveResult.isFromCache ? 'cached' as const : 'live' as const 
@@ -224,8 +418,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Calculate combined opportunities
-      const opportunities = allOpportunities;
+      // Attach first seen / last seen / peak profit from previous refreshes
+      const opportunities = opportunityLifecycle.track(
+        `arb:${uniqueSports.join(",")}:${markets.join(",")}`,
+        allOpportunities
+      );
 
       // Filter by bookmakers if specified
       let filteredOpportunities = opportunities;
@@ -278,33 +475,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const headerApiKey = req.headers['x-api-key'] as string | undefined;
       const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
       
-      // Map general sport categories to specific leagues
-      const sportInputs = req.query.sports 
-        ? (typeof req.query.sports === 'string' ? req.query.sports.split(',') : req.query.sports)
-        : ["upcoming"];
-      const sports = (sportInputs as string[]).flatMap(mapSportInputToLeagues);
-      const uniqueSports = Array.from(new Set(sports)) as Sport[];
-      
-      let allEvents: any[] = [];
-      
-      // Fetch events from enabled sources
-      if (settings.showMockData) {
-        const mockProvider = new (await import('./odds-provider')).MockOddsProvider();
-        const mockResult = await mockProvider.fetchOdds(uniqueSports);
-        allEvents.push(...mockResult.events);
-      }
+      const uniqueSports = resolveSports(req.query.sports);
+      const allEvents = await fetchEnabledEvents(settings, uniqueSports, apiKey, "middles", ["spreads", "totals"]);
       
-      if (settings.showLiveData && apiKey && !settings.mockMode) {
-        try {
-          const liveProvider = createOddsProvider(apiKey, false);
-          const liveResult = await liveProvider.fetchOdds(uniqueSports);
-          allEvents.push(...liveResult.events);
-        } catch (error) {
-          console.error(`[API] Error fetching live data for middles:`, error);
-        }
-      }
-      
-      const middles = findMiddles(allEvents);
+      const middles = opportunityLifecycle.track(
+        `middles:${uniqueSports.join(",")}`,
+        findMiddles(await prepareEvents(allEvents), getScanOptions(settings))
+      );
       
       res.json({
         opportunities: middles,
@@ -333,33 +510,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const headerApiKey = req.headers['x-api-key'] as string | undefined;
       const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
       
-      // Map general sport categories to specific leagues
-      const sportInputs = req.query.sports 
-        ? (typeof req.query.sports === 'string' ? req.query.sports.split(',') : req.query.sports)
-        : ["upcoming"];
-      const sports = (sportInputs as string[]).flatMap(mapSportInputToLeagues);
-      const uniqueSports = Array.from(new Set(sports)) as Sport[];
-      
-      let allEvents: any[] = [];
+      const uniqueSports = resolveSports(req.query.sports);
+      const allEvents = await fetchEnabledEvents(settings, uniqueSports, apiKey, "+EV", ["h2h"]);
       
-      // Fetch events from enabled sources
-      if (settings.showMockData) {
-        const mockProvider = new (await import('./odds-provider')).MockOddsProvider();
-        const mockResult = await mockProvider.fetchOdds(uniqueSports);
-        allEvents.push(...mockResult.events);
-      }
-      
-      if (settings.showLiveData && apiKey && !settings.mockMode) {
-        try {
-          const liveProvider = createOddsProvider(apiKey, false);
-          const liveResult = await liveProvider.fetchOdds(uniqueSports);
-          allEvents.push(...liveResult.events);
-        } catch (error) {
-          console.error(`[API] Error fetching live data for +EV:`, error);
-        }
-      }
-      
-      const positiveEVOpps = findPositiveEVOpportunities(allEvents, minEV);
+      const positiveEVOpps = opportunityLifecycle.track(
+        `ev:${uniqueSports.join(",")}`,
+        findPositiveEVOpportunities(await prepareEvents(allEvents), minEV, getScanOptions(settings)),
+        opp => Math.max(...opp.bookmakers.map(b => b.ev ?? 0))
+      );
       
       res.json({
         opportunities: positiveEVOpps,
@@ -374,6 +532,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========================================
+  // GET /api/back-lay - Sportsbook back prices matched with exchange lays
+  // ========================================
+  app.get("/api/back-lay", async (req, res) => {
+    try {
+      const stake = req.query.stake ? parseFloat(req.query.stake as string) : 100;
+      if (!(stake > 0)) {
+        return res.status(400).json({ message: "Stake must be a positive number" });
+      }
+
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      // Exchanges only quote lay prices in the lay markets, so ask for them too
+      const events = await fetchEnabledEvents(
+        settings,
+        resolveSports(req.query.sports),
+        apiKey,
+        "back/lay",
+        withLayMarkets(settings.markets || ["h2h"])
+      );
+
+      const opportunities = findBackLayOpportunities(
+        await prepareEvents(events),
+        stake,
+        settings.markets,
+        getScanOptions(settings)
+      );
+
+      res.json({
+        opportunities,
+        count: opportunities.length,
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // GET /api/low-hold - Markets ranked by hold, arb or not
+  // ========================================
+  app.get("/api/low-hold", async (req, res) => {
+    try {
+      const maxHold = req.query.maxHold ? parseFloat(req.query.maxHold as string) : 2;
+      if (isNaN(maxHold)) {
+        return res.status(400).json({ message: "maxHold must be a number" });
+      }
+
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      const events = await fetchEnabledEvents(settings, resolveSports(req.query.sports), apiKey, "low hold");
+
+      const markets = findLowHoldMarkets(
+        await prepareEvents(events),
+        maxHold,
+        settings.markets,
+        getScanOptions(settings)
+      );
+
+      res.json({
+        markets,
+        count: markets.length,
+        maxHold,
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // GET /api/steam - Correlated moves across bookmakers, with stale +EV books
+  // ========================================
+  app.get("/api/steam", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      const options = getSteamOptions(req.query, settings);
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      const events = await prepareEvents(
+        await fetchEnabledEvents(settings, resolveSports(req.query.sports), apiKey, "steam"),
+        true
+      );
+
+      const now = new Date();
+      const history = await storage.getHistoricalOddsForEvents(
+        events.map(event => event.id),
+        getSteamHistoryStart(options, now)
+      );
+      const moves = detectSteamMoves(history, events, options, now);
+
+      res.json({
+        moves,
+        count: moves.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid request parameters",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // GET /api/odds/events - Current events with every bookmaker's prices
+  // ========================================
+  app.get("/api/odds/events", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+
+      const events = await prepareEvents(
+        await fetchEnabledEvents(settings, resolveSports(req.query.sports), apiKey, "events")
+      );
+
+      res.json({
+        events,
+        count: events.length,
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
   // ========================================
   // GET /healthz - Health check (spec requirement)
   // ========================================
@@ -465,6 +759,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========================================
+  // POST /api/stakes/max - Largest stakes within bookmaker limits
+  // ========================================
+  app.post("/api/stakes/max", async (req, res) => {
+    try {
+      const { legs, targetTotal } = maxStakeRequestSchema.parse(req.body);
+      const settings = await storage.getSettings();
+      const bets = legs.map(leg => ({
+        bookmaker: leg.bookmaker,
+        bookmakerKey: leg.bookmakerKey,
+        outcome: leg.outcome,
+        odds: leg.odds,
+        commission: leg.commission,
+      }));
+
+      // A profile in a currency with no FX rate is a settings problem, not a server fault
+      let limits: ReturnType<typeof getStakeLimits>;
+      try {
+        limits = getStakeLimits(bets, settings.bookmakerProfiles, settings);
+      } catch (error) {
+        return res.status(422).json({
+          message: error instanceof Error ? error.message : "Invalid bookmaker profile",
+        });
+      }
+
+      const result = solveConstrainedStakes(bets, limits, targetTotal);
+      if (!result) {
+        return res.status(422).json({
+          message: "No max stake or balance is configured for these bookmakers",
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid request parameters",
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // GET /api/opportunities/lifecycle - History of tracked opportunities
+  // ========================================
+  app.get("/api/opportunities/lifecycle", (req, res) => {
+    try {
+      res.json(opportunityLifecycle.getRecords());
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // Team/outcome name alias endpoints
+  // ========================================
+  app.get("/api/aliases", async (req, res) => {
+    try {
+      const aliases = await storage.getNameAliases();
+      res.json(aliases);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  app.get("/api/aliases/suggestions", async (req, res) => {
+    try {
+      const confirmed = new Set((await storage.getNameAliases()).map(a => normalizeName(a.alias)));
+      const suggestions = Array.from(aliasSuggestions.entries())
+        .filter(([key]) => !confirmed.has(key))
+        .map(([, suggestion]) => suggestion)
+        .sort((a, b) => b.score - a.score);
+      res.json(suggestions);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  app.post("/api/aliases", async (req, res) => {
+    try {
+      const alias = await storage.saveNameAlias(insertNameAliasSchema.parse(req.body));
+      aliasSuggestions.delete(normalizeName(alias.alias));
+      res.status(201).json(alias);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid alias",
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  app.delete("/api/aliases/suggestions", async (req, res) => {
+    try {
+      const alias = typeof req.query.alias === "string" ? req.query.alias : "";
+      const key = normalizeName(alias);
+      aliasSuggestions.delete(key);
+      dismissedSuggestions.add(key);
+      res.json({ message: "Suggestion dismissed" });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  app.delete("/api/aliases/:id", async (req, res) => {
+    try {
+      await storage.deleteNameAlias(req.params.id);
+      res.json({ message: "Alias deleted successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
   // ========================================
   // GET /api/cache/stats - Cache statistics
   // ========================================
@@ -508,6 +935,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========================================
+  // GET /api/historical-odds/:eventId/steam - Steam moves in one event's history
+  // ========================================
+  app.get("/api/historical-odds/:eventId/steam", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      const options = getSteamOptions(req.query, settings);
+      const moves = detectSteamMoves(await storage.getHistoricalOdds(req.params.eventId), [], options);
+
+      res.json({
+        moves,
+        count: moves.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid request parameters",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // POST /api/backtest - Replay recorded odds against strategy settings
+  // ========================================
+  app.post("/api/backtest", async (req, res) => {
+    try {
+      const request = backtestRequestSchema.parse(req.body);
+      const settings = await storage.getSettings();
+      const { from, to, historyStart } = getBacktestWindow(
+        request.from ? new Date(request.from) : undefined,
+        request.to ? new Date(request.to) : undefined
+      );
+
+      const [history, events, bets] = await Promise.all([
+        storage.getHistoricalOddsBetween(historyStart, to),
+        storage.getEvents(),
+        storage.getBets(),
+      ]);
+
+      const result = runBacktest(
+        history,
+        {
+          ...getScanOptions(settings),
+          devigMethod: request.devigMethod ?? settings.devigMethod,
+          from,
+          to,
+          strategies: request.strategies,
+          minProfit: request.minProfit,
+          minEV: request.minEV ?? settings.minEV,
+          bookmakers: request.bookmakers,
+          markets: request.markets ?? settings.markets,
+          stake: request.stake,
+        },
+        events,
+        getKnownResults(bets)
+      );
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid request parameters",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
   // ========================================
   // Task 12: Bet Tracking Endpoints
   // ========================================
@@ -539,9 +1042,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/bets", async (req, res) => {
     try {
-      const bet = await storage.saveBet(req.body);
+      const validated = insertBetSchema.parse(req.body);
+      const settings = await storage.getSettings();
+      const bet = await storage.saveBet(stampBetCurrency(validated, settings));
       res.status(201).json(bet);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid bet",
+          errors: error.errors,
+        });
+      }
+
       res.status(500).json({
         message: error instanceof Error ? error.message : "Internal server error",
       });
@@ -601,6 +1113,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========================================
+  // GET /api/promos/:id/conversions - Hedges that turn a free bet into cash
+  // ========================================
+  app.get("/api/promos/:id/conversions", async (req, res) => {
+    try {
+      const promo = await storage.getPromo(req.params.id);
+      if (!promo) {
+        return res.status(404).json({ message: "Promo not found" });
+      }
+      if (promo.type !== "free_bet") {
+        return res.status(422).json({ message: "Only free bet promos can be converted" });
+      }
+      if (promo.expiryDate && new Date(promo.expiryDate) < new Date()) {
+        return res.status(422).json({ message: "Promo has expired" });
+      }
+
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      const events = await fetchEnabledEvents(settings, resolveSports(req.query.sports), apiKey, "free bet conversion");
+
+      const conversions = findFreeBetConversions(
+        await prepareEvents(events),
+        { bookmaker: promo.bookmaker, amount: promo.value, promoId: promo.id },
+        settings.markets,
+        getScanOptions(settings)
+      );
+
+      res.json({
+        promo,
+        conversions,
+        count: conversions.length,
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // GET /api/promos/:id/risk-free - Hedges for a refund-if-it-loses bet
+  // ========================================
+  app.get("/api/promos/:id/risk-free", async (req, res) => {
+    try {
+      const promo = await storage.getPromo(req.params.id);
+      if (!promo) {
+        return res.status(404).json({ message: "Promo not found" });
+      }
+      if (promo.type !== "risk_free") {
+        return res.status(422).json({ message: "Only risk-free promos can be evaluated" });
+      }
+      if (promo.expiryDate && new Date(promo.expiryDate) < new Date()) {
+        return res.status(422).json({ message: "Promo has expired" });
+      }
+
+      const conversionRate = req.query.conversionRate ? parseFloat(req.query.conversionRate as string) : 70;
+      if (!(conversionRate >= 0 && conversionRate <= 100)) {
+        return res.status(400).json({ message: "Conversion rate must be between 0 and 100" });
+      }
+
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      const events = await fetchEnabledEvents(settings, resolveSports(req.query.sports), apiKey, "risk-free conversion");
+
+      const conversions = findRiskFreeConversions(
+        await prepareEvents(events),
+        { bookmaker: promo.bookmaker, amount: promo.value, conversionRate, promoId: promo.id },
+        settings.markets,
+        getScanOptions(settings)
+      );
+
+      res.json({
+        promo,
+        conversionRate,
+        conversions,
+        count: conversions.length,
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // GET /api/promos/:id/rollover - Deposit bonus wagering progress and plan
+  // ========================================
+  app.get("/api/promos/:id/rollover", async (req, res) => {
+    try {
+      const promo = await storage.getPromo(req.params.id);
+      if (!promo) {
+        return res.status(404).json({ message: "Promo not found" });
+      }
+      if (promo.type !== "deposit_bonus") {
+        return res.status(422).json({ message: "Only deposit bonus promos have a rollover" });
+      }
+      if (!promo.depositAmount || promo.rolloverMultiplier === undefined) {
+        return res.status(422).json({ message: "Set the deposit amount and rollover requirement first" });
+      }
+
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      const events = await fetchEnabledEvents(settings, resolveSports(req.query.sports), apiKey, "rollover plan");
+
+      const market = findLowHoldRolloverMarket(
+        await prepareEvents(events),
+        promo.bookmaker,
+        promo.minOdds,
+        settings.markets,
+        getScanOptions(settings)
+      );
+
+      res.json(planRollover(promo, await storage.getBets(), market));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
+  // ========================================
+  // POST /api/boosts/evaluate - Arb or EV of an odds boost or profit boost
+  // ========================================
+  app.post("/api/boosts/evaluate", async (req, res) => {
+    try {
+      const request = boostRequestSchema.parse(req.body);
+      let { bookmaker, profitBoost } = request;
+
+      if (request.promoId) {
+        const promo = await storage.getPromo(request.promoId);
+        if (!promo) {
+          return res.status(404).json({ message: "Promo not found" });
+        }
+        if (promo.type !== "odds_boost") {
+          return res.status(422).json({ message: "Only odds boost promos can be evaluated" });
+        }
+        bookmaker = bookmaker ?? promo.bookmaker;
+        if (request.boostedOdds === undefined) profitBoost = profitBoost ?? promo.value;
+      }
+
+      if (!bookmaker) {
+        return res.status(400).json({ message: "Bookmaker is required" });
+      }
+      if ((request.boostedOdds === undefined) === (profitBoost === undefined)) {
+        return res.status(400).json({ message: "Enter either a boosted price or a profit boost" });
+      }
+
+      const settings = await storage.getSettings();
+      const headerApiKey = req.headers['x-api-key'] as string | undefined;
+      const apiKey = headerApiKey || process.env.THE_ODDS_API_KEY;
+      const events = await fetchEnabledEvents(
+        settings,
+        resolveSports(request.sport),
+        apiKey,
+        "boost evaluation",
+        [request.marketType]
+      );
+
+      const [event] = await prepareEvents(events.filter(e => e.id === request.eventId));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const evaluation = evaluateBoost(
+        event,
+        {
+          bookmaker,
+          marketType: request.marketType,
+          outcome: request.outcome,
+          point: request.point,
+          boostedOdds: request.boostedOdds,
+          profitBoost,
+          maxStake: request.maxStake,
+          maxWinnings: request.maxWinnings,
+          promoId: request.promoId,
+        },
+        getScanOptions(settings),
+        request.stake
+      );
+      if (!evaluation) {
+        return res.status(422).json({
+          message: profitBoost !== undefined
+            ? `${bookmaker} does not price this outcome, or its market is incomplete`
+            : "The market for this outcome is incomplete",
+        });
+      }
+
+      res.json(evaluation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid request parameters",
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  });
+
   app.post("/api/promos", async (req, res) => {
     try {
       const promo = await storage.savePromo(req.body);
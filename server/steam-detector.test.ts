@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectSteamMoves, findPriceMoves, getSteamHistoryStart } from './steam-detector';
+import type { HistoricalOdds } from '@shared/schema';
+
+// ============================================================================
+// STEAM DETECTOR TESTS
+// ============================================================================
+
+describe('Steam Detector', () => {
+  const now = new Date(Date.UTC(2025, 0, 1, 12, 0));
+  const at = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+
+  const market = (bookmaker: string, lakers: number, warriors: number, timestamp: string): HistoricalOdds[] => [
+    { id: `${bookmaker}-l-${timestamp}`, eventId: 'event_1', bookmaker, outcome: 'Lakers', odds: lakers, timestamp, marketType: 'h2h' },
+    { id: `${bookmaker}-w-${timestamp}`, eventId: 'event_1', bookmaker, outcome: 'Warriors', odds: warriors, timestamp, marketType: 'h2h' },
+  ];
+
+  const opening = ['DraftKings', 'FanDuel', 'Bet365', 'Caesars'].flatMap(book => market(book, 2.0, 1.85, at(-30)));
+
+  it('should pair each price change with the price before it', () => {
+    const moves = findPriceMoves([...opening, ...market('DraftKings', 1.8, 2.1, at(-10))]);
+
+    expect(moves).toHaveLength(2);
+    expect(moves.find(m => m.outcome === 'Lakers')).toMatchObject({ bookmaker: 'DraftKings', fromOdds: 2.0, toOdds: 1.8, change: 11.11 });
+  });
+
+  it('should flag several books moving together and the book that has not followed', () => {
+    const history = [
+      ...opening,
+      ...market('DraftKings', 1.8, 2.1, at(-10)),
+      ...market('FanDuel', 1.8, 2.1, at(-9)),
+      ...market('Bet365', 1.8, 2.1, at(-8)),
+    ];
+
+    const moves = detectSteamMoves(history, [], {}, now);
+    const shortening = moves.find(m => m.direction === 'shortening')!;
+    const drifting = moves.find(m => m.direction === 'drifting')!;
+
+    expect(moves).toHaveLength(2);
+    expect(shortening).toMatchObject({
+      outcome: 'Lakers',
+      marketType: 'h2h',
+      startedAt: at(-10),
+      detectedAt: at(-8),
+      averageChange: 11.11,
+    });
+    expect(shortening.moves.map(m => m.bookmaker)).toEqual(['DraftKings', 'FanDuel', 'Bet365']);
+    expect(shortening.fairOdds).toBeCloseTo(1.857, 3);
+    expect(shortening.staleBooks).toHaveLength(1);
+    expect(shortening.staleBooks[0].bookmaker).toBe('Caesars');
+    expect(shortening.staleBooks[0].ev).toBeCloseTo(7.7, 1);
+
+    // Caesars' short Warriors price is not +EV after the drift
+    expect(drifting.outcome).toBe('Warriors');
+    expect(drifting.staleBooks).toEqual([]);
+  });
+
+  it('should ignore moves spread wider than the window or by too few books', () => {
+    const spread = [
+      ...opening,
+      ...market('DraftKings', 1.8, 2.1, at(-20)),
+      ...market('FanDuel', 1.8, 2.1, at(-12)),
+      ...market('Bet365', 1.8, 2.1, at(-4)),
+    ];
+    const twoBooks = [
+      ...opening,
+      ...market('DraftKings', 1.8, 2.1, at(-10)),
+      ...market('FanDuel', 1.8, 2.1, at(-9)),
+    ];
+
+    expect(detectSteamMoves(spread, [], {}, now)).toEqual([]);
+    expect(detectSteamMoves(twoBooks, [], {}, now)).toEqual([]);
+    expect(detectSteamMoves(twoBooks, [], { minBooks: 2 }, now)).toHaveLength(2);
+  });
+
+  it('should skip moves older than the lookback', () => {
+    const history = [
+      ...opening,
+      ...market('DraftKings', 1.8, 2.1, at(-10)),
+      ...market('FanDuel', 1.8, 2.1, at(-9)),
+      ...market('Bet365', 1.8, 2.1, at(-8)),
+    ];
+
+    expect(detectSteamMoves(history, [], { lookbackMinutes: 5 }, now)).toEqual([]);
+  });
+
+  it('should only need history from the lookback and window, seeded with the price before it', () => {
+    const start = getSteamHistoryStart({ lookbackMinutes: 20, windowMinutes: 5 }, now);
+    expect(start.toISOString()).toBe(at(-25));
+
+    // Opening prices are older than the start, so only the last one per line is loaded
+    const history = [
+      ...opening,
+      ...market('DraftKings', 1.8, 2.1, at(-10)),
+      ...market('FanDuel', 1.8, 2.1, at(-9)),
+      ...market('Bet365', 1.8, 2.1, at(-8)),
+    ];
+    const recent = history.filter(odds => odds.timestamp >= start.toISOString());
+
+    expect(detectSteamMoves([...opening, ...recent], [], { lookbackMinutes: 20 }, now)).toHaveLength(2);
+  });
+});
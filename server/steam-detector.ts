@@ -0,0 +1,199 @@
+import type { DevigMethod, HistoricalOdds, OddsApiEvent, SteamMove } from "@shared/schema";
+import { calculateConsensusOdds, getClosingPrices } from "./closing-line";
+import { extractOddsSnapshots, getSnapshotKey } from "./odds-history";
+
+// ============================================================================
+// STEAM MOVE DETECTION
+// A steam move is several bookmakers moving the same outcome in the same
+// direction within a short window. Bookmakers that have not followed yet are
+// stale, and +EV when their price beats the movers' new fair price
+// ============================================================================
+
+export interface SteamOptions {
+  windowMinutes?: number; // Maximum spread of the moves in one cluster
+  minBooks?: number; // Distinct bookmakers that must move
+  minChange?: number; // Minimum % change in implied probability for a move to count
+  lookbackMinutes?: number; // Only moves this recent are considered
+  devigMethod?: DevigMethod;
+}
+
+type PriceMove = SteamMove["moves"][number] &
+  Pick<HistoricalOdds, "eventId" | "marketType" | "outcome" | "point"> & { lineKey: string };
+
+const DEFAULT_WINDOW_MINUTES = 5;
+const DEFAULT_MIN_BOOKS = 3;
+const DEFAULT_MIN_CHANGE = 2;
+const DEFAULT_LOOKBACK_MINUTES = 60;
+
+/**
+ * Earliest history detection needs: moves inside the lookback, plus a window
+ * before it for clusters that started just earlier. Each line's last price
+ * before this is needed too, as the price its first move starts from
+ */
+export function getSteamHistoryStart(options: SteamOptions = {}, now: Date = new Date()): Date {
+  const minutes = (options.lookbackMinutes ?? DEFAULT_LOOKBACK_MINUTES) + (options.windowMinutes ?? DEFAULT_WINDOW_MINUTES);
+  return new Date(now.getTime() - minutes * 60 * 1000);
+}
+
+/**
+ * Every price change in the history, paired with the price before it
+ * Change is the % change in implied probability: positive when the price shortens
+ */
+export function findPriceMoves(history: HistoricalOdds[]): PriceMove[] {
+  const series = new Map<string, HistoricalOdds[]>();
+  for (const odds of history) {
+    const key = getSnapshotKey(odds);
+    series.set(key, [...(series.get(key) ?? []), odds]);
+  }
+
+  const moves: PriceMove[] = [];
+  series.forEach(prices => {
+    prices.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    for (let i = 1; i < prices.length; i++) {
+      const from = prices[i - 1];
+      const to = prices[i];
+      if (from.odds === to.odds) continue;
+
+      moves.push({
+        eventId: to.eventId,
+        marketType: to.marketType,
+        outcome: to.outcome,
+        point: to.point,
+        lineKey: getSnapshotKey({ ...to, bookmaker: "" }),
+        bookmaker: to.bookmaker,
+        fromOdds: from.odds,
+        toOdds: to.odds,
+        change: Math.round((from.odds / to.odds - 1) * 10000) / 100,
+        timestamp: to.timestamp,
+      });
+    }
+  });
+
+  return moves.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Clusters of same-direction moves by enough distinct bookmakers within the window
+ * Each move belongs to at most one cluster
+ */
+function findClusters(moves: PriceMove[], windowMs: number, minBooks: number): PriceMove[][] {
+  const clusters: PriceMove[][] = [];
+  let i = 0;
+
+  while (i < moves.length) {
+    const start = new Date(moves[i].timestamp).getTime();
+    const cluster = moves.slice(i).filter(move => new Date(move.timestamp).getTime() - start <= windowMs);
+
+    if (new Set(cluster.map(move => move.bookmaker)).size >= minBooks) {
+      clusters.push(cluster);
+      i += cluster.length;
+    } else {
+      i++;
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Detect steam moves in recorded odds history
+ * The movers' current markets are de-vigged into a fair price, and bookmakers
+ * with no price change since the cluster started are flagged when that fair
+ * price makes them +EV. Current prices come from the event when it is passed
+ * in, otherwise from the latest recorded snapshots
+ *
+ * @param history - Odds history, including snapshots from before the lookback
+ * @param events - Currently listed events, for event details and live prices
+ * @returns Steam moves, most recently detected first
+ */
+export function detectSteamMoves(
+  history: HistoricalOdds[],
+  events: OddsApiEvent[] = [],
+  options: SteamOptions = {},
+  now: Date = new Date()
+): SteamMove[] {
+  const windowMs = (options.windowMinutes ?? DEFAULT_WINDOW_MINUTES) * 60 * 1000;
+  const minBooks = options.minBooks ?? DEFAULT_MIN_BOOKS;
+  const minChange = options.minChange ?? DEFAULT_MIN_CHANGE;
+  const since = now.getTime() - (options.lookbackMinutes ?? DEFAULT_LOOKBACK_MINUTES) * 60 * 1000;
+
+  const allMoves = findPriceMoves(history);
+  const candidates = allMoves.filter(move =>
+    move.marketType && Math.abs(move.change) >= minChange && new Date(move.timestamp).getTime() >= since
+  );
+
+  const groups = new Map<string, PriceMove[]>();
+  for (const move of candidates) {
+    const key = `${move.lineKey}|${move.change > 0 ? "shortening" : "drifting"}`;
+    groups.set(key, [...(groups.get(key) ?? []), move]);
+  }
+
+  const steamMoves: SteamMove[] = [];
+
+  groups.forEach(moves => {
+    const event = events.find(e => e.id === moves[0].eventId);
+    const current = event
+      ? extractOddsSnapshots([event], now)
+      : getClosingPrices(history.filter(odds => odds.eventId === moves[0].eventId), now.toISOString());
+
+    for (const cluster of findClusters(moves, windowMs, minBooks)) {
+      const [first] = cluster;
+      const isLine = (odds: Pick<HistoricalOdds, "marketType" | "outcome" | "point">) =>
+        odds.marketType === first.marketType && odds.outcome === first.outcome && odds.point === first.point;
+
+      const movers = new Set(cluster.map(move => move.bookmaker));
+      const startedAt = first.timestamp;
+      const detectedAt = cluster
+        .find((_, index) => new Set(cluster.slice(0, index + 1).map(move => move.bookmaker)).size === minBooks)!
+        .timestamp;
+
+      const fairOdds = calculateConsensusOdds(
+        current.filter(odds => odds.marketType === first.marketType && movers.has(odds.bookmaker)),
+        first,
+        options.devigMethod
+      );
+
+      const staleBooks = fairOdds === undefined ? [] : current
+        .filter(odds => isLine(odds) && !movers.has(odds.bookmaker))
+        .filter(odds => !allMoves.some(move =>
+          move.lineKey === first.lineKey && move.bookmaker === odds.bookmaker && move.timestamp >= startedAt
+        ))
+        .map(odds => ({
+          bookmaker: odds.bookmaker,
+          odds: odds.odds,
+          ev: Math.round((odds.odds / fairOdds - 1) * 10000) / 100,
+        }))
+        .filter(book => book.ev > 0)
+        .sort((a, b) => b.ev - a.ev);
+
+      steamMoves.push({
+        id: [first.eventId, first.marketType, first.point, "steam", first.outcome, new Date(startedAt).getTime()]
+          .filter(part => part !== undefined)
+          .join("-"),
+        eventId: first.eventId,
+        sport: event?.sport_title,
+        match: event && `${event.home_team} vs ${event.away_team}`,
+        commenceTime: event?.commence_time,
+        marketType: first.marketType!,
+        outcome: first.outcome,
+        point: first.point,
+        direction: first.change > 0 ? "shortening" : "drifting",
+        startedAt,
+        detectedAt,
+        averageChange: Math.round((cluster.reduce((sum, move) => sum + move.change, 0) / cluster.length) * 100) / 100,
+        moves: cluster.map(move => ({
+          bookmaker: move.bookmaker,
+          fromOdds: move.fromOdds,
+          toOdds: move.toOdds,
+          change: move.change,
+          timestamp: move.timestamp,
+        })),
+        fairOdds,
+        staleBooks,
+      });
+    }
+  });
+
+  return steamMoves.sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+}
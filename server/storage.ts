@@ -1,6 +1,6 @@
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, gte, inArray, lt, lte } from "drizzle-orm";
 import ws from "ws";
 
 // Configure WebSocket for Neon
@@ -15,14 +15,19 @@ import type {
   Promo,
   InsertPromo,
   Event,
-  InsertEvent
+  InsertEvent,
+  NameAlias,
+  InsertNameAlias
 } from "@shared/schema";
 import {
+  defaultBookmakerProfiles,
+  defaultMaxQuoteAge,
   settingsTable,
   historicalOddsTable,
   betsTable,
   promosTable,
   eventsTable,
+  nameAliasesTable,
 } from "@shared/schema";
 
 // ============================================================================
@@ -41,6 +46,10 @@ export interface IStorage {
   // Task 7: Historical odds tracking
   saveHistoricalOdds(odds: InsertHistoricalOdds): Promise<HistoricalOdds>;
   getHistoricalOdds(eventId: string): Promise<HistoricalOdds[]>;
+  saveHistoricalOddsBatch(odds: InsertHistoricalOdds[]): Promise<number>; // Returns count of inserted rows
+  getLatestHistoricalOdds(eventIds: string[], before?: Date): Promise<HistoricalOdds[]>;
+  getHistoricalOddsForEvents(eventIds: string[], since?: Date): Promise<HistoricalOdds[]>; // Oldest first, with each line's last price before since
+  getHistoricalOddsBetween(from: Date, to?: Date): Promise<HistoricalOdds[]>; // Oldest first
   
   // Task 12: Bet tracking
   saveBet(bet: InsertBet): Promise<Bet>;
@@ -63,6 +72,27 @@ export interface IStorage {
   updateEvent(eventId: string, updates: Partial<Event>): Promise<Event>;
   deleteEvent(eventId: string): Promise<void>;
   cleanupOldEvents(): Promise<number>; // Returns count of deleted events
+
+  // Team/outcome name aliases
+  getNameAliases(): Promise<NameAlias[]>;
+  saveNameAlias(alias: InsertNameAlias): Promise<NameAlias>;
+  deleteNameAlias(id: string): Promise<void>;
+}
+
+// Rows per multi-row historical odds insert (7 columns each)
+const HISTORICAL_ODDS_BATCH_SIZE = 500;
+
+function toHistoricalOdds(row: typeof historicalOddsTable.$inferSelect): HistoricalOdds {
+  return {
+    id: row.id.toString(),
+    eventId: row.eventId,
+    bookmaker: row.bookmaker,
+    outcome: row.outcome,
+    odds: parseFloat(row.odds),
+    point: row.point !== null ? parseFloat(row.point) : undefined,
+    timestamp: row.timestamp.toISOString(),
+    marketType: row.marketType as any,
+  };
 }
 
 // PostgreSQL Storage Implementation
@@ -94,6 +124,15 @@ export class PostgresStorage implements IStorage {
           minProfit: 2,
           sound: true,
         },
+        markets: ["h2h" as const],
+        devigMethod: "multiplicative" as const,
+        bookmakerProfiles: defaultBookmakerProfiles,
+        sharpOnly: false,
+        maxQuoteAge: defaultMaxQuoteAge,
+        staleQuoteMode: "flag" as const,
+        oddsFormat: "decimal" as const,
+        baseCurrency: "USD",
+        fxRates: {},
       };
       
       const [inserted] = await this.db.insert(settingsTable).values(defaultSettings).returning();
@@ -122,6 +161,15 @@ export class PostgresStorage implements IStorage {
     if (updates.bookmakerPreferences !== undefined) dbUpdates.bookmakerPreferences = updates.bookmakerPreferences;
     if (updates.minEV !== undefined) dbUpdates.minEV = updates.minEV.toString();
     if (updates.notificationPreferences !== undefined) dbUpdates.notificationPreferences = updates.notificationPreferences;
+    if (updates.markets !== undefined) dbUpdates.markets = updates.markets;
+    if (updates.devigMethod !== undefined) dbUpdates.devigMethod = updates.devigMethod;
+    if (updates.bookmakerProfiles !== undefined) dbUpdates.bookmakerProfiles = updates.bookmakerProfiles;
+    if (updates.sharpOnly !== undefined) dbUpdates.sharpOnly = updates.sharpOnly;
+    if (updates.maxQuoteAge !== undefined) dbUpdates.maxQuoteAge = updates.maxQuoteAge;
+    if (updates.staleQuoteMode !== undefined) dbUpdates.staleQuoteMode = updates.staleQuoteMode;
+    if (updates.oddsFormat !== undefined) dbUpdates.oddsFormat = updates.oddsFormat;
+    if (updates.baseCurrency !== undefined) dbUpdates.baseCurrency = updates.baseCurrency;
+    if (updates.fxRates !== undefined) dbUpdates.fxRates = updates.fxRates;
     dbUpdates.updatedAt = new Date();
 
     const [updated] = await this.db
@@ -149,6 +197,15 @@ export class PostgresStorage implements IStorage {
         minProfit: 2,
         sound: true,
       },
+      markets: row.markets || ["h2h"],
+      devigMethod: row.devigMethod || "multiplicative",
+      bookmakerProfiles: row.bookmakerProfiles || defaultBookmakerProfiles,
+      sharpOnly: row.sharpOnly ?? false,
+      maxQuoteAge: row.maxQuoteAge || defaultMaxQuoteAge,
+      staleQuoteMode: row.staleQuoteMode || "flag",
+      oddsFormat: row.oddsFormat || "decimal",
+      baseCurrency: row.baseCurrency || "USD",
+      fxRates: row.fxRates || {},
     };
   }
 
@@ -170,6 +227,7 @@ export class PostgresStorage implements IStorage {
         bookmaker: data.bookmaker,
         outcome: data.outcome,
         odds: data.odds.toString(),
+        point: data.point?.toString(),
         marketType: data.marketType,
       })
       .returning();
@@ -180,6 +238,7 @@ export class PostgresStorage implements IStorage {
       bookmaker: inserted.bookmaker,
       outcome: inserted.outcome,
       odds: parseFloat(inserted.odds),
+      point: inserted.point !== null ? parseFloat(inserted.point) : undefined,
       timestamp: inserted.timestamp.toISOString(),
       marketType: inserted.marketType as any,
     };
@@ -197,11 +256,85 @@ export class PostgresStorage implements IStorage {
       bookmaker: row.bookmaker,
       outcome: row.outcome,
       odds: parseFloat(row.odds),
+      point: row.point !== null ? parseFloat(row.point) : undefined,
       timestamp: row.timestamp.toISOString(),
       marketType: row.marketType as any,
     }));
   }
 
+  async saveHistoricalOddsBatch(odds: InsertHistoricalOdds[]): Promise<number> {
+    // Multi-row inserts, chunked to stay well under the bind parameter limit
+    for (let i = 0; i < odds.length; i += HISTORICAL_ODDS_BATCH_SIZE) {
+      await this.db.insert(historicalOddsTable).values(
+        odds.slice(i, i + HISTORICAL_ODDS_BATCH_SIZE).map(data => ({
+          eventId: data.eventId,
+          bookmaker: data.bookmaker,
+          outcome: data.outcome,
+          odds: data.odds.toString(),
+          point: data.point?.toString(),
+          marketType: data.marketType,
+          timestamp: new Date(data.timestamp),
+        }))
+      );
+    }
+
+    return odds.length;
+  }
+
+  async getLatestHistoricalOdds(eventIds: string[], before?: Date): Promise<HistoricalOdds[]> {
+    if (eventIds.length === 0) return [];
+
+    // One row per outcome and line: the newest, optionally before a cutoff
+    const line = [
+      historicalOddsTable.eventId,
+      historicalOddsTable.bookmaker,
+      historicalOddsTable.marketType,
+      historicalOddsTable.outcome,
+      historicalOddsTable.point,
+    ];
+    const results = await this.db
+      .selectDistinctOn(line)
+      .from(historicalOddsTable)
+      .where(and(
+        inArray(historicalOddsTable.eventId, eventIds),
+        before ? lt(historicalOddsTable.timestamp, before) : undefined
+      ))
+      .orderBy(...line, desc(historicalOddsTable.timestamp));
+
+    return results.map(toHistoricalOdds);
+  }
+
+  async getHistoricalOddsForEvents(eventIds: string[], since?: Date): Promise<HistoricalOdds[]> {
+    if (eventIds.length === 0) return [];
+
+    const [seeds, results] = await Promise.all([
+      since ? this.getLatestHistoricalOdds(eventIds, since) : Promise.resolve([]),
+      this.db
+        .select()
+        .from(historicalOddsTable)
+        .where(and(
+          inArray(historicalOddsTable.eventId, eventIds),
+          since ? gte(historicalOddsTable.timestamp, since) : undefined
+        ))
+        .orderBy(historicalOddsTable.timestamp),
+    ]);
+
+    return [...seeds.sort((a, b) => a.timestamp.localeCompare(b.timestamp)), ...results.map(toHistoricalOdds)];
+  }
+
+  async getHistoricalOddsBetween(from: Date, to?: Date): Promise<HistoricalOdds[]> {
+    const results = await this.db
+      .select()
+      .from(historicalOddsTable)
+      .where(and(
+        gte(historicalOddsTable.timestamp, from),
+        to ? lte(historicalOddsTable.timestamp, to) : undefined
+      ))
+      .orderBy(historicalOddsTable.timestamp);
+
+    return results.map(toHistoricalOdds);
+  }
+
   // Bet tracking
   async saveBet(data: InsertBet): Promise<Bet> {
     const [inserted] = await this.db
@@ -211,6 +344,8 @@ export class PostgresStorage implements IStorage {
         sport: data.sport,
         match: data.match,
         bookmakers: data.bookmakers,
+        currency: data.currency,
+        promoId: data.promoId ? parseInt(data.promoId) : undefined,
         status: data.status,
         profit: data.profit.toString(),
         closingOdds: data.closingOdds,
@@ -224,6 +359,8 @@ export class PostgresStorage implements IStorage {
       sport: inserted.sport,
       match: inserted.match,
       bookmakers: inserted.bookmakers as any,
+      currency: inserted.currency ?? undefined,
+      promoId: inserted.promoId?.toString(),
       status: inserted.status as any,
       profit: parseFloat(inserted.profit),
       timestamp: inserted.timestamp.toISOString(),
@@ -241,6 +378,8 @@ export class PostgresStorage implements IStorage {
       sport: row.sport,
       match: row.match,
       bookmakers: row.bookmakers as any,
+      currency: row.currency ?? undefined,
+      promoId: row.promoId?.toString(),
       status: row.status as any,
       profit: parseFloat(row.profit),
       timestamp: row.timestamp.toISOString(),
@@ -263,6 +402,8 @@ export class PostgresStorage implements IStorage {
       sport: result.sport,
       match: result.match,
       bookmakers: result.bookmakers as any,
+      currency: result.currency ?? undefined,
+      promoId: result.promoId?.toString(),
       status: result.status as any,
       profit: parseFloat(result.profit),
       timestamp: result.timestamp.toISOString(),
@@ -290,6 +431,8 @@ export class PostgresStorage implements IStorage {
       sport: updated.sport,
       match: updated.match,
       bookmakers: updated.bookmakers as any,
+      currency: updated.currency ?? undefined,
+      promoId: updated.promoId?.toString(),
       status: updated.status as any,
       profit: parseFloat(updated.profit),
       timestamp: updated.timestamp.toISOString(),
@@ -312,6 +455,9 @@ export class PostgresStorage implements IStorage {
         value: data.value.toString(),
         expiryDate: data.expiryDate ? new Date(data.expiryDate) : undefined,
         notes: data.notes,
+        depositAmount: data.depositAmount?.toString(),
+        rolloverMultiplier: data.rolloverMultiplier?.toString(),
+        minOdds: data.minOdds?.toString(),
       })
       .returning();
 
@@ -322,6 +468,9 @@ export class PostgresStorage implements IStorage {
       value: parseFloat(inserted.value),
       expiryDate: inserted.expiryDate?.toISOString(),
       notes: inserted.notes || undefined,
+      depositAmount: inserted.depositAmount ? parseFloat(inserted.depositAmount) : undefined,
+      rolloverMultiplier: inserted.rolloverMultiplier ? parseFloat(inserted.rolloverMultiplier) : undefined,
+      minOdds: inserted.minOdds ? parseFloat(inserted.minOdds) : undefined,
       timestamp: inserted.timestamp.toISOString(),
     };
   }
@@ -336,6 +485,9 @@ export class PostgresStorage implements IStorage {
       value: parseFloat(row.value),
       expiryDate: row.expiryDate?.toISOString(),
       notes: row.notes || undefined,
+      depositAmount: row.depositAmount ? parseFloat(row.depositAmount) : undefined,
+      rolloverMultiplier: row.rolloverMultiplier ? parseFloat(row.rolloverMultiplier) : undefined,
+      minOdds: row.minOdds ? parseFloat(row.minOdds) : undefined,
       timestamp: row.timestamp.toISOString(),
     }));
   }
@@ -355,6 +507,9 @@ export class PostgresStorage implements IStorage {
       value: parseFloat(result.value),
       expiryDate: result.expiryDate?.toISOString(),
       notes: result.notes || undefined,
+      depositAmount: result.depositAmount ? parseFloat(result.depositAmount) : undefined,
+      rolloverMultiplier: result.rolloverMultiplier ? parseFloat(result.rolloverMultiplier) : undefined,
+      minOdds: result.minOdds ? parseFloat(result.minOdds) : undefined,
       timestamp: result.timestamp.toISOString(),
     };
   }
@@ -366,6 +521,9 @@ export class PostgresStorage implements IStorage {
     if (updates.value !== undefined) dbUpdates.value = updates.value.toString();
     if (updates.expiryDate !== undefined) dbUpdates.expiryDate = new Date(updates.expiryDate);
     if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
+    if (updates.depositAmount !== undefined) dbUpdates.depositAmount = updates.depositAmount.toString();
+    if (updates.rolloverMultiplier !== undefined) dbUpdates.rolloverMultiplier = updates.rolloverMultiplier.toString();
+    if (updates.minOdds !== undefined) dbUpdates.minOdds = updates.minOdds.toString();
 
     const [updated] = await this.db
       .update(promosTable)
@@ -380,6 +538,9 @@ export class PostgresStorage implements IStorage {
       value: parseFloat(updated.value),
       expiryDate: updated.expiryDate?.toISOString(),
       notes: updated.notes || undefined,
+      depositAmount: updated.depositAmount ? parseFloat(updated.depositAmount) : undefined,
+      rolloverMultiplier: updated.rolloverMultiplier ? parseFloat(updated.rolloverMultiplier) : undefined,
+      minOdds: updated.minOdds ? parseFloat(updated.minOdds) : undefined,
       timestamp: updated.timestamp.toISOString(),
     };
   }
@@ -526,6 +687,41 @@ export class PostgresStorage implements IStorage {
     console.log(`[Cleanup] Deleted ${result.length} old events`);
     return result.length;
   }
+
+  // Name alias management
+  async getNameAliases(): Promise<NameAlias[]> {
+    const results = await this.db.select().from(nameAliasesTable);
+
+    return results.map(row => ({
+      id: row.id.toString(),
+      alias: row.alias,
+      canonical: row.canonical,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  async saveNameAlias(data: InsertNameAlias): Promise<NameAlias> {
+    // Re-confirming an alias points it at the new canonical name
+    const [saved] = await this.db
+      .insert(nameAliasesTable)
+      .values({ alias: data.alias, canonical: data.canonical })
+      .onConflictDoUpdate({
+        target: nameAliasesTable.alias,
+        set: { canonical: data.canonical },
+      })
+      .returning();
+
+    return {
+      id: saved.id.toString(),
+      alias: saved.alias,
+      canonical: saved.canonical,
+      createdAt: saved.createdAt.toISOString(),
+    };
+  }
+
+  async deleteNameAlias(id: string): Promise<void> {
+    await this.db.delete(nameAliasesTable).where(eq(nameAliasesTable.id, parseInt(id)));
+  }
 }
 
 export const storage = new PostgresStorage();
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { fromBaseCurrency, getFxRate, parseFxRates, toBaseCurrency } from './currency';
+
+// ============================================================================
+// CURRENCY CONVERSION TESTS
+// ============================================================================
+
+describe('Currency', () => {
+  const table = { baseCurrency: 'USD', fxRates: { GBP: 0.8, EUR: 0.9 } };
+
+  it('should convert between the base and account currencies', () => {
+    expect(getFxRate('USD', table)).toBe(1);
+    expect(getFxRate('JPY', table)).toBeNull();
+    expect(fromBaseCurrency(100, 'GBP', table)).toBeCloseTo(80, 10);
+    expect(toBaseCurrency(90, 'EUR', table)).toBeCloseTo(100, 10);
+  });
+
+  describe('parseFxRates', () => {
+    it('should read CSV with a header row', () => {
+      expect(parseFxRates('currency,rate\nGBP,0.79\neur,0.92\n')).toEqual({
+        rates: { GBP: 0.79, EUR: 0.92 },
+      });
+    });
+
+    it('should read JSON rate tables', () => {
+      expect(parseFxRates('{ "base": "usd", "rates": { "GBP": 0.79 } }')).toEqual({
+        base: 'USD',
+        rates: { GBP: 0.79 },
+      });
+      expect(parseFxRates('{ "EUR": 0.92 }').rates).toEqual({ EUR: 0.92 });
+    });
+
+    it('should reject invalid rates', () => {
+      expect(() => parseFxRates('GBP,-1')).toThrow('Invalid rate for GBP');
+      expect(() => parseFxRates('Pounds,0.79')).toThrow('Invalid currency code');
+      expect(() => parseFxRates('')).toThrow('No FX rates found');
+    });
+  });
+});
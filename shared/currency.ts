@@ -0,0 +1,91 @@
+// ============================================================================
+// CURRENCY CONVERSION
+// Stakes and profit are calculated in the base currency; each bookmaker
+// account may hold another currency. Rates are quoted as units of a currency
+// per 1 unit of the base currency (base USD: { GBP: 0.79, EUR: 0.92 }).
+// ============================================================================
+
+export type FxRates = Record<string, number>;
+
+export interface FxTable {
+  baseCurrency: string;
+  fxRates: FxRates;
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Units of `currency` per 1 unit of the base currency
+ * @returns null when no rate is known for the currency
+ */
+export function getFxRate(currency: string | undefined, table: FxTable): number | null {
+  if (!currency || currency === table.baseCurrency) return 1;
+  const rate = table.fxRates[currency];
+  return rate > 0 ? rate : null;
+}
+
+/**
+ * Convert a base-currency amount into an account currency
+ */
+export function fromBaseCurrency(amount: number, currency: string | undefined, table: FxTable): number | null {
+  const rate = getFxRate(currency, table);
+  return rate === null ? null : amount * rate;
+}
+
+/**
+ * Convert an account-currency amount into the base currency
+ */
+export function toBaseCurrency(amount: number, currency: string | undefined, table: FxTable): number | null {
+  const rate = getFxRate(currency, table);
+  return rate === null ? null : amount / rate;
+}
+
+/**
+ * Format an amount with its currency symbol ($12.50, £10.00, €8.40)
+ */
+export function formatMoney(amount: number, currency: string = "USD"): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Parse an FX rate file
+ * Accepts JSON ({ "GBP": 0.79 } or { "base": "USD", "rates": { ... } }) or
+ * CSV lines of "currency,rate" with an optional header row
+ * @throws Error when no valid rates are found or a rate is not a positive number
+ */
+export function parseFxRates(content: string): { base?: string; rates: FxRates } {
+  const text = content.trim();
+  let base: string | undefined;
+  let entries: [string, unknown][];
+
+  if (text.startsWith("{")) {
+    const json = JSON.parse(text);
+    const table = json.rates && typeof json.rates === "object" ? json.rates : json;
+    base = typeof json.base === "string" ? json.base.toUpperCase() : undefined;
+    entries = Object.entries(table).filter(([key]) => key !== "base");
+  } else {
+    entries = text
+      .split(/\r?\n/)
+      .map(line => line.split(/[,;\t]/).map(cell => cell.trim()))
+      .filter(cells => cells.length >= 2 && cells[0] !== "")
+      .map(([currency, rate]) => [currency, rate]);
+    // Skip a header row such as "currency,rate"
+    if (entries.length > 0 && isNaN(parseFloat(String(entries[0][1])))) entries.shift();
+  }
+
+  const rates: FxRates = {};
+  for (const [currency, value] of entries) {
+    const code = currency.toUpperCase();
+    const rate = typeof value === "number" ? value : parseFloat(String(value));
+    if (!CURRENCY_CODE.test(code)) throw new Error(`Invalid currency code "${currency}"`);
+    if (!(rate > 0)) throw new Error(`Invalid rate for ${code}`);
+    rates[code] = rate;
+  }
+
+  if (Object.keys(rates).length === 0) throw new Error("No FX rates found");
+  return { base, rates };
+}
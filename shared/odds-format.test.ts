@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  decimalToAmerican,
+  americanToDecimal,
+  decimalToFraction,
+  formatOdds,
+  parseOdds,
+} from './odds-format';
+
+// ============================================================================
+// ODDS FORMAT TESTS
+// ============================================================================
+
+describe('Odds Format', () => {
+  describe('American odds', () => {
+    it('should convert both ways', () => {
+      expect(decimalToAmerican(2.5)).toBeCloseTo(150, 10);
+      expect(decimalToAmerican(1.5)).toBeCloseTo(-200, 10);
+      expect(americanToDecimal(-110)).toBeCloseTo(1.909090909, 8);
+      expect(americanToDecimal(50)).toBeNull();
+    });
+
+    it('should format with a sign', () => {
+      expect(formatOdds(2.0, 'american')).toBe('+100');
+      expect(formatOdds(1.91, 'american')).toBe('-110');
+      expect(formatOdds(3.25, 'american')).toBe('+225');
+    });
+  });
+
+  describe('fractional odds', () => {
+    it('should find the simplest fraction for the quoted price', () => {
+      expect(decimalToFraction(2.5)).toEqual([3, 2]);
+      expect(decimalToFraction(1 + 10 / 11)).toEqual([10, 11]);
+      expect(decimalToFraction(1.2)).toEqual([1, 5]);
+      expect(decimalToFraction(6)).toEqual([5, 1]);
+    });
+
+    it('should only return fractions that parse back to the same price', () => {
+      expect(decimalToFraction(2.05)).toEqual([21, 20]);
+      expect(decimalToFraction(1.95)).toEqual([19, 20]);
+      expect(decimalToFraction(1.45)).toEqual([9, 20]);
+      expect(decimalToFraction(1.91)).toEqual([91, 100]);
+      expect(parseOdds(formatOdds(2.05, 'fractional'), 'fractional')).toBeCloseTo(2.05, 10);
+    });
+
+    it('should parse fractions without rounding', () => {
+      expect(parseOdds('10/11', 'fractional')).toBe(1 + 10 / 11);
+      expect(parseOdds('5-2', 'fractional')).toBe(3.5);
+      expect(parseOdds('Evens', 'fractional')).toBe(2);
+      expect(formatOdds(parseOdds('100/30', 'fractional')!, 'fractional')).toBe('10/3');
+    });
+  });
+
+  describe('Asian odds', () => {
+    it('should format Hong Kong, Malay and Indonesian prices', () => {
+      expect(formatOdds(1.5, 'hongkong')).toBe('0.50');
+      expect(formatOdds(1.5, 'malay')).toBe('0.50');
+      expect(formatOdds(2.5, 'malay')).toBe('-0.67');
+      expect(formatOdds(2.5, 'indonesian')).toBe('1.50');
+      expect(formatOdds(1.5, 'indonesian')).toBe('-2.00');
+    });
+
+    it('should parse back to decimal odds', () => {
+      expect(parseOdds('0.85', 'hongkong')).toBeCloseTo(1.85, 10);
+      expect(parseOdds('-0.5', 'malay')).toBeCloseTo(3, 10);
+      expect(parseOdds('-1.25', 'indonesian')).toBeCloseTo(1.8, 10);
+      expect(parseOdds('0.5', 'indonesian')).toBeNull();
+    });
+  });
+
+  it('should reject input that is not odds in the given format', () => {
+    expect(parseOdds('', 'decimal')).toBeNull();
+    expect(parseOdds('0.9', 'decimal')).toBeNull();
+    expect(parseOdds('abc', 'american')).toBeNull();
+    expect(parseOdds('+150', 'american')).toBe(2.5);
+    expect(parseOdds('2.10')).toBe(2.1);
+  });
+});
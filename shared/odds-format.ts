@@ -0,0 +1,126 @@
+import type { OddsFormat } from "./schema";
+
+// ============================================================================
+// ODDS FORMAT CONVERSION
+// Prices are stored and calculated as decimal odds everywhere; these helpers
+// convert for display and parse what users type in their preferred format
+// ============================================================================
+
+// Only absorbs floating point error, so the fraction parses back to the same price
+const FRACTION_TOLERANCE = 1e-9;
+const MAX_FRACTION_DEPTH = 32;
+
+/**
+ * Convert decimal odds to American odds (+150, -110)
+ */
+export function decimalToAmerican(decimal: number): number {
+  return decimal >= 2 ? (decimal - 1) * 100 : -100 / (decimal - 1);
+}
+
+/**
+ * Convert American odds to decimal odds
+ * @returns null for values between -100 and +100, which are not valid American odds
+ */
+export function americanToDecimal(american: number): number | null {
+  if (american >= 100) return 1 + american / 100;
+  if (american <= -100) return 1 + 100 / -american;
+  return null;
+}
+
+// Simplest fraction (smallest denominator) in [lo, hi], found by continued fractions
+function simplestFraction(lo: number, hi: number, depth = 0): [number, number] {
+  const whole = Math.floor(lo);
+  if (whole === lo || depth >= MAX_FRACTION_DEPTH) return [Math.round(lo), 1];
+  if (whole + 1 <= hi) return [whole + 1, 1];
+
+  const [num, den] = simplestFraction(1 / (hi - whole), 1 / (lo - whole), depth + 1);
+  return [whole * num + den, num];
+}
+
+/**
+ * Convert decimal odds to fractional odds as [numerator, denominator]
+ * Returns the simplest fraction equal to the price, so the exact 1.909090...
+ * from 10/11 comes back as 10/11 while a quoted 1.91 is 91/100
+ */
+export function decimalToFraction(decimal: number): [number, number] {
+  const profit = decimal - 1;
+  return simplestFraction(Math.max(0, profit - FRACTION_TOLERANCE), profit + FRACTION_TOLERANCE);
+}
+
+/**
+ * Convert fractional odds to decimal odds without rounding
+ */
+export function fractionToDecimal(numerator: number, denominator: number): number | null {
+  if (!(numerator > 0) || !(denominator > 0)) return null;
+  return 1 + numerator / denominator;
+}
+
+/**
+ * Format decimal odds in the given display format
+ * @param decimal - Decimal odds (must be greater than 1)
+ * @param format - Display format
+ * @returns e.g. "2.50", "+150", "3/2", "1.50", "-0.67", "1.50"
+ */
+export function formatOdds(decimal: number, format: OddsFormat = "decimal"): string {
+  if (!(decimal > 1) || !isFinite(decimal)) return decimal.toFixed(2);
+
+  const profit = decimal - 1;
+  switch (format) {
+    case "american": {
+      const american = Math.round(decimalToAmerican(decimal));
+      return american > 0 ? `+${american}` : `${american}`;
+    }
+    case "fractional": {
+      const [numerator, denominator] = decimalToFraction(decimal);
+      return `${numerator}/${denominator}`;
+    }
+    case "hongkong":
+      return profit.toFixed(2);
+    case "malay":
+      return (profit <= 1 ? profit : -1 / profit).toFixed(2);
+    case "indonesian":
+      return (profit >= 1 ? profit : -1 / profit).toFixed(2);
+    default:
+      return decimal.toFixed(2);
+  }
+}
+
+/**
+ * Parse odds typed in any supported format into decimal odds
+ * @param input - Raw user input ("+150", "-110", "5/2", "evens", "0.85", "-1.25")
+ * @param format - Format the input is written in
+ * @returns Decimal odds, or null if the input is not valid odds in that format
+ */
+export function parseOdds(input: string, format: OddsFormat = "decimal"): number | null {
+  const text = input.trim().toLowerCase();
+  if (text === "") return null;
+
+  if (format === "fractional") {
+    if (text === "evens" || text === "evs" || text === "even") return 2;
+    const match = text.match(/^(\d+(?:\.\d+)?)\s*[/-]\s*(\d+(?:\.\d+)?)$/);
+    if (match) return fractionToDecimal(parseFloat(match[1]), parseFloat(match[2]));
+  }
+
+  if (!/^[+-]?\d*\.?\d+$/.test(text)) return null;
+  const value = parseFloat(text);
+
+  switch (format) {
+    case "american":
+      return americanToDecimal(value);
+    case "fractional":
+      // A bare number is read as "n/1"
+      return fractionToDecimal(value, 1);
+    case "hongkong":
+      return value > 0 ? 1 + value : null;
+    case "malay":
+      if (value > 0 && value <= 1) return 1 + value;
+      if (value < 0 && value >= -1) return 1 + 1 / -value;
+      return null;
+    case "indonesian":
+      if (value >= 1) return 1 + value;
+      if (value <= -1) return 1 + 1 / -value;
+      return null;
+    default:
+      return value > 1 ? value : null;
+  }
+}
@@ -6,14 +6,70 @@ import { createInsertSchema } from "drizzle-zod";
 // CORE TYPES & SCHEMAS FOR ARBITRAGE SCANNER
 // ============================================================================
 
+// De-vig methods for removing bookmaker margin from fair prices
+export const devigMethodSchema = z.enum(["multiplicative", "additive", "power", "shin", "worst_case"]);
+export type DevigMethod = z.infer<typeof devigMethodSchema>;
+
+// ISO 4217 currency code
+export const currencySchema = z.string().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code");
+
+// Units of each currency per 1 unit of the base currency
+export const fxRatesSchema = z.record(currencySchema, z.number().positive());
+
+// Per-bookmaker configuration (matched against bookmaker key or title)
+export const bookmakerProfileSchema = z.object({
+  bookmaker: z.string().min(1),
+  weight: z.number().min(0).default(1), // Weight in the fair price consensus
+  sharp: z.boolean().default(false), // Sharp books set the price in sharp-only mode
+  commission: z.number().min(0).max(100).default(0), // % charged on net winnings (exchanges)
+  maxStake: z.number().positive().optional(), // Max bet the account is allowed per wager
+  balance: z.number().nonnegative().optional(), // Funds available in the account
+  currency: currencySchema.optional(), // Account currency (default: base currency); limits are in it
+});
+
+export type BookmakerProfile = z.infer<typeof bookmakerProfileSchema>;
+
+export const defaultBookmakerProfiles: BookmakerProfile[] = [
+  { bookmaker: "pinnacle", weight: 5, sharp: true, commission: 0 },
+  { bookmaker: "betfair_ex_eu", weight: 3, sharp: true, commission: 5 },
+];
+
+// Max quote age in minutes per market before a price counts as stale (0 disables the check)
+export const maxQuoteAgeSchema = z.object({
+  h2h: z.number().min(0).default(20),
+  spreads: z.number().min(0).default(10),
+  totals: z.number().min(0).default(10),
+});
+
+export type MaxQuoteAge = z.infer<typeof maxQuoteAgeSchema>;
+
+export const defaultMaxQuoteAge: MaxQuoteAge = { h2h: 20, spreads: 10, totals: 10 };
+
+// What the scanner does with stale quotes
+export const staleQuoteModeSchema = z.enum(["flag", "drop"]);
+export type StaleQuoteMode = z.infer<typeof staleQuoteModeSchema>;
+
+// How odds are displayed and entered (prices are always stored as decimal)
+export const oddsFormatSchema = z.enum(["decimal", "american", "fractional", "hongkong", "malay", "indonesian"]);
+export type OddsFormat = z.infer<typeof oddsFormatSchema>;
+
 // Bookmaker odds for a specific outcome
 export const bookmakerOddsSchema = z.object({
   name: z.string(),
+  bookmakerKey: z.string().optional(), // API key (e.g. betfair_ex_eu), for matching profiles configured by key
   outcome: z.string(),
   odds: z.number().positive(),
+  point: z.number().finite().optional(), // Spread/total line the odds were quoted at
+  commission: z.number().min(0).max(100).optional(), // % commission on net winnings
+  effectiveOdds: z.number().positive().optional(), // Odds net of commission
   stake: z.number().nonnegative(),
   ev: z.number().optional(),
   evDollars: z.number().optional(),
+  devigMethod: devigMethodSchema.optional(), // How the fair price behind ev was derived
+  lastUpdate: z.string().optional(), // When the bookmaker last updated this price
+  stale: z.boolean().optional(), // Price is older than the max quote age for its market
+  currency: currencySchema.optional(), // Account currency, when it differs from the base currency
+  localStake: z.number().nonnegative().optional(), // Stake in the account currency
 });
 
 export type BookmakerOdds = z.infer<typeof bookmakerOddsSchema>;
@@ -52,6 +108,16 @@ export const middleInfoSchema = z.object({
 export type MiddleInfo = z.infer<typeof middleInfoSchema>;
 
 // Arbitrage opportunity
+// Server-side history of an opportunity across refreshes
+export const opportunityLifecycleSchema = z.object({
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+  peakProfit: z.number(), // Best profit % (best leg EV % for +EV opportunities)
+  disappearedAt: z.string().optional(), // Set once a refresh no longer finds it
+});
+
+export type OpportunityLifecycle = z.infer<typeof opportunityLifecycleSchema>;
+
 export const arbitrageOpportunitySchema = z.object({
   id: z.string(),
   sport: z.string(),
@@ -67,6 +133,8 @@ export const arbitrageOpportunitySchema = z.object({
   middleInfo: middleInfoSchema.optional(), // Task 5: Middle details
   isPositiveEV: z.boolean().optional(), // Task 8: Is this +EV
   marketType: marketTypeSchema.optional(), // h2h, spreads, or totals
+  shapeMismatch: z.boolean().optional(), // Bookmakers disagree on the outcomes in this market
+  lifecycle: opportunityLifecycleSchema.optional(),
 });
 
 export type ArbitrageOpportunity = z.infer<typeof arbitrageOpportunitySchema>;
@@ -74,7 +142,11 @@ export type ArbitrageOpportunity = z.infer<typeof arbitrageOpportunitySchema>;
 // The Odds API raw response types
 export const oddsApiOutcomeSchema = z.object({
   name: z.string(),
-  price: z.number(),
+  price: z.number(), // Back price
+  point: z.number().finite().optional(), // Line for spreads/totals markets
+  lay_price: z.number().optional(), // Exchanges only: best price to lay the outcome at
+  liquidity: z.number().nonnegative().optional(), // Exchanges only: stake available to back at price
+  lay_liquidity: z.number().nonnegative().optional(), // Exchanges only: backer's stake available to lay at lay_price
 });
 
 export const oddsApiBookmakerSchema = z.object({
@@ -101,6 +173,7 @@ export const oddsApiEventSchema = z.object({
 export type OddsApiEvent = z.infer<typeof oddsApiEventSchema>;
 export type OddsApiBookmaker = z.infer<typeof oddsApiBookmakerSchema>;
 export type OddsApiOutcome = z.infer<typeof oddsApiOutcomeSchema>;
+export type OddsApiMarket = OddsApiBookmaker["markets"][number];
 
 // Sports configuration
 // 'upcoming' is always valid and returns next 8 games + live games across all sports
@@ -150,6 +223,7 @@ export const getOddsRequestSchema = z.object({
   minProfit: z.number().min(0).max(100).optional(),
   bookmakers: z.array(z.string()).optional(),
   timeFilter: timeFilterSchema.optional(),
+  markets: z.array(marketTypeSchema).optional(),
 });
 
 export type GetOddsRequest = z.infer<typeof getOddsRequestSchema>;
@@ -164,6 +238,20 @@ export const getOddsResponseSchema = z.object({
 
 export type GetOddsResponse = z.infer<typeof getOddsResponseSchema>;
 
+// Max-stake solver request (limits come from the saved bookmaker profiles)
+export const maxStakeRequestSchema = z.object({
+  legs: z.array(z.object({
+    bookmaker: z.string(),
+    bookmakerKey: z.string().optional(),
+    outcome: z.string(),
+    odds: z.number().positive(),
+    commission: z.number().min(0).max(100).optional(),
+  })).min(2),
+  targetTotal: z.number().positive().optional(),
+});
+
+export type MaxStakeRequest = z.infer<typeof maxStakeRequestSchema>;
+
 // Health check response
 export const healthCheckResponseSchema = z.object({
   status: z.enum(["healthy", "degraded", "unhealthy"]),
@@ -183,6 +271,7 @@ export const historicalOddsSchema = z.object({
   bookmaker: z.string(),
   outcome: z.string(),
   odds: z.number(),
+  point: z.number().finite().optional(),
   timestamp: z.string(),
   marketType: marketTypeSchema.optional(),
 });
@@ -200,19 +289,30 @@ export const betSchema = z.object({
   match: z.string(),
   bookmakers: z.array(z.object({
     name: z.string(),
+    bookmakerKey: z.string().optional(), // API key, for matching profiles configured by key
     outcome: z.string(),
     odds: z.number(),
-    stake: z.number(),
+    point: z.number().finite().optional(),
+    stake: z.number(), // In the bet's base currency
+    currency: currencySchema.optional(), // Account currency the leg was placed in
+    fxRate: z.number().positive().optional(), // Units of that currency per base unit at placement
+    localStake: z.number().optional(), // Stake in the account currency
+    freeBet: z.boolean().optional(), // Placed with a free bet (stake not returned)
   })),
+  currency: currencySchema.optional(), // Base currency of stakes and profit
+  promoId: z.string().optional(), // Promo this bet was placed to use
   status: z.enum(["pending", "won", "lost"]),
   profit: z.number(),
   timestamp: z.string(),
   closingOdds: z.array(z.object({
     bookmaker: z.string(),
     outcome: z.string(),
-    odds: z.number(),
+    odds: z.number(), // Last pre-commence price at the leg's bookmaker
+    point: z.number().finite().optional(),
+    consensusOdds: z.number().optional(), // De-vigged closing price across every bookmaker
+    clv: z.number().optional(), // Leg CLV %, against the consensus close when known
   })).optional(),
-  clv: z.number().optional(), // Closing Line Value
+  clv: z.number().optional(), // Closing Line Value, stake-weighted across legs
 });
 
 export type Bet = z.infer<typeof betSchema>;
@@ -231,6 +331,9 @@ export const promoSchema = z.object({
   value: z.number(), // Dollar value or percentage
   expiryDate: z.string().optional(),
   notes: z.string().optional(),
+  depositAmount: z.number().positive().optional(), // Deposit a deposit bonus matches by value %
+  rolloverMultiplier: z.number().nonnegative().optional(), // Wagering required, as a multiple of the bonus
+  minOdds: z.number().gt(1).optional(), // Lowest decimal odds that count toward the rollover
   timestamp: z.string(),
 });
 
@@ -239,6 +342,273 @@ export type Promo = z.infer<typeof promoSchema>;
 export const insertPromoSchema = promoSchema.omit({ id: true, timestamp: true });
 export type InsertPromo = z.infer<typeof insertPromoSchema>;
 
+// A free bet (stake not returned) hedged into the same cash whichever outcome wins
+export const freeBetConversionSchema = z.object({
+  id: z.string(),
+  promoId: z.string().optional(),
+  eventId: z.string(),
+  sport: z.string(),
+  match: z.string(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  freeBet: bookmakerOddsSchema, // Leg placed with the free bet; stake is the free bet amount
+  hedges: z.array(bookmakerOddsSchema).min(1), // Cash stakes covering every other outcome
+  hedgeStake: z.number(), // Total cash staked on hedges
+  guaranteedProfit: z.number(), // Cash locked in whichever outcome wins
+  retention: z.number(), // Guaranteed profit as % of the free bet amount
+});
+
+export type FreeBetConversion = z.infer<typeof freeBetConversionSchema>;
+
+// A risk-free bet (stake refunded as a free bet if it loses) hedged over both branches
+export const riskFreeConversionSchema = z.object({
+  id: z.string(),
+  promoId: z.string().optional(),
+  eventId: z.string(),
+  sport: z.string(),
+  match: z.string(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  qualifyingBet: bookmakerOddsSchema, // Cash bet at the promo bookmaker
+  hedges: z.array(bookmakerOddsSchema).min(1),
+  hedgeStake: z.number(),
+  refund: z.number(), // Free bet received if the qualifying bet loses
+  conversionRate: z.number(), // Expected % of the refund kept when converting it
+  winProfit: z.number(), // Cash result when the qualifying bet wins
+  loseCash: z.number(), // Cash result when it loses, before the refund
+  refundValue: z.number(), // Expected cash from converting the refund
+  guaranteedProfit: z.number(), // Profit locked in on both branches
+  retention: z.number(), // Guaranteed profit as % of the refund
+});
+
+export type RiskFreeConversion = z.infer<typeof riskFreeConversionSchema>;
+
+// Hold of one market, at the best price per outcome and at each single bookmaker
+export const lowHoldMarketSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  sport: z.string(),
+  match: z.string(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  line: z.number().optional(), // Spread (home team's perspective) or total
+  hold: z.number(), // Hold % of the best-price composite market, net of commission
+  legs: z.array(bookmakerOddsSchema).min(2), // Best price per outcome, staked for equal returns on 100
+  bookmakerHolds: z.array(z.object({
+    bookmaker: z.string(),
+    hold: z.number(), // Hold % of the bookmaker's own market, net of its commission
+  })), // Lowest first; only bookmakers pricing every outcome
+  shapeMismatch: z.boolean().optional(),
+});
+
+export type LowHoldMarket = z.infer<typeof lowHoldMarketSchema>;
+
+// Steam detection thresholds, from the query string
+export const steamQuerySchema = z.object({
+  window: z.coerce.number().positive().optional(), // Minutes the moves of one cluster may span
+  minBooks: z.coerce.number().int().min(2).optional(), // Distinct bookmakers that must move
+  minChange: z.coerce.number().positive().optional(), // Minimum % change in implied probability per move
+  lookback: z.coerce.number().positive().optional(), // Minutes of history to scan for moves
+});
+
+export type SteamQuery = z.infer<typeof steamQuerySchema>;
+
+// Rapid, correlated price move across several bookmakers on one outcome
+export const steamMoveSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  sport: z.string().optional(), // Event details are only known for currently listed events
+  match: z.string().optional(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  outcome: z.string(),
+  point: z.number().finite().optional(),
+  direction: z.enum(["shortening", "drifting"]), // Shortening = implied probability rising
+  startedAt: z.string(), // First move of the cluster
+  detectedAt: z.string(), // Move that pushed the cluster over the bookmaker threshold
+  averageChange: z.number(), // Mean % change in implied probability per move
+  moves: z.array(z.object({
+    bookmaker: z.string(),
+    fromOdds: z.number(),
+    toOdds: z.number(),
+    change: z.number(), // % change in implied probability
+    timestamp: z.string(),
+  })),
+  fairOdds: z.number().optional(), // De-vigged consensus of the moved bookmakers
+  staleBooks: z.array(z.object({
+    bookmaker: z.string(),
+    odds: z.number(),
+    ev: z.number(), // EV % against the post-move fair odds
+  })), // Bookmakers that have not moved yet and are now +EV
+});
+
+export type SteamMove = z.infer<typeof steamMoveSchema>;
+
+// Strategy settings to replay recorded odds history with
+export const backtestStrategySchema = z.enum(["arbitrage", "middles", "positive_ev"]);
+export type BacktestStrategy = z.infer<typeof backtestStrategySchema>;
+
+export const backtestRequestSchema = z.object({
+  from: z.string().datetime().optional(), // Start of the replay (default: 30 days before the end)
+  to: z.string().datetime().optional(), // End of the replay (default: now)
+  strategies: z.array(backtestStrategySchema).min(1).default(["arbitrage", "middles", "positive_ev"]),
+  minProfit: z.number().default(0), // Minimum arbitrage profit %
+  minEV: z.number().optional(), // Minimum EV % (default: settings)
+  devigMethod: devigMethodSchema.optional(), // Default: settings
+  bookmakers: z.array(z.string()).optional(), // Allowed bookmakers (default: all)
+  markets: z.array(marketTypeSchema).min(1).optional(), // Default: settings
+  stake: z.number().positive().default(100), // Total stake per simulated bet
+});
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+// One simulated bet, placed when its opportunity first appeared
+export const backtestBetSchema = z.object({
+  id: z.string(),
+  strategy: backtestStrategySchema,
+  eventId: z.string(),
+  match: z.string(),
+  marketType: marketTypeSchema.optional(),
+  placedAt: z.string(),
+  legs: z.array(bookmakerOddsSchema),
+  stake: z.number(),
+  expectedProfit: z.number(), // Locked-in profit (arbs, middles missing) or EV
+  profit: z.number(), // From stored results when every leg has one, else the expected profit
+  settled: z.boolean(), // Whether stored results decided the profit
+});
+
+export type BacktestBet = z.infer<typeof backtestBetSchema>;
+
+export const backtestResultSchema = z.object({
+  from: z.string().optional(), // First replayed snapshot
+  to: z.string().optional(), // Last replayed snapshot
+  scans: z.number(), // Replay steps (one per recorded odds update)
+  scansWithOpportunities: z.number(),
+  opportunities: z.number(), // Distinct opportunities that appeared
+  opportunitiesPerDay: z.number(),
+  averageLifetimeMinutes: z.number(), // How long an opportunity stayed available
+  bets: z.array(backtestBetSchema), // Latest simulated bets, at most 500 (summary.bets counts them all)
+  summary: z.object({
+    bets: z.number(),
+    settledBets: z.number(),
+    totalStaked: z.number(),
+    pnl: z.number(),
+    roi: z.number(), // P&L as % of total staked
+    maxDrawdown: z.number(), // Largest peak-to-trough fall in cumulative P&L
+  }),
+  byStrategy: z.array(z.object({
+    strategy: backtestStrategySchema,
+    bets: z.number(),
+    pnl: z.number(),
+    roi: z.number(),
+  })),
+  equityCurve: z.array(z.object({ // At most 500 evenly spaced points, ending with the last bet
+    timestamp: z.string(),
+    pnl: z.number(), // Cumulative P&L after the bet placed at this time
+  })),
+});
+
+export type BacktestResult = z.infer<typeof backtestResultSchema>;
+
+// Cheapest hedged market for working through a deposit bonus rollover
+export const rolloverMarketSchema = z.object({
+  eventId: z.string(),
+  sport: z.string(),
+  match: z.string(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  legs: z.array(bookmakerOddsSchema).min(2), // Qualifying leg first, then hedges, per 100 wagered
+  hold: z.number(), // Market hold % of the qualifying leg and best hedges
+  costPerUnit: z.number(), // Expected loss per 1 wagered at the promo bookmaker
+});
+
+export type RolloverMarket = z.infer<typeof rolloverMarketSchema>;
+
+// Deposit bonus wagering progress and the expected cost of finishing it
+export const rolloverStatusSchema = z.object({
+  promoId: z.string(),
+  bonus: z.number(), // Bonus amount (deposit * match %)
+  requirement: z.number(), // Total wagering required
+  wagered: z.number(), // Qualifying stakes from linked bets
+  remaining: z.number(),
+  progress: z.number(), // % of the requirement wagered
+  qualifyingBets: z.number(),
+  market: rolloverMarketSchema.nullable(), // Cheapest current market to wager the rest in
+  expectedCost: z.number().nullable(), // Expected loss clearing the remaining rollover
+  expectedValue: z.number().nullable(), // Bonus minus the expected cost
+  positiveEV: z.boolean(),
+  expired: z.boolean(),
+});
+
+export type RolloverStatus = z.infer<typeof rolloverStatusSchema>;
+
+// How a lay stake is sized against a back bet
+// normal: equal result either way; underlay: lay less, break even if the back wins; overlay: lay more, break even if the lay wins
+export const layModeSchema = z.enum(["normal", "underlay", "overlay"]);
+export type LayMode = z.infer<typeof layModeSchema>;
+
+// A sportsbook back bet matched by a lay of the same outcome at an exchange
+export const backLayOpportunitySchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  sport: z.string(),
+  match: z.string(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  outcome: z.string(),
+  point: z.number().finite().optional(),
+  back: bookmakerOddsSchema,
+  lay: bookmakerOddsSchema.extend({
+    liability: z.number(), // Paid out if the outcome wins
+    liquidity: z.number().optional(), // Backer's stake available at the lay price
+  }),
+  backWinProfit: z.number(),
+  layWinProfit: z.number(),
+  rating: z.number(), // % of the back stake returned with a normal lay (100 = no loss)
+  liquidityCapped: z.boolean(), // Stakes were cut to the liquidity at the exchange
+});
+
+export type BackLayOpportunity = z.infer<typeof backLayOpportunitySchema>;
+
+// An odds boost (boosted price) or profit boost (% added to winnings) on one outcome
+export const boostRequestSchema = z.object({
+  promoId: z.string().optional(), // odds_boost promo supplying the bookmaker and profit boost %
+  bookmaker: z.string().optional(),
+  sport: z.string().optional(), // Sport or league to look the event up in (default: upcoming)
+  eventId: z.string(),
+  marketType: marketTypeSchema.default("h2h"),
+  outcome: z.string(),
+  point: z.number().finite().optional(), // Spread/total line of the boosted outcome
+  boostedOdds: z.number().gt(1).optional(), // Boosted decimal price
+  profitBoost: z.number().positive().optional(), // % added to the winnings at the quoted price
+  maxStake: z.number().positive().optional(), // Most the boost can be staked at
+  maxWinnings: z.number().positive().optional(), // Most the boost can add to winnings
+  stake: z.number().positive().optional(), // Stake on the boosted leg (default: the stake cap)
+});
+
+export type BoostRequest = z.infer<typeof boostRequestSchema>;
+
+export const boostEvaluationSchema = z.object({
+  id: z.string(),
+  promoId: z.string().optional(),
+  eventId: z.string(),
+  sport: z.string(),
+  match: z.string(),
+  commenceTime: z.string().optional(),
+  marketType: marketTypeSchema,
+  baseOdds: z.number().optional(), // Bookmaker's unboosted price, when quoted
+  boostedOdds: z.number(),
+  stakeCap: z.number().optional(), // Most the boosted leg can take under the max stake and max winnings
+  arbitrage: z.boolean(), // Boosted leg and best opposing prices lock in a profit
+  profit: z.number(), // Guaranteed return % of the total stake (negative: the hold left)
+  guaranteedProfit: z.number(), // Cash locked in by the hedged stakes, 0 without an arb
+  ev: z.number().nullable(), // EV % of the boosted leg against the de-vigged fair price
+  evDollars: z.number().nullable(),
+  legs: z.array(bookmakerOddsSchema).min(2), // Boosted leg first; opposing legs are staked only for an arb
+});
+
+export type BoostEvaluation = z.infer<typeof boostEvaluationSchema>;
+
 // Event schema for stored events
 export const eventSchema = z.object({
   id: z.string(),
@@ -258,6 +628,31 @@ export type Event = z.infer<typeof eventSchema>;
 export const insertEventSchema = eventSchema.omit({ id: true, createdAt: true, lastUpdated: true });
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 
+// Team/outcome name aliases (e.g. "Man City" -> "Manchester City")
+export const nameAliasSchema = z.object({
+  id: z.string(),
+  alias: z.string().min(1),
+  canonical: z.string().min(1),
+  createdAt: z.string(),
+});
+
+export type NameAlias = z.infer<typeof nameAliasSchema>;
+
+export const insertNameAliasSchema = nameAliasSchema.omit({ id: true, createdAt: true });
+export type InsertNameAlias = z.infer<typeof insertNameAliasSchema>;
+
+// Fuzzy-matched alias awaiting confirmation
+export const nameAliasSuggestionSchema = z.object({
+  alias: z.string(),
+  canonical: z.string(),
+  score: z.number().min(0).max(1), // Name similarity
+  eventId: z.string(),
+  match: z.string(),
+  bookmaker: z.string(),
+});
+
+export type NameAliasSuggestion = z.infer<typeof nameAliasSuggestionSchema>;
+
 // Notification preferences (Task 11)
 export const notificationPreferencesSchema = z.object({
   enabled: z.boolean().default(false),
@@ -279,6 +674,15 @@ export const settingsSchema = z.object({
   bookmakerPreferences: z.array(z.string()).optional(), // Task 9: Enabled bookmakers
   minEV: z.number().min(0).max(100).default(1), // Task 8: Minimum EV filter
   notificationPreferences: notificationPreferencesSchema.optional(), // Task 11
+  markets: z.array(marketTypeSchema).default(["h2h"]), // Markets scanned for arbitrage
+  devigMethod: devigMethodSchema.default("multiplicative"), // Fair price margin removal
+  bookmakerProfiles: z.array(bookmakerProfileSchema).default(defaultBookmakerProfiles),
+  sharpOnly: z.boolean().default(false), // +EV only against the de-vigged sharp price
+  maxQuoteAge: maxQuoteAgeSchema.default(defaultMaxQuoteAge),
+  staleQuoteMode: staleQuoteModeSchema.default("flag"),
+  oddsFormat: oddsFormatSchema.default("decimal"), // Display and input format for odds
+  baseCurrency: currencySchema.default("USD"), // Currency stakes and profit are calculated in
+  fxRates: fxRatesSchema.default({}),
 });
 
 export type Settings = z.infer<typeof settingsSchema>;
@@ -300,6 +704,15 @@ export const settingsTable = pgTable("settings", {
   bookmakerPreferences: jsonb("bookmaker_preferences").$type<string[]>(),
   minEV: decimal("min_ev").default("1").notNull(),
   notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>(),
+  markets: jsonb("markets").$type<MarketType[]>(),
+  devigMethod: text("devig_method").$type<DevigMethod>().default("multiplicative").notNull(),
+  bookmakerProfiles: jsonb("bookmaker_profiles").$type<BookmakerProfile[]>(),
+  sharpOnly: boolean("sharp_only").default(false).notNull(),
+  maxQuoteAge: jsonb("max_quote_age").$type<MaxQuoteAge>(),
+  staleQuoteMode: text("stale_quote_mode").$type<StaleQuoteMode>().default("flag").notNull(),
+  oddsFormat: text("odds_format").$type<OddsFormat>().default("decimal").notNull(),
+  baseCurrency: text("base_currency").default("USD").notNull(),
+  fxRates: jsonb("fx_rates").$type<Record<string, number>>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -314,6 +727,7 @@ export const historicalOddsTable = pgTable("historical_odds", {
   bookmaker: text("bookmaker").notNull(),
   outcome: text("outcome").notNull(),
   odds: decimal("odds").notNull(),
+  point: decimal("point"),
   marketType: text("market_type"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
@@ -329,16 +743,27 @@ export const betsTable = pgTable("bets", {
   match: text("match").notNull(),
   bookmakers: jsonb("bookmakers").$type<Array<{
     name: string;
+    bookmakerKey?: string;
     outcome: string;
     odds: number;
+    point?: number;
     stake: number;
+    currency?: string;
+    fxRate?: number;
+    localStake?: number;
+    freeBet?: boolean;
   }>>().notNull(),
+  currency: text("currency"),
+  promoId: integer("promo_id"),
   status: text("status").$type<"pending" | "won" | "lost">().notNull(),
   profit: decimal("profit").notNull(),
   closingOdds: jsonb("closing_odds").$type<Array<{
     bookmaker: string;
     outcome: string;
     odds: number;
+    point?: number;
+    consensusOdds?: number;
+    clv?: number;
   }>>(),
   clv: decimal("clv"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
@@ -355,6 +780,9 @@ export const promosTable = pgTable("promos", {
   value: decimal("value").notNull(),
   expiryDate: timestamp("expiry_date"),
   notes: text("notes"),
+  depositAmount: decimal("deposit_amount"),
+  rolloverMultiplier: decimal("rollover_multiplier"),
+  minOdds: decimal("min_odds"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -377,3 +805,14 @@ export const eventsTable = pgTable("events", {
 
 export type EventRow = typeof eventsTable.$inferSelect;
 export type InsertEventRow = typeof eventsTable.$inferInsert;
+
+// Name aliases table - maps bookmaker spellings to canonical team names
+export const nameAliasesTable = pgTable("name_aliases", {
+  id: serial("id").primaryKey(),
+  alias: text("alias").notNull().unique(),
+  canonical: text("canonical").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type NameAliasRow = typeof nameAliasesTable.$inferSelect;
+export type InsertNameAliasRow = typeof nameAliasesTable.$inferInsert;
@@ -0,0 +1,162 @@
+// ============================================================================
+// STAKE ROUNDING
+// Shared between the arbitrage engine and the client calculator
+// ============================================================================
+
+export interface RoundedStakes {
+  stakes: number[];
+  totalStake: number;
+  payouts: number[]; // Return per outcome if that leg wins
+  profits: number[]; // Payout minus total stake, per outcome
+  worstCaseProfit: number;
+  worstCaseProfitPercentage: number;
+}
+
+/**
+ * How profit is distributed across outcomes
+ * - equal: same profit whichever outcome wins
+ * - favor: break even on every outcome except the favored one
+ * - ratio: profit split in proportion to the given weights (one per outcome)
+ */
+export type StakeAllocation =
+  | { mode: "equal" }
+  | { mode: "favor"; outcomeIndex: number }
+  | { mode: "ratio"; ratios: number[] };
+
+// Beyond this many legs only floor/ceil candidates are searched (2^n instead of 4^n)
+const WIDE_SEARCH_MAX_LEGS = 6;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Evaluates a set of stakes against the odds they are placed at
+ * @param stakes - Stake per leg
+ * @param odds - Decimal odds per leg (net of commission where applicable)
+ */
+export function evaluateStakes(stakes: number[], odds: number[]): RoundedStakes {
+  const totalStake = stakes.reduce((sum, stake) => sum + stake, 0);
+  const payouts = stakes.map((stake, i) => stake * odds[i]);
+  const profits = payouts.map(payout => payout - totalStake);
+  const worstCaseProfit = profits.length > 0 ? Math.min(...profits) : 0;
+
+  return {
+    stakes: stakes.map(roundCents),
+    totalStake: roundCents(totalStake),
+    payouts: payouts.map(roundCents),
+    profits: profits.map(roundCents),
+    worstCaseProfit: roundCents(worstCaseProfit),
+    worstCaseProfitPercentage: totalStake > 0 ? roundCents((worstCaseProfit / totalStake) * 100) : 0,
+  };
+}
+
+/**
+ * Splits a total stake across outcomes according to an allocation mode
+ * Profit if outcome i wins is P_i = s_i * o_i - T. Setting P_i = r_i * X with
+ * sum(s_i) = T gives X = T * (1 - sum(1/o_i)) / sum(r_i/o_i), then
+ * s_i = (T + r_i * X) / o_i
+ * @param odds - Decimal odds per leg (net of commission where applicable)
+ * @param totalStake - Total amount to stake
+ * @param allocation - How profit should be distributed (default: equal)
+ */
+export function allocateStakes(
+  odds: number[],
+  totalStake: number,
+  allocation: StakeAllocation = { mode: "equal" }
+): number[] {
+  let ratios: number[];
+  switch (allocation.mode) {
+    case "favor":
+      ratios = odds.map((_, i) => (i === allocation.outcomeIndex ? 1 : 0));
+      break;
+    case "ratio":
+      ratios = odds.map((_, i) => Math.max(0, allocation.ratios[i] ?? 0));
+      break;
+    default:
+      ratios = odds.map(() => 1);
+  }
+
+  const weightedInverse = ratios.reduce((sum, r, i) => sum + r / odds[i], 0);
+  if (weightedInverse === 0) {
+    // No outcome to put profit on; fall back to equal profit
+    return allocateStakes(odds, totalStake);
+  }
+
+  const inverseSum = odds.reduce((sum, o) => sum + 1 / o, 0);
+  const profitUnit = (totalStake * (1 - inverseSum)) / weightedInverse;
+
+  return odds.map((o, i) => (totalStake + ratios[i] * profitUnit) / o);
+}
+
+/**
+ * Rounds arbitrage stakes to a human-friendly increment ($1, $5, $10...)
+ * Searches the rounded combinations around the exact stakes and keeps the one
+ * with the best worst-case return on total stake, preferring totals closest to
+ * the original. Ranking by return rather than dollars stops the search from
+ * simply picking the largest total.
+ * @param stakes - Exact stakes per leg
+ * @param odds - Decimal odds per leg (net of commission where applicable)
+ * @param increment - Rounding increment in currency units
+ * @param maxStakes - Largest stake per leg (e.g. bookmaker limits); rounding never goes above it
+ */
+export function roundStakes(
+  stakes: number[],
+  odds: number[],
+  increment: number,
+  maxStakes: (number | undefined)[] = []
+): RoundedStakes {
+  if (!(increment > 0) || stakes.length === 0) {
+    return evaluateStakes(stakes, odds);
+  }
+
+  const targetTotal = stakes.reduce((sum, stake) => sum + stake, 0);
+  const wide = stakes.length <= WIDE_SEARCH_MAX_LEGS;
+
+  const candidates = stakes.map(stake => {
+    const floor = Math.floor(stake / increment) * increment;
+    const ceil = Math.ceil(stake / increment) * increment;
+    const steps = wide ? [floor - increment, floor, ceil, ceil + increment] : [floor, ceil];
+    return Array.from(new Set(steps.filter(s => s > 0).map(roundCents)));
+  }).map((options, i) => {
+    const max = maxStakes[i];
+    return max === undefined ? options : options.filter(option => option <= max);
+  });
+
+  // Legs too small to round keep the smallest positive increment, or their
+  // exact stake when a cap leaves no rounded option
+  candidates.forEach((options, i) => {
+    if (options.length > 0) return;
+    const max = maxStakes[i];
+    candidates[i] = [max === undefined ? increment : Math.min(stakes[i], max)];
+  });
+
+  let best: number[] | null = null;
+  let bestWorst = -Infinity;
+  let bestDistance = Infinity;
+  const current: number[] = new Array(stakes.length);
+
+  const search = (leg: number) => {
+    if (leg === stakes.length) {
+      const total = current.reduce((sum, stake) => sum + stake, 0);
+      const worst = Math.min(...current.map((stake, i) => stake * odds[i] - total)) / total;
+      const distance = Math.abs(total - targetTotal);
+
+      if (worst > bestWorst + 1e-9 || (Math.abs(worst - bestWorst) <= 1e-9 && distance < bestDistance)) {
+        best = [...current];
+        bestWorst = worst;
+        bestDistance = distance;
+      }
+      return;
+    }
+
+    for (const option of candidates[leg]) {
+      current[leg] = option;
+      search(leg + 1);
+    }
+  };
+
+  search(0);
+
+  return evaluateStakes(best ?? stakes, odds);
+}